@@ -2,22 +2,116 @@ import { logger } from './utils/logger';
 
 /**
  * TweetYoink Content Script
- * Feature: 002-post-view-yoink, 003-config-endpoint, 004-response-overlay
+ * Feature: 002-post-view-yoink, 003-config-endpoint, 004-response-overlay, 014-multi-endpoint-fan-out,
+ * 015-streaming-responses, 016-async-progress, 017-async-failure-retry, 018-async-cancel, 019-result-routing,
+ * 020-result-badges, 021-keyboard-shortcuts, 022-context-menu, 025-result-cache, 026-result-export, 032-side-panel,
+ * 033-x-theme, 034-shadow-root
  * Runs on Twitter/X pages to inject Yoink buttons and extract tweet data
+ * Overlays and badges load their own styles into closed shadow roots (Feature 034)
  */
 
-// Import overlay CSS
-import './ui/overlay.css';
-
-import { initializeButtonInjector } from './ui/button-injector';
-import { disableButton, enableButton, showButtonError } from './ui/yoink-button';
+import { initializeButtonInjector, revisitProcessedTweets } from './ui/button-injector';
+import { disableButton, enableButton, showButtonError, showButtonQueued, findYoinkButton } from './ui/yoink-button';
+import type { YoinkButtonVariant } from './ui/yoink-button';
+import { updateResultBadges } from './ui/result-badge';
+import { initializeKeyboardShortcuts, findFocusedTweet } from './ui/keyboard-shortcuts';
+import { initializeBatchSelection } from './ui/batch-selection';
+import { initializeThemeMatching } from './ui/theme';
+import type { ShortcutCommand } from './ui/keyboard-shortcuts';
+import {
+  initializeContextMenuTracking,
+  findContextMenuTweet,
+  findSelectionTweet,
+  findLinkedTweet,
+} from './ui/context-menu-target';
+import type { ContextMenuAction } from './services/context-menu-service';
+import { getDisplaySettings, watchDisplayChanges } from './services/config-service';
+import { sendToSidePanel } from './services/side-panel-service';
+import { initializeAutoCapture, evaluateAutoCapture } from './services/auto-capture-service';
+import type { AutoCaptureRule } from './types/config';
 import { extractTweetData } from './extractors/tweet-extractor';
-import { isExtractionSuccess } from './types/tweet-data';
+import { extractThreadData } from './extractors/thread-extractor';
+import { extractSelectionData } from './extractors/selection-extractor';
+import { isExtractionSuccess, getTweetId, createBatchCapture } from './types/tweet-data';
+import type { ExtractionResult, TweetData } from './types/tweet-data';
+import type { OverlayTab, OverlayError, OverlayProgress, TweetResult } from './types/overlay';
 import { ERROR_DISPLAY_DURATION_MS } from './ui/constants';
-import { postTweetData, HttpError, TimeoutError, NetworkError, ConfigError } from './services/post-service';
-import { isAsyncResponse } from './types/config';
-import { parseServerResponse, getEmptyStateMessage } from './services/response-handler';
-import { showOverlay, showEmptyStateOverlay } from './ui/overlay-manager';
+import { postTweetData, postTweetDataToTargets, cancelAsyncRequest, HttpError, TimeoutError, NetworkError, ConfigError, CaptureQueuedError, PollingDisabledError } from './services/post-service';
+import type { EndpointOutcome } from './services/post-service';
+import type { PostResponse, AsyncProgressUpdate } from './types/config';
+import { isAsyncResponse, isErrorResponse, isStreamingResponse, STREAM_IDLE_TIMEOUT_SECONDS } from './types/config';
+import { parseServerResponse, getEmptyStateMessage, getResultLabel } from './services/response-handler';
+import type { ParsedResponse } from './services/response-handler';
+import {
+  getTweetResult,
+  setTweetResult,
+  updateTweetResult,
+  setFanOutResult,
+  updateTweetResultTab,
+  watchTweetResults,
+  setResultAliases,
+  findStreamResult,
+} from './services/result-store';
+import {
+  showOverlay,
+  showEmptyStateOverlay,
+  showTabbedOverlay,
+  updateOverlayTab,
+  showStreamingOverlay,
+  appendOverlayItems,
+  finishStreamingOverlay,
+  showProgressOverlay,
+  updateProgressOverlay,
+  isProgressOverlayVisible,
+  showErrorOverlay,
+  closeOverlay,
+  copyOverlayContent,
+  markOverlayCached,
+  setOverlayExportSource,
+  setOverlayDisplayMode,
+  setOverlayStackHandler,
+  setOverlaySidePanelHandler,
+  stackLateResult,
+} from './ui/overlay-manager';
+
+/**
+ * Async fan-out requests waiting for their result, keyed by `${profileId}:${requestId}`
+ * Value is the associated tweet ID of the tabbed overlay to update (Feature 014)
+ */
+const pendingFanOutTabs = new Map<string, string>();
+
+/**
+ * Streams whose overlay has been shown; a closed overlay is not re-opened by later items (Feature 015)
+ */
+const shownStreams = new Set<string>();
+
+/**
+ * Fan-out stream tab content received so far, keyed by `${profileId}:${streamId}` (Feature 015)
+ * Items can arrive before the fan-out overlay opens
+ */
+const fanOutStreams = new Map<string, Omit<OverlayTab, 'id' | 'label'>>();
+
+/**
+ * Timers ending streams that stopped without STREAM_END, keyed by stream ID (Feature 015)
+ * The service worker ends idle streams itself; these catch a worker that was stopped mid-stream
+ */
+const streamWatchdogs = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Extra wait for STREAM_END after the service worker's own idle timeout
+ */
+const STREAM_END_GRACE_MS = 15000;
+
+/**
+ * Tweets captured by an auto-capture rule; their results only update the badge (Feature 024)
+ * A tweet leaves the set when the user yoinks it or opens its result
+ */
+const autoCapturedTweets = new Set<string>();
+
+/**
+ * Tweets whose result was sent to the side panel; later changes follow it there (Feature 032)
+ */
+const sidePanelTweets = new Set<string>();
 
 // Check if we're on Twitter or X domain
 const currentDomain = window.location.hostname;
@@ -42,10 +136,40 @@ if (!isTwitter) {
 function initialize(): void {
   logger.log('[TweetYoink] Initializing...');
 
-  // Start button injector with click handler
-  initializeButtonInjector(handleYoinkClick);
+  // Buttons, badges and overlays follow X's Default, Dim or Lights Out theme (Feature 033)
+  initializeThemeMatching();
+
+  // Load auto-capture rules; tweets processed while they load are checked once they have (Feature 024)
+  initializeAutoCapture(autoCaptureTweet)
+    .then(revisitProcessedTweets)
+    .catch(error => logger.error('[TweetYoink] Failed to load auto-capture rules:', error));
+
+  // Start button injector with click handlers
+  initializeButtonInjector(handleYoinkClick, handleYoinkThreadClick, reopenResult, evaluateAutoCapture);
 
-  // Listen for async completion messages from service worker
+  // Keep inline result badges in sync with stored results (Feature 020)
+  watchTweetResults(updateResultBadges);
+
+  // In-page shortcut keys (Feature 021)
+  initializeKeyboardShortcuts(runShortcutCommand);
+
+  // Remember what the context menu was opened on (Feature 022)
+  initializeContextMenuTracking();
+
+  // Multi-select: selected tweets are sent together (Feature 023)
+  initializeBatchSelection(sendBatch);
+
+  // Result overlays export the capture they show (Feature 026)
+  setOverlayExportSource(getOverlayCapture);
+
+  // Results show as a modal, a docked panel or in Chrome's side panel (Feature 032)
+  setOverlayStackHandler(reopenResult);
+  setOverlaySidePanelHandler(showInSidePanel);
+  watchTweetResults(updateSidePanelResult);
+  getDisplaySettings().then(settings => setOverlayDisplayMode(settings.mode));
+  watchDisplayChanges(settings => setOverlayDisplayMode(settings.mode));
+
+  // Listen for async messages from service worker - only sent to the tab that made the capture (Feature 019)
   chrome.runtime.onMessage.addListener((message, _sender, _sendResponse) => {
     if (message.type === 'ASYNC_COMPLETED') {
       logger.log('[TweetYoink] ✅ Async request completed:', message.requestId);
@@ -53,17 +177,53 @@ function initialize(): void {
 
       // Parse response for overlay display
       const response = { status: 'completed' as const, result: message.result };
+
+      // Fan-out result: fill in the endpoint's tab (Feature 014)
+      // A closed fan-out overlay stays closed; its badge reopens every endpoint's tab
+      const fanOutKey = `${message.profileId}:${message.requestId}`;
+      const fanOutTweetId = pendingFanOutTabs.get(fanOutKey);
+      if (fanOutTweetId) {
+        pendingFanOutTabs.delete(fanOutKey);
+        updateFanOutTab(fanOutTweetId, message.profileId, getTabContent(response));
+        return;
+      }
+
       const parsed = parseServerResponse(response);
+      recordCompletedResult(message.tweetId, parsed, getTweetResult(message.tweetId)?.tweetData);
 
-      if (parsed.hasContent) {
-        logger.log(`[TweetYoink] ${parsed.contentItems.length} items ready for overlay display`);
-        showOverlay(parsed.contentItems, message.requestId);
-      } else {
-        logger.log('[TweetYoink] No displayable content:', parsed.emptyReason);
-        logger.log('[TweetYoink] Message:', getEmptyStateMessage(parsed.emptyReason));
-        // For now, just log - User Story 3 will add empty state overlay
+      // Anchor the result to the captured tweet (Feature 019); a result being read isn't replaced (Feature 032)
+      if (!autoCapturedTweets.has(message.tweetId) && !stackLateResult(message.tweetId)) {
+        showParsedResult(parsed, message.tweetId);
       }
     }
+
+    if (message.type === 'ASYNC_FAILED') {
+      handleAsyncFailure(message.requestId, message.tweetId, message.profileId, message.error, message.tweetData);
+    }
+
+    if (message.type === 'ASYNC_CANCELLED') {
+      handleAsyncCancelled(message.requestId, message.tweetId, message.profileId);
+    }
+
+    if (message.type === 'ASYNC_PROGRESS') {
+      handleAsyncProgress(message.requestId, message.tweetId, message.profileId, message);
+    }
+
+    if (message.type === 'STREAM_ITEMS') {
+      handleStreamItems(message.streamId, message.profileId, message.tweetId, message.fanOut, message.items);
+    }
+
+    if (message.type === 'SHORTCUT_COMMAND') {
+      runShortcutCommand(message.command);
+    }
+
+    if (message.type === 'CONTEXT_MENU_YOINK') {
+      handleContextMenuYoink(message.action, message.linkUrl, message.selectionText);
+    }
+
+    if (message.type === 'STREAM_END') {
+      handleStreamEnd(message.streamId, message.profileId, message.tweetId, message.fanOut, message.status, message.error);
+    }
   });
 }
 
@@ -74,76 +234,89 @@ function initialize(): void {
  */
 async function handleYoinkClick(tweetElement: Element, button: HTMLButtonElement): Promise<void> {
   logger.log('[TweetYoink] Yoink button clicked');
+  await yoinkTweet(button, () => extractTweetData(tweetElement));
+}
+
+/**
+ * Handles Yoink thread button click event (Feature 010)
+ * @param tweetElement - The focal tweet article element
+ * @param button - The clicked Yoink thread button
+ */
+async function handleYoinkThreadClick(tweetElement: Element, button: HTMLButtonElement): Promise<void> {
+  logger.log('[TweetYoink] Yoink thread button clicked');
+  await yoinkTweet(button, () => extractThreadData(tweetElement));
+}
 
+/**
+ * Extracts tweet data and POSTs it, driving button feedback and overlay display
+ * @param button - The clicked button, or null for captures without one (context menu, Feature 022; batch, Feature 023)
+ * @param extract - Extraction strategy (single tweet, thread or selection)
+ * @param bypassCache - Re-analyze: send even if the result is cached (Feature 025)
+ */
+async function yoinkTweet(
+  button: HTMLButtonElement | null,
+  extract: () => ExtractionResult,
+  bypassCache = false
+): Promise<void> {
   // Disable button during extraction and POST
-  disableButton(button);
+  setCaptureFeedback(button, 'busy');
 
   try {
     // Extract tweet data
-    const result = extractTweetData(tweetElement);
+    const result = extract();
 
     if (!isExtractionSuccess(result)) {
       // Log error
       logger.error('[TweetYoink] Extraction failed:', result.error);
 
       // Show error feedback
-      showButtonError(button);
-
-      // Re-enable button after error state
-      setTimeout(() => enableButton(button), ERROR_DISPLAY_DURATION_MS);
+      setCaptureFeedback(button, 'error', result.error ?? { code: 'EXTRACTION_FAILED', message: 'Could not read the tweet' });
       return;
     }
 
     // Log extracted data to console with nice formatting
     logger.log('[TweetYoink] Tweet captured:', JSON.stringify(result.data, null, 2));
+    autoCapturedTweets.delete(getTweetId(result.data));
 
-    // POST tweet data to configured endpoint
+    // POST tweet data to configured endpoint(s)
     try {
-      const response = await postTweetData(result.data);
-
-      if (isAsyncResponse(response)) {
-        // Async response - polling will be handled automatically by service worker
-        logger.log('[TweetYoink] Async request initiated:', response.requestId);
-        if (response.estimatedDuration) {
-          logger.log(`[TweetYoink] Estimated duration: ${response.estimatedDuration}s`);
-        }
-        logger.log('[TweetYoink] Service worker will poll for results automatically');
-      } else if (response.status === 'completed') {
-        // Synchronous success
-        logger.log('[TweetYoink] Server response:', response.result);
-
-        // Parse response for overlay display
-        const parsed = parseServerResponse(response);
-
-        if (parsed.hasContent) {
-          logger.log(`[TweetYoink] ${parsed.contentItems.length} items ready for overlay display`);
-          // Generate associated ID from author handle and timestamp
-          const tweetId = `${result.data.author.handle || 'unknown'}_${result.data.timestamp || Date.now()}`;
-          showOverlay(parsed.contentItems, tweetId);
-        } else {
-          logger.log('[TweetYoink] No displayable content:', parsed.emptyReason);
-          const emptyMessage = getEmptyStateMessage(parsed.emptyReason);
-          logger.log('[TweetYoink] Showing empty state message:', emptyMessage);
-          // Generate associated ID from author handle and timestamp
-          const tweetId = `${result.data.author.handle || 'unknown'}_${result.data.timestamp || Date.now()}`;
-          showEmptyStateOverlay(emptyMessage, tweetId);
-        }
-      } else if (response.status === 'failed' || response.status === 'error') {
+      const outcomes = await postTweetDataToTargets(result.data, bypassCache);
+
+      // Several endpoints: one overlay tab per endpoint (Feature 014)
+      if (outcomes.length > 1) {
+        showFanOutResults(button, result.data, outcomes);
+        return;
+      }
+
+      const [outcome] = outcomes;
+      if (outcome.error) {
+        throw outcome.error;
+      }
+      const { response } = outcome;
+
+      if (isErrorResponse(response)) {
         // Server returned error
         logger.error('[TweetYoink] Server error:', response.error);
-        showButtonError(button);
-        setTimeout(() => enableButton(button), ERROR_DISPLAY_DURATION_MS);
+        recordFailedResult(result.data, response.error, outcome.profileId);
+        setCaptureFeedback(button, 'error', response.error);
         return;
       }
 
+      showCaptureResponse(response, result.data, outcome.profileId);
+
       // Show success feedback (re-enable button)
-      enableButton(button);
+      setCaptureFeedback(button, 'done');
 
     } catch (error) {
       if (error instanceof ConfigError) {
         // No endpoint configured - just log locally (this is valid behavior)
         logger.log('[TweetYoink] No endpoint configured - tweet data logged to console only');
-        enableButton(button);
+        setCaptureFeedback(button, 'done');
+        return;
+      } else if (error instanceof CaptureQueuedError) {
+        // Endpoint unreachable - service worker will retry in the background
+        logger.warn(`[TweetYoink] Endpoint unreachable, capture queued for retry: ${error.message}`);
+        setCaptureFeedback(button, 'queued', toOverlayError(error));
         return;
       } else if (error instanceof HttpError) {
         logger.error(`[TweetYoink] HTTP error: ${error.message}`);
@@ -156,13 +329,952 @@ async function handleYoinkClick(tweetElement: Element, button: HTMLButtonElement
       }
 
       // Show error feedback for POST failures
+      const overlayError = toOverlayError(error as Error);
+      recordFailedResult(result.data, overlayError);
+      setCaptureFeedback(button, 'error', overlayError);
+    }
+
+  } catch (error) {
+    logger.error('[TweetYoink] Unexpected error:', error);
+    setCaptureFeedback(button, 'error', { code: 'UNEXPECTED_ERROR', message: (error as Error).message || 'Unknown error occurred' });
+  }
+}
+
+/**
+ * Shows capture progress and outcome on the Yoink button
+ * Error and queued states reset to the default look after ERROR_DISPLAY_DURATION_MS.
+ * Captures without a button (context menu, Feature 022) show failures in the error overlay instead.
+ * @param button - The clicked button, or null
+ * @param state - Capture state to show
+ * @param error - Failure to show when there is no button
+ */
+function setCaptureFeedback(
+  button: HTMLButtonElement | null,
+  state: 'busy' | 'done' | 'error' | 'queued',
+  error?: OverlayError
+): void {
+  if (!button) {
+    if (error && (state === 'error' || state === 'queued')) {
+      showErrorOverlay(error, 'context-menu');
+    }
+    return;
+  }
+
+  switch (state) {
+    case 'busy':
+      disableButton(button);
+      break;
+    case 'done':
+      enableButton(button);
+      break;
+    case 'error':
       showButtonError(button);
       setTimeout(() => enableButton(button), ERROR_DISPLAY_DURATION_MS);
+      break;
+    case 'queued':
+      showButtonQueued(button);
+      setTimeout(() => enableButton(button), ERROR_DISPLAY_DURATION_MS);
+      break;
+  }
+}
+
+/**
+ * Shows the overlay for an accepted capture: progress for async requests,
+ * results for sync responses (streamed items arrive separately)
+ * @param response - Non-error server response
+ * @param tweetData - Captured tweet data (for the overlay's associated ID)
+ * @param profileId - Endpoint profile that answered, kept for Retry (Feature 020)
+ */
+function showCaptureResponse(response: PostResponse, tweetData: TweetData, profileId?: string): void {
+  const tweetId = getTweetId(tweetData);
+
+  if (isAsyncResponse(response)) {
+    // Async response - polling will be handled automatically by service worker
+    logger.log('[TweetYoink] Async request initiated:', response.requestId);
+    if (response.estimatedDuration) {
+      logger.log(`[TweetYoink] Estimated duration: ${response.estimatedDuration}s`);
+    }
+    logger.log('[TweetYoink] Service worker will poll for results automatically');
+
+    // Live progress until the result overlay replaces it (Feature 016), cancellable (Feature 018)
+    const { requestId } = response;
+    const progress: OverlayProgress = {
+      requestId,
+      status: response.status,
+      message: response.message,
+      estimatedDuration: response.estimatedDuration,
+      startedAt: Date.now(),
+    };
+    setTweetResult(tweetId, { status: 'pending', contentItems: [], progress: { ...progress }, tweetData, profileId });
+    if (!autoCapturedTweets.has(tweetId)) {
+      showProgressOverlay(progress, tweetId, () => cancelAsyncRequest(requestId));
+    }
+  } else if (isStreamingResponse(response)) {
+    // Streaming response - items arrive as STREAM_ITEMS messages (Feature 015)
+    logger.log('[TweetYoink] Streaming results:', response.streamId);
+
+    // The first items, or even the end, may have arrived before this response
+    if (getTweetResult(tweetId)?.streamId === response.streamId) {
+      updateTweetResult(tweetId, { tweetData, profileId });
+    } else {
+      setTweetResult(tweetId, {
+        status: 'pending',
+        contentItems: [],
+        message: 'Receiving results...',
+        streamId: response.streamId,
+        tweetData,
+        profileId,
+      });
+    }
+
+    if (getTweetResult(tweetId)?.status === 'pending') {
+      watchStream(response.streamId, profileId ?? '', tweetId, false);
     }
+  } else if (response.status === 'completed') {
+    // Synchronous success
+    logger.log('[TweetYoink] Server response:', response.result);
 
+    // Parse response for overlay display
+    const parsed = parseServerResponse(response);
+    recordCompletedResult(tweetId, parsed, tweetData);
+
+    // Associate the overlay with the tweet's status ID (Feature 019)
+    showParsedResult(parsed, tweetId);
+
+    // Result reused from an earlier capture of the tweet (Feature 025)
+    if (response.cachedAt && !autoCapturedTweets.has(tweetId)) {
+      markOverlayCached(tweetId, response.cachedAt, () => reanalyzeTweet(tweetData));
+    }
+  }
+}
+
+/**
+ * Shows a parsed completed result, or its empty state
+ * @param parsed - Parsed server response
+ * @param tweetId - Status ID of the captured tweet
+ */
+function showParsedResult(parsed: ParsedResponse, tweetId: string): void {
+  if (autoCapturedTweets.has(tweetId)) {
+    return;
+  }
+
+  if (parsed.hasContent) {
+    logger.log(`[TweetYoink] ${parsed.contentItems.length} items ready for overlay display`);
+    showOverlay(parsed.contentItems, tweetId);
+  } else {
+    logger.log('[TweetYoink] No displayable content:', parsed.emptyReason);
+    const emptyMessage = getEmptyStateMessage(parsed.emptyReason);
+    logger.log('[TweetYoink] Showing empty state message:', emptyMessage);
+    showEmptyStateOverlay(emptyMessage, tweetId);
+  }
+}
+
+// ============================================================================
+// Multi-Endpoint Fan-Out (Feature: 014-multi-endpoint-fan-out)
+// ============================================================================
+
+/**
+ * Shows fan-out outcomes as one overlay tab per endpoint
+ * Async endpoints show a pending tab that is filled in when polling completes
+ * @param button - The clicked button, or null (context menu)
+ * @param tweetData - Captured tweet data
+ * @param outcomes - One outcome per endpoint
+ */
+function showFanOutResults(button: HTMLButtonElement | null, tweetData: TweetData, outcomes: EndpointOutcome[]): void {
+  const tweetId = getTweetId(tweetData);
+
+  const tabs: OverlayTab[] = outcomes.map((outcome) => {
+    if (outcome.error) {
+      logger.error(`[TweetYoink] ${outcome.profileName} failed:`, outcome.error.message);
+      return { id: outcome.profileId, label: outcome.profileName, ...getErrorTabContent(outcome.error) };
+    }
+
+    if (isAsyncResponse(outcome.response)) {
+      pendingFanOutTabs.set(`${outcome.profileId}:${outcome.response.requestId}`, tweetId);
+    }
+
+    // Streamed items may already have arrived (Feature 015)
+    if (isStreamingResponse(outcome.response)) {
+      const streamKey = `${outcome.profileId}:${outcome.response.streamId}`;
+      const streamed = fanOutStreams.get(streamKey);
+      if (streamed && streamed.status !== 'pending') {
+        // Stream already ended: its items are final
+        fanOutStreams.delete(streamKey);
+      } else {
+        // No items yet or more to come: later stream messages fill in the tab
+        pendingFanOutTabs.set(streamKey, tweetId);
+        watchStream(outcome.response.streamId, outcome.profileId, tweetId, true);
+      }
+      if (streamed) {
+        return { id: outcome.profileId, label: outcome.profileName, ...streamed };
+      }
+    }
+
+    return { id: outcome.profileId, label: outcome.profileName, ...getTabContent(outcome.response) };
+  });
+
+  setFanOutResult(tweetId, tabs, tweetData);
+  if (!autoCapturedTweets.has(tweetId)) {
+    showTabbedOverlay(tabs, tweetId);
+
+    // Some endpoints answered from the result cache (Feature 025)
+    const cachedAt = getOldestCachedAt(outcomes);
+    if (cachedAt) {
+      markOverlayCached(tweetId, cachedAt, () => reanalyzeTweet(tweetData));
+    }
+  }
+
+  // Button reflects the overall outcome: error only when no endpoint accepted the capture
+  if (outcomes.every(outcome => outcome.error || isErrorResponse(outcome.response))) {
+    setCaptureFeedback(button, 'error');
+  } else {
+    setCaptureFeedback(button, 'done');
+  }
+}
+
+/**
+ * Updates one endpoint tab of a fan-out, in the stored result (Feature 020) and the overlay if it is open
+ */
+function updateFanOutTab(tweetId: string, profileId: string, update: Partial<Omit<OverlayTab, 'id' | 'label'>>): void {
+  updateTweetResultTab(tweetId, profileId, update);
+  updateOverlayTab(tweetId, profileId, update);
+}
+
+/**
+ * Converts a server response into tab status and content
+ */
+function getTabContent(response: PostResponse): Omit<OverlayTab, 'id' | 'label'> {
+  if (isAsyncResponse(response)) {
+    return {
+      status: 'pending',
+      contentItems: [],
+      message: response.message || 'Processing - the result will appear here when ready',
+    };
+  }
+
+  if (isStreamingResponse(response)) {
+    return { status: 'pending', contentItems: [], message: 'Receiving results...' };
+  }
+
+  if (isErrorResponse(response)) {
+    return {
+      status: 'failed',
+      contentItems: [],
+      message: `Server error: ${response.error.message}`,
+    };
+  }
+
+  const parsed = parseServerResponse(response);
+  return {
+    status: 'completed',
+    contentItems: parsed.contentItems,
+    debugItems: parsed.debugItems,
+    message: parsed.hasContent ? undefined : getEmptyStateMessage(parsed.emptyReason),
+  };
+}
+
+/**
+ * Converts a POST failure into tab status and content
+ */
+function getErrorTabContent(error: Error): Omit<OverlayTab, 'id' | 'label'> {
+  if (error instanceof CaptureQueuedError) {
+    return {
+      status: 'pending',
+      contentItems: [],
+      message: `Endpoint unreachable - capture queued for retry\n${error.message}`,
+    };
+  }
+
+  if (error instanceof ConfigError) {
+    return { status: 'failed', contentItems: [], message: 'No endpoint URL configured for this profile' };
+  }
+
+  return { status: 'failed', contentItems: [], message: error.message };
+}
+
+// ============================================================================
+// Async Progress (Feature: 016-async-progress)
+// ============================================================================
+
+/**
+ * Shows the latest poll result of an async request
+ * Updates the progress overlay, or the endpoint's tab of a fan-out overlay
+ * @param requestId - Async request ID
+ * @param tweetId - Status ID of the captured tweet (Feature 019)
+ * @param profileId - Endpoint profile polling the request
+ * @param update - Status, progress and message from the server
+ */
+function handleAsyncProgress(
+  requestId: string,
+  tweetId: string,
+  profileId: string | undefined,
+  update: AsyncProgressUpdate
+): void {
+  const { status, progress, message } = update;
+
+  const fanOutTweetId = pendingFanOutTabs.get(`${profileId}:${requestId}`);
+  if (profileId && fanOutTweetId) {
+    const percent = typeof progress === 'number' ? ` (${Math.round(progress * 100)}%)` : '';
+    updateFanOutTab(fanOutTweetId, profileId, {
+      message: `${message || (status === 'processing' ? 'Processing...' : 'Waiting for the server...')}${percent}`,
+    });
+    return;
+  }
+
+  // Badge shows the percentage; a reopened overlay continues from the latest update (Feature 020)
+  const stored = getTweetResult(tweetId)?.progress;
+  if (stored?.requestId === requestId) {
+    updateTweetResult(tweetId, { progress: { ...stored, status, progress, message } });
+  }
+
+  updateProgressOverlay(requestId, { status, progress, message });
+}
+
+// ============================================================================
+// Async Failures (Feature: 017-async-failure-retry)
+// ============================================================================
+
+/**
+ * Shows a failed or timed-out async request
+ * Fails the endpoint's tab of a fan-out result, otherwise opens an error overlay with a Retry action
+ * @param requestId - Async request ID
+ * @param tweetId - Status ID of the captured tweet (Feature 019)
+ * @param profileId - Endpoint profile that accepted the request
+ * @param error - Error code and message
+ * @param tweetData - Original capture kept with the request, needed for retry
+ */
+function handleAsyncFailure(
+  requestId: string,
+  tweetId: string,
+  profileId: string | undefined,
+  error: OverlayError,
+  tweetData?: TweetData
+): void {
+  logger.error(`[TweetYoink] Async request ${requestId} failed: ${error.code} - ${error.message}`);
+
+  const fanOutKey = `${profileId}:${requestId}`;
+  const fanOutTweetId = pendingFanOutTabs.get(fanOutKey);
+  if (profileId && fanOutTweetId) {
+    // A closed fan-out overlay stays closed; its badge reopens every endpoint's tab
+    pendingFanOutTabs.delete(fanOutKey);
+    updateFanOutTab(fanOutTweetId, profileId, {
+      status: 'failed',
+      contentItems: [],
+      message: `${error.code}: ${error.message}`,
+    });
+    return;
+  }
+
+  setTweetResult(tweetId, { status: 'failed', contentItems: [], error, tweetData, profileId });
+
+  // A result being read isn't replaced (Feature 032)
+  if (!autoCapturedTweets.has(tweetId) && !stackLateResult(tweetId)) {
+    showErrorOverlay(error, tweetId, tweetData ? () => retryCapture(tweetData, profileId) : undefined);
+  }
+}
+
+/**
+ * Re-submits a capture whose async request failed, to the same endpoint profile
+ * The new response replaces the error overlay
+ * @param tweetData - Original capture
+ * @param profileId - Endpoint profile to send to
+ */
+async function retryCapture(tweetData: TweetData, profileId?: string): Promise<void> {
+  const tweetId = getTweetId(tweetData);
+  logger.log('[TweetYoink] Retrying failed capture:', tweetId);
+  autoCapturedTweets.delete(tweetId);
+  const retryAgain = () => retryCapture(tweetData, profileId);
+
+  try {
+    const response = await postTweetData(tweetData, profileId);
+
+    if (isErrorResponse(response)) {
+      recordFailedResult(tweetData, response.error, profileId);
+      showErrorOverlay(response.error, tweetId, retryAgain);
+      return;
+    }
+
+    showCaptureResponse(response, tweetData, profileId);
   } catch (error) {
-    logger.error('[TweetYoink] Unexpected error:', error);
-    showButtonError(button);
-    setTimeout(() => enableButton(button), ERROR_DISPLAY_DURATION_MS);
+    const overlayError = toOverlayError(error as Error);
+    recordFailedResult(tweetData, overlayError, profileId);
+
+    if (error instanceof CaptureQueuedError) {
+      // The offline queue takes over; nothing left to retry here
+      showErrorOverlay(overlayError, tweetId);
+    } else {
+      showErrorOverlay(overlayError, tweetId, retryAgain);
+    }
+  }
+}
+
+/**
+ * Converts a POST error into an overlay error code and message
+ */
+function toOverlayError(error: Error): OverlayError {
+  if (error instanceof HttpError) {
+    return { code: `HTTP_${error.status}`, message: error.message };
+  }
+  if (error instanceof TimeoutError) {
+    return { code: 'TIMEOUT', message: error.message };
+  }
+  if (error instanceof NetworkError) {
+    return { code: 'NETWORK_ERROR', message: error.message };
+  }
+  if (error instanceof ConfigError) {
+    return { code: 'NO_ENDPOINT', message: error.message };
+  }
+  if (error instanceof PollingDisabledError) {
+    return { code: 'POLLING_DISABLED', message: error.message };
+  }
+  if (error instanceof CaptureQueuedError) {
+    return { code: 'CAPTURE_QUEUED', message: 'Endpoint unreachable - the capture was queued and will be retried in the background' };
+  }
+  return { code: 'RETRY_FAILED', message: error.message || 'Unknown error occurred' };
+}
+
+// ============================================================================
+// Async Cancellation (Feature: 018-async-cancel)
+// ============================================================================
+
+/**
+ * Closes the progress overlay of a cancelled request, or marks its fan-out tab as cancelled
+ * Cancellation can start from this overlay or from the popup
+ * @param requestId - Cancelled request ID
+ * @param tweetId - Status ID of the captured tweet (Feature 019)
+ * @param profileId - Endpoint profile that accepted the request
+ */
+function handleAsyncCancelled(requestId: string, tweetId: string, profileId?: string): void {
+  logger.log('[TweetYoink] Async request cancelled:', requestId);
+
+  const fanOutKey = `${profileId}:${requestId}`;
+  const fanOutTweetId = pendingFanOutTabs.get(fanOutKey);
+  if (profileId && fanOutTweetId) {
+    pendingFanOutTabs.delete(fanOutKey);
+    updateFanOutTab(fanOutTweetId, profileId, { status: 'failed', contentItems: [], message: 'Cancelled' });
+    return;
+  }
+
+  if (getTweetResult(tweetId)?.progress?.requestId === requestId) {
+    updateTweetResult(tweetId, {
+      status: 'failed',
+      progress: undefined,
+      error: { code: 'CANCELLED', message: 'Cancelled by user' },
+    });
+  }
+
+  if (isProgressOverlayVisible(requestId)) {
+    closeOverlay();
+  }
+}
+
+// ============================================================================
+// Streaming Responses (Feature: 015-streaming-responses)
+// ============================================================================
+
+/**
+ * Shows streamed content items as they arrive
+ * @param streamId - Stream the items belong to
+ * @param profileId - Endpoint profile streaming the result
+ * @param tweetId - Status ID of the captured tweet (Feature 020)
+ * @param fanOut - Items belong to an endpoint tab of a fan-out overlay
+ * @param items - Raw content items from the server
+ */
+function handleStreamItems(
+  streamId: string,
+  profileId: string,
+  tweetId: string | undefined,
+  fanOut: boolean,
+  items: unknown[]
+): void {
+  const parsed = parseServerResponse({ status: 'completed', result: items });
+  logger.log(`[TweetYoink] Received ${parsed.contentItems.length} streamed items:`, streamId);
+  watchStream(streamId, profileId, tweetId, fanOut);
+
+  if (fanOut) {
+    const streamKey = `${profileId}:${streamId}`;
+    const tab = fanOutStreams.get(streamKey) ?? { status: 'pending', contentItems: [], message: 'Receiving results...' };
+    tab.contentItems = [...tab.contentItems, ...parsed.contentItems];
+    tab.debugItems = [...(tab.debugItems ?? []), ...(parsed.debugItems ?? [])];
+    fanOutStreams.set(streamKey, tab);
+
+    const fanOutTweetId = pendingFanOutTabs.get(streamKey);
+    if (fanOutTweetId) {
+      updateFanOutTab(fanOutTweetId, profileId, tab);
+    }
+    return;
+  }
+
+  if (tweetId) {
+    recordStreamItems(tweetId, streamId, parsed);
+  }
+
+  if (appendOverlayItems(streamId, parsed.contentItems, parsed.debugItems)) {
+    return;
+  }
+
+  // First items of the stream open the overlay; once closed it stays closed
+  if (!shownStreams.has(streamId) && !(tweetId && autoCapturedTweets.has(tweetId))) {
+    shownStreams.add(streamId);
+    showStreamingOverlay(parsed.contentItems, streamId, parsed.debugItems);
+  }
+}
+
+/**
+ * Marks a stream as finished in its overlay
+ * @param streamId - Stream that finished
+ * @param profileId - Endpoint profile that streamed the result
+ * @param tweetId - Status ID of the captured tweet (Feature 020)
+ * @param fanOut - Stream belongs to an endpoint tab of a fan-out overlay
+ * @param status - Final stream status
+ * @param error - Error reported by the server or connection
+ */
+function handleStreamEnd(
+  streamId: string,
+  profileId: string,
+  tweetId: string | undefined,
+  fanOut: boolean,
+  status: 'completed' | 'failed',
+  error?: { code: string; message: string }
+): void {
+  logger.log(`[TweetYoink] Stream ${status}:`, streamId);
+  clearTimeout(streamWatchdogs.get(streamId));
+  streamWatchdogs.delete(streamId);
+  const errorMessage = error ? `Streaming failed: ${error.message}` : undefined;
+
+  if (fanOut) {
+    const streamKey = `${profileId}:${streamId}`;
+    const tab = fanOutStreams.get(streamKey) ?? { status: 'pending', contentItems: [] };
+    tab.status = status;
+    tab.message = errorMessage ?? (tab.contentItems.length === 0 ? getEmptyStateMessage('empty-array') : undefined);
+
+    const fanOutTweetId = pendingFanOutTabs.get(streamKey);
+    if (fanOutTweetId) {
+      pendingFanOutTabs.delete(streamKey);
+      fanOutStreams.delete(streamKey);
+      updateFanOutTab(fanOutTweetId, profileId, tab);
+    } else {
+      // Overlay not open yet - showFanOutResults picks up the final tab
+      fanOutStreams.set(streamKey, tab);
+    }
+    return;
+  }
+
+  if (tweetId) {
+    recordStreamEnd(tweetId, streamId, status, error);
+  }
+
+  if (finishStreamingOverlay(streamId, errorMessage)) {
+    return;
+  }
+
+  // Stream ended without any item ever being shown
+  if (!shownStreams.has(streamId) && !(tweetId && autoCapturedTweets.has(tweetId))) {
+    shownStreams.add(streamId);
+    showEmptyStateOverlay(errorMessage ?? getEmptyStateMessage('empty-array'), streamId);
+  }
+}
+
+/**
+ * Ends a stream as interrupted if nothing arrives for longer than the service worker's idle timeout
+ * Restarted by every message of the stream
+ */
+function watchStream(streamId: string, profileId: string, tweetId: string | undefined, fanOut: boolean): void {
+  clearTimeout(streamWatchdogs.get(streamId));
+  streamWatchdogs.set(streamId, setTimeout(() => {
+    logger.warn('[TweetYoink] Stream stopped without ending:', streamId);
+    handleStreamEnd(streamId, profileId, tweetId, fanOut, 'failed', {
+      code: 'STREAM_INTERRUPTED',
+      message: 'The stream stopped sending results',
+    });
+  }, STREAM_IDLE_TIMEOUT_SECONDS * 1000 + STREAM_END_GRACE_MS));
+}
+
+// ============================================================================
+// Result Badges (Feature: 020-result-badges)
+// ============================================================================
+
+/**
+ * Reopens the stored result of a tweet from its inline badge or the docked overlay's stack (Feature 032)
+ * Pending requests reopen their live progress or stream; failures keep their Retry action
+ * @param associatedTweetId - Status ID of the tweet whose badge was clicked, or the stream ID of a stacked stream
+ * @returns False if the result is no longer stored
+ */
+function reopenResult(associatedTweetId: string): boolean {
+  const result = getTweetResult(associatedTweetId) ?? findStreamResult(associatedTweetId);
+  if (!result) {
+    return false;
+  }
+
+  // Tweets sent in a batch show the batch's result (Feature 023); stacked streams keep their stream ID
+  const tweetId = result.streamId === associatedTweetId ? associatedTweetId : result.tweetId;
+
+  // Auto-captured result is now watched: later updates show in the overlay (Feature 024)
+  autoCapturedTweets.delete(result.tweetId);
+
+  logger.log(`[TweetYoink] Reopening ${result.status} result:`, tweetId);
+
+  // Overlays keep and update their own copies of tabs, progress and items
+  if (result.tabs) {
+    showTabbedOverlay(result.tabs.map(tab => ({ ...tab })), tweetId);
+    return true;
+  }
+
+  if (result.status === 'failed') {
+    const { tweetData, profileId } = result;
+    showErrorOverlay(
+      result.error ?? { code: 'FAILED', message: result.message || 'Unknown error occurred' },
+      tweetId,
+      tweetData ? () => retryCapture(tweetData, profileId) : undefined
+    );
+    return true;
+  }
+
+  if (result.status === 'pending' && result.progress) {
+    const { requestId } = result.progress;
+    showProgressOverlay({ ...result.progress }, tweetId, () => cancelAsyncRequest(requestId));
+    return true;
+  }
+
+  // Streams route their remaining items to the overlay by stream ID
+  if (result.status === 'pending' && result.streamId) {
+    shownStreams.add(result.streamId);
+    showStreamingOverlay([...result.contentItems], result.streamId, result.debugItems);
+    return true;
+  }
+
+  if (result.contentItems.length > 0) {
+    showOverlay([...result.contentItems], tweetId, result.debugItems);
+  } else {
+    showEmptyStateOverlay(result.message || getEmptyStateMessage('empty-array'), tweetId);
+  }
+  return true;
+}
+
+/**
+ * Keeps a completed result for the tweet's badge
+ * @param tweetId - Status ID of the captured tweet
+ * @param parsed - Parsed server response
+ * @param tweetData - Original capture, for export (Feature 026)
+ */
+function recordCompletedResult(tweetId: string, parsed: ParsedResponse, tweetData?: TweetData): void {
+  setTweetResult(tweetId, {
+    status: 'completed',
+    label: getResultLabel(parsed.contentItems),
+    contentItems: [...parsed.contentItems],
+    message: parsed.hasContent ? undefined : getEmptyStateMessage(parsed.emptyReason),
+    tweetData,
+  });
+}
+
+/**
+ * Keeps a failed capture for the tweet's badge, with what Retry needs
+ * @param tweetData - Original capture
+ * @param error - Error code and message
+ * @param profileId - Endpoint profile the capture was sent to
+ */
+function recordFailedResult(tweetData: TweetData, error: OverlayError, profileId?: string): void {
+  setTweetResult(getTweetId(tweetData), { status: 'failed', contentItems: [], error, tweetData, profileId });
+}
+
+/**
+ * Adds streamed items to the tweet's result; the first items of a new stream start it over
+ * @param tweetId - Status ID of the captured tweet
+ * @param streamId - Stream the items belong to
+ * @param parsed - Parsed items
+ */
+function recordStreamItems(tweetId: string, streamId: string, parsed: ParsedResponse): void {
+  const result = getTweetResult(tweetId);
+
+  if (result?.streamId !== streamId) {
+    setTweetResult(tweetId, {
+      status: 'pending',
+      label: getResultLabel(parsed.contentItems),
+      contentItems: [...parsed.contentItems],
+      debugItems: parsed.debugItems,
+      streamId,
+      tweetData: result?.tweetData,
+    });
+    return;
+  }
+
+  updateTweetResult(tweetId, {
+    label: result.label ?? getResultLabel(parsed.contentItems),
+    contentItems: [...result.contentItems, ...parsed.contentItems],
+    debugItems: [...(result.debugItems ?? []), ...(parsed.debugItems ?? [])],
+    message: undefined,
+  });
+}
+
+/**
+ * Marks the tweet's streamed result as finished
+ * @param tweetId - Status ID of the captured tweet
+ * @param streamId - Stream that finished
+ * @param status - Final stream status
+ * @param error - Error reported by the server or connection
+ */
+function recordStreamEnd(
+  tweetId: string,
+  streamId: string,
+  status: 'completed' | 'failed',
+  error?: OverlayError
+): void {
+  const result = getTweetResult(tweetId);
+  const hasItems = result?.streamId === streamId && result.contentItems.length > 0;
+  const update = {
+    status,
+    streamId,
+    error: status === 'failed' ? error ?? { code: 'STREAM_ERROR', message: 'Streaming failed' } : undefined,
+    message: hasItems ? undefined : getEmptyStateMessage('empty-array'),
+  };
+
+  if (result?.streamId === streamId) {
+    updateTweetResult(tweetId, update);
+  } else {
+    setTweetResult(tweetId, { ...update, contentItems: [], tweetData: result?.tweetData });
+  }
+}
+
+// ============================================================================
+// Keyboard Shortcuts (Feature: 021-keyboard-shortcuts)
+// ============================================================================
+
+/**
+ * Runs a shortcut from chrome.commands or an in-page key
+ * @param command - Shortcut command
+ */
+function runShortcutCommand(command: ShortcutCommand): void {
+  switch (command) {
+    case 'yoink-focused-tweet':
+      yoinkFocusedTweet('single');
+      break;
+    case 'yoink-focused-thread':
+      yoinkFocusedTweet('thread');
+      break;
+    case 'copy-result':
+      copyOverlayContent();
+      break;
+    default:
+      logger.warn('[TweetYoink] Unknown shortcut command:', command);
+  }
+}
+
+/**
+ * Yoinks the focused tweet through its injected button, exactly like a click
+ * @param variant - Which of the tweet's Yoink buttons to use
+ */
+function yoinkFocusedTweet(variant: YoinkButtonVariant): void {
+  const tweetElement = findFocusedTweet();
+  const button = tweetElement ? findYoinkButton(tweetElement, variant) : null;
+
+  if (!tweetElement || !button) {
+    logger.log(`[TweetYoink] No focused tweet with a Yoink${variant === 'thread' ? ' thread' : ''} button`);
+    return;
+  }
+
+  if (button.disabled) {
+    return; // Capture already in progress
+  }
+
+  if (variant === 'thread') {
+    handleYoinkThreadClick(tweetElement, button);
+  } else {
+    handleYoinkClick(tweetElement, button);
+  }
+}
+
+// ============================================================================
+// Context Menu (Feature: 022-context-menu)
+// ============================================================================
+
+/**
+ * Runs a context menu entry forwarded by the service worker
+ * Uses the tweet's Yoink button when it was injected, so the click path and
+ * button feedback stay the same; otherwise captures without a button
+ * @param action - Context menu entry
+ * @param linkUrl - Right-clicked link (yoink-link)
+ * @param selectionText - Selected text as reported by the browser (yoink-selection)
+ */
+function handleContextMenuYoink(action: ContextMenuAction, linkUrl?: string, selectionText?: string): void {
+  logger.log('[TweetYoink] Context menu:', action);
+
+  if (action === 'yoink-selection') {
+    // The page selection keeps line breaks that the browser's selectionText collapses
+    const text = window.getSelection()?.toString() || selectionText || '';
+    const tweetElement = findSelectionTweet();
+    if (!tweetElement) {
+      showContextMenuError('NO_TWEET', 'Select text inside a tweet to yoink it');
+      return;
+    }
+    yoinkTweet(null, () => extractSelectionData(tweetElement, text));
+    return;
+  }
+
+  const tweetElement = action === 'yoink-link' && linkUrl ? findLinkedTweet(linkUrl) : findContextMenuTweet();
+  if (!tweetElement) {
+    if (action === 'yoink-link') {
+      showContextMenuError('TWEET_NOT_RENDERED', 'The linked tweet is not loaded on this page - open it and try again');
+    } else {
+      showContextMenuError('NO_TWEET', 'Right-click inside a tweet to yoink it');
+    }
+    return;
+  }
+
+  const button = findYoinkButton(tweetElement);
+  if (button?.disabled) {
+    return; // Capture already in progress
+  }
+
+  if (button) {
+    handleYoinkClick(tweetElement, button);
+  } else {
+    // Button not injected (More/Grok anchor missing)
+    yoinkTweet(null, () => extractTweetData(tweetElement));
+  }
+}
+
+/**
+ * Explains why a context menu entry could not capture anything
+ */
+function showContextMenuError(code: string, message: string): void {
+  logger.warn(`[TweetYoink] Context menu capture not possible: ${message}`);
+  showErrorOverlay({ code, message }, 'context-menu');
+}
+
+// ============================================================================
+// Batch Capture (Feature: 023-batch-capture)
+// ============================================================================
+
+/**
+ * Sends the tweets selected in selection mode as one batch
+ * The batch is captured like a single tweet (history, offline queue, polling);
+ * the badge of every selected tweet shows the batch's result
+ * @param tweets - Selected tweets in selection order
+ */
+async function sendBatch(tweets: TweetData[]): Promise<void> {
+  const batchCapture = createBatchCapture(tweets);
+  const batchId = getTweetId(batchCapture);
+  logger.log(`[TweetYoink] Sending batch ${batchId} of ${tweets.length} tweets`);
+
+  setResultAliases(tweets.map(getTweetId), batchId);
+  await yoinkTweet(null, () => ({ success: true, data: batchCapture, error: null }));
+}
+
+// ============================================================================
+// Result Export (Feature: 026-result-export)
+// ============================================================================
+
+/**
+ * Finds the capture shown by an overlay
+ * @param associatedTweetId - Tweet status ID, batch ID or stream ID of the overlay
+ */
+function getOverlayCapture(associatedTweetId: string): TweetData | undefined {
+  return getTweetResult(associatedTweetId)?.tweetData ?? findStreamResult(associatedTweetId)?.tweetData;
+}
+
+// ============================================================================
+// Result Cache (Feature: 025-result-cache)
+// ============================================================================
+
+/**
+ * Sends a capture again, bypassing the result cache
+ * The fresh result (or its progress) replaces the cached result overlay
+ * @param tweetData - Capture whose cached result is shown
+ */
+function reanalyzeTweet(tweetData: TweetData): void {
+  logger.log('[TweetYoink] Re-analyzing tweet:', getTweetId(tweetData));
+  yoinkTweet(null, () => ({ success: true, data: tweetData, error: null }), true);
+}
+
+/**
+ * Finds when the oldest cached result of a fan-out was received
+ * @returns Undefined if every endpoint answered fresh
+ */
+function getOldestCachedAt(outcomes: EndpointOutcome[]): number | undefined {
+  const cachedTimes = outcomes
+    .map(outcome => outcome.response?.status === 'completed' ? outcome.response.cachedAt : undefined)
+    .filter((cachedAt): cachedAt is number => cachedAt !== undefined);
+
+  return cachedTimes.length > 0 ? Math.min(...cachedTimes) : undefined;
+}
+
+// ============================================================================
+// Auto-Capture (Feature: 024-auto-capture)
+// ============================================================================
+
+/**
+ * Sends a tweet that matched an auto-capture rule
+ * Captures quietly: results and failures show on the tweet's badge, no overlay opens
+ * @param tweetData - Extracted tweet
+ * @param rule - Rule the tweet matched
+ */
+async function autoCaptureTweet(tweetData: TweetData, rule: AutoCaptureRule): Promise<void> {
+  const tweetId = getTweetId(tweetData);
+  logger.log(`[TweetYoink] Auto-capturing ${tweetId} (rule "${rule.name}")`);
+  autoCapturedTweets.add(tweetId);
+
+  try {
+    const outcomes = await postTweetDataToTargets(tweetData);
+
+    if (outcomes.length > 1) {
+      showFanOutResults(null, tweetData, outcomes);
+      return;
+    }
+
+    const [outcome] = outcomes;
+    if (outcome.error) {
+      throw outcome.error;
+    }
+
+    if (isErrorResponse(outcome.response)) {
+      logger.error('[TweetYoink] Server error for auto-capture:', outcome.response.error);
+      recordFailedResult(tweetData, outcome.response.error, outcome.profileId);
+      return;
+    }
+
+    showCaptureResponse(outcome.response, tweetData, outcome.profileId);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.log('[TweetYoink] No endpoint configured - auto-capture logged to console only');
+      return;
+    }
+    if (error instanceof CaptureQueuedError) {
+      logger.warn(`[TweetYoink] Auto-capture queued for retry: ${error.message}`);
+      return;
+    }
+
+    logger.error('[TweetYoink] Auto-capture failed:', error);
+    recordFailedResult(tweetData, toOverlayError(error as Error));
+  }
+}
+
+// ============================================================================
+// Side Panel (Feature: 032-side-panel)
+// ============================================================================
+
+/**
+ * Sends a result to Chrome's side panel instead of showing it in the page
+ * @param associatedTweetId - Tweet, batch or stream ID of the overlay that would have opened
+ * @param show - Open the panel on the result; late results are only listed
+ * @returns False if the result isn't stored (e.g. context menu errors), so the page shows it
+ */
+function showInSidePanel(associatedTweetId: string, show: boolean): boolean {
+  const result = getTweetResult(associatedTweetId) ?? findStreamResult(associatedTweetId);
+  if (!result) {
+    return false;
+  }
+
+  sidePanelTweets.add(result.tweetId);
+  sendToSidePanel(result, show);
+  return true;
+}
+
+/**
+ * Forwards later changes of a result shown in the side panel: progress, streamed items, fan-out tabs
+ * @param result - Changed result
+ */
+function updateSidePanelResult(result: TweetResult): void {
+  if (sidePanelTweets.has(result.tweetId)) {
+    sendToSidePanel(result, false);
   }
 }
@@ -0,0 +1,50 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Selection capture extractor
+ * Feature: 022-context-menu
+ *
+ * "Yoink selection" sends only the passage the user highlighted, together
+ * with the context of the tweet it was selected in (author, URL, timestamp,
+ * metrics). Media and link card are left out since they weren't selected.
+ */
+
+import type { ExtractionResult } from '../types/tweet-data';
+import { isExtractionSuccess } from '../types/tweet-data';
+import { extractTweetData } from './tweet-extractor';
+
+/**
+ * Extracts the tweet around a selection, keeping only the selected text
+ *
+ * @param tweetArticle - Article element the selection is in
+ * @param selectedText - Highlighted text
+ * @returns ExtractionResult with selection-only TweetData or error
+ */
+export function extractSelectionData(tweetArticle: Element, selectedText: string): ExtractionResult {
+  const text = selectedText.trim();
+  if (!text) {
+    return {
+      success: false,
+      data: null,
+      error: { code: 'EMPTY_SELECTION', message: 'No text selected', failedFields: ['text'], context: {} },
+    };
+  }
+
+  const result = extractTweetData(tweetArticle);
+  if (!isExtractionSuccess(result)) {
+    return result;
+  }
+
+  logger.log(`[SelectionExtractor] Captured ${text.length} selected characters`);
+
+  return {
+    ...result,
+    data: {
+      ...result.data,
+      text,
+      media: [],
+      linkCard: null,
+      selectionOnly: true,
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Thread capture extractor
+ * Feature: 010-thread-capture
+ *
+ * Collects a self-reply thread from a status page. X renders the conversation
+ * as sibling article elements in reading order, so the thread is the run of
+ * consecutive articles written by the same author around the clicked tweet.
+ *
+ * Only tweets currently rendered in the DOM can be captured - X virtualizes
+ * long conversations, so very long threads may need to be scrolled into view.
+ */
+
+import type { TweetData, ExtractionResult } from '../types/tweet-data';
+import { extractTweetData } from './tweet-extractor';
+import { extractAuthor } from './author-extractor';
+
+/**
+ * Maximum number of tweets collected into a single thread payload
+ */
+const MAX_THREAD_LENGTH = 100;
+
+/**
+ * Extracts a full thread starting from any tweet in it
+ *
+ * The returned TweetData describes the first tweet of the thread, and its
+ * `thread` field lists every tweet of the thread in order (first tweet included).
+ *
+ * @param tweetArticle - Any article element belonging to the thread
+ * @returns ExtractionResult with thread-enriched TweetData or error
+ */
+export function extractThreadData(tweetArticle: Element): ExtractionResult {
+  const threadArticles = findThreadArticles(tweetArticle);
+  logger.log(`[ThreadExtractor] Found ${threadArticles.length} tweets in thread`);
+
+  const thread: TweetData[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const article of threadArticles) {
+    const result = extractTweetData(article);
+
+    if (!result.success || !result.data) {
+      // The clicked tweet must extract - other thread entries are best-effort
+      if (article === tweetArticle) {
+        return result;
+      }
+      logger.warn('[ThreadExtractor] Skipping thread tweet that failed extraction:', result.error);
+      continue;
+    }
+
+    // X occasionally renders the same tweet twice while re-rendering
+    if (result.data.url && seenUrls.has(result.data.url)) {
+      continue;
+    }
+    if (result.data.url) {
+      seenUrls.add(result.data.url);
+    }
+
+    thread.push(result.data);
+  }
+
+  if (thread.length === 0) {
+    return {
+      success: false,
+      data: null,
+      error: {
+        code: 'THREAD_EMPTY',
+        message: 'No tweets could be extracted from thread',
+        failedFields: ['thread'],
+        context: { articleCount: threadArticles.length },
+      },
+    };
+  }
+
+  const [first] = thread;
+  return {
+    success: true,
+    data: { ...first, thread },
+    error: null,
+  };
+}
+
+/**
+ * Finds the consecutive articles by the same author around the given article
+ * @param tweetArticle - Article the user clicked
+ * @returns Thread articles in document order
+ */
+function findThreadArticles(tweetArticle: Element): Element[] {
+  const handle = extractAuthor(tweetArticle).handle;
+  if (!handle) {
+    logger.warn('[ThreadExtractor] Cannot determine thread author - capturing single tweet');
+    return [tweetArticle];
+  }
+
+  const articles = Array.from(document.querySelectorAll('article[role="article"]'));
+  const index = articles.indexOf(tweetArticle);
+  if (index === -1) {
+    return [tweetArticle];
+  }
+
+  const isSameAuthor = (article: Element) =>
+    extractAuthor(article).handle?.toLowerCase() === handle.toLowerCase();
+
+  // Walk back to the start of the thread
+  let start = index;
+  while (start > 0 && isSameAuthor(articles[start - 1])) {
+    start--;
+  }
+
+  // Walk forward through the author's self-replies
+  let end = index;
+  while (end < articles.length - 1 && isSameAuthor(articles[end + 1])) {
+    end++;
+  }
+
+  const threadArticles = articles.slice(start, end + 1);
+  if (threadArticles.length > MAX_THREAD_LENGTH) {
+    logger.warn(`[ThreadExtractor] Thread truncated to ${MAX_THREAD_LENGTH} tweets`);
+    return threadArticles.slice(0, MAX_THREAD_LENGTH);
+  }
+
+  return threadArticles;
+}
@@ -0,0 +1,330 @@
+/**
+ * Capture history page logic
+ * Feature: 012-capture-history, 026-result-export, 033-x-theme
+ */
+
+import { logger } from '../utils/logger';
+import { getHistory, deleteHistoryEntry, clearHistory, watchHistoryChanges } from '../services/history-service';
+import { postTweetData, CaptureQueuedError } from '../services/post-service';
+import { parseServerResponse, getEmptyStateMessage } from '../services/response-handler';
+import { showOverlay, showEmptyStateOverlay, setOverlayExportSource } from '../ui/overlay-manager';
+import { initializeSystemTheme } from '../ui/theme';
+import { exportCaptures } from '../services/export-service';
+import type { CaptureHistoryEntry, HistoryFilter } from '../types/history';
+import { matchesHistoryFilter } from '../types/history';
+import type { ExportFormat, ExportRecord } from '../types/export';
+import { EXPORT_FORMATS } from '../types/export';
+import { isAsyncResponse, isErrorResponse, isStreamingResponse, SUCCESS_MESSAGE_DISPLAY_DURATION_MS } from '../types/config';
+
+const STATUS_LABELS: Record<CaptureHistoryEntry['status'], string> = {
+  pending: 'Pending',
+  queued: 'Queued',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+let history: CaptureHistoryEntry[] = [];
+
+// Captures selected for export (Feature 026)
+const selectedIds = new Set<string>();
+
+// Read filter inputs into a HistoryFilter
+function readFilter(): HistoryFilter {
+  const query = (document.getElementById('search-query') as HTMLInputElement).value;
+  const handle = (document.getElementById('search-handle') as HTMLInputElement).value;
+  const from = (document.getElementById('search-from') as HTMLInputElement).valueAsDate;
+  const to = (document.getElementById('search-to') as HTMLInputElement).valueAsDate;
+
+  // Date inputs are UTC midnight; widen to the local day boundaries
+  return {
+    query,
+    handle,
+    from: from ? new Date(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()).getTime() : undefined,
+    to: to ? new Date(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate(), 23, 59, 59, 999).getTime() : undefined,
+  };
+}
+
+// History entries matching the filter
+function getShownEntries(): CaptureHistoryEntry[] {
+  const filter = readFilter();
+  return history.filter(entry => matchesHistoryFilter(entry, filter));
+}
+
+// Render filtered history list
+function renderHistory() {
+  const entries = getShownEntries();
+
+  const list = document.getElementById('history-list')!;
+  list.innerHTML = '';
+
+  document.getElementById('result-count')!.textContent =
+    `${entries.length} of ${history.length} capture(s)`;
+
+  entries.forEach(entry => list.appendChild(createHistoryRow(entry)));
+  renderSelection(entries);
+}
+
+// Sync the select-all checkbox and export button with the selection (Feature 026)
+function renderSelection(entries: CaptureHistoryEntry[]) {
+  // Deleted captures leave the selection
+  const ids = new Set(history.map(entry => entry.id));
+  selectedIds.forEach(id => {
+    if (!ids.has(id)) {
+      selectedIds.delete(id);
+    }
+  });
+
+  const selectedShown = entries.filter(entry => selectedIds.has(entry.id)).length;
+  const selectAll = document.getElementById('select-all') as HTMLInputElement;
+  selectAll.checked = entries.length > 0 && selectedShown === entries.length;
+  selectAll.indeterminate = selectedShown > 0 && selectedShown < entries.length;
+
+  const exportButton = document.getElementById('export-selected') as HTMLButtonElement;
+  exportButton.disabled = selectedIds.size === 0;
+  exportButton.textContent = selectedIds.size > 0 ? `Export Selected (${selectedIds.size})` : 'Export Selected';
+}
+
+function createHistoryRow(entry: CaptureHistoryEntry): HTMLElement {
+  const { tweetData } = entry;
+
+  const row = document.createElement('div');
+  row.className = 'history-row';
+
+  const header = document.createElement('div');
+  header.className = 'history-row-header';
+
+  const select = document.createElement('label');
+  select.className = 'history-select';
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = selectedIds.has(entry.id);
+  checkbox.addEventListener('change', () => {
+    if (checkbox.checked) {
+      selectedIds.add(entry.id);
+    } else {
+      selectedIds.delete(entry.id);
+    }
+    renderSelection(getShownEntries());
+  });
+  select.appendChild(checkbox);
+
+  const author = document.createElement('span');
+  author.className = 'history-author';
+  author.textContent = `${tweetData.author.displayName || 'Unknown'} @${tweetData.author.handle || 'unknown'}`;
+  select.appendChild(author);
+
+  header.appendChild(select);
+
+  const status = document.createElement('span');
+  status.className = `history-status history-status-${entry.status}`;
+  status.textContent = STATUS_LABELS[entry.status];
+  header.appendChild(status);
+
+  row.appendChild(header);
+
+  const text = document.createElement('p');
+  text.className = 'history-text';
+  text.textContent = tweetData.text || '[No text content]';
+  row.appendChild(text);
+
+  const meta = document.createElement('small');
+  const threadInfo = tweetData.thread ? ` · Thread of ${tweetData.thread.length}` : '';
+  const batchInfo = tweetData.batch ? ` · Batch of ${tweetData.batch.tweets.length}` : '';
+  const profileInfo = entry.profileName ? ` · ${entry.profileName}` : '';
+  meta.textContent = `Captured ${new Date(entry.capturedAt).toLocaleString()}${threadInfo}${batchInfo}${profileInfo}`;
+  row.appendChild(meta);
+
+  if (entry.error) {
+    const error = document.createElement('p');
+    error.className = 'history-error';
+    error.textContent = `${entry.error.code}: ${entry.error.message}`;
+    row.appendChild(error);
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'history-actions';
+
+  const viewButton = document.createElement('button');
+  viewButton.className = 'button button-primary';
+  viewButton.textContent = 'View Result';
+  viewButton.disabled = entry.status !== 'completed';
+  viewButton.addEventListener('click', () => openResult(entry));
+  actions.appendChild(viewButton);
+
+  const resendButton = document.createElement('button');
+  resendButton.className = 'button';
+  resendButton.textContent = 'Re-send';
+  resendButton.addEventListener('click', () => resendCapture(entry, resendButton));
+  actions.appendChild(resendButton);
+
+  if (tweetData.url) {
+    const link = document.createElement('a');
+    link.className = 'button';
+    link.href = tweetData.url;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    link.textContent = 'Open Tweet';
+    actions.appendChild(link);
+  }
+
+  const deleteButton = document.createElement('button');
+  deleteButton.className = 'button button-danger';
+  deleteButton.textContent = 'Delete';
+  deleteButton.addEventListener('click', () => deleteHistoryEntry(entry.id));
+  actions.appendChild(deleteButton);
+
+  row.appendChild(actions);
+  return row;
+}
+
+// Re-open the saved server result in the overlay
+function openResult(entry: CaptureHistoryEntry) {
+  const parsed = parseServerResponse({ status: 'completed', result: entry.result });
+
+  if (parsed.hasContent) {
+    showOverlay(parsed.contentItems, entry.id);
+  } else {
+    showEmptyStateOverlay(getEmptyStateMessage(parsed.emptyReason), entry.id);
+  }
+}
+
+// Send the saved capture to the endpoint again (recorded as a new history entry)
+// Bypasses the result cache, so the server is always asked again (Feature 025)
+async function resendCapture(entry: CaptureHistoryEntry, button: HTMLButtonElement) {
+  button.disabled = true;
+  button.textContent = 'Sending...';
+
+  try {
+    const response = await postTweetData(entry.tweetData, undefined, true);
+
+    if (isAsyncResponse(response)) {
+      showStatus('Re-sent - the result will appear here when processing completes', 'success');
+    } else if (isStreamingResponse(response)) {
+      showStatus('Re-sent - results are streaming and will appear here when complete', 'success');
+    } else if (isErrorResponse(response)) {
+      showStatus(`Server error: ${response.error.message}`, 'error');
+    } else {
+      showStatus('Re-sent successfully', 'success');
+      const parsed = parseServerResponse(response);
+      if (parsed.hasContent) {
+        showOverlay(parsed.contentItems, entry.id);
+      } else {
+        showEmptyStateOverlay(getEmptyStateMessage(parsed.emptyReason), entry.id);
+      }
+    }
+  } catch (error) {
+    if (error instanceof CaptureQueuedError) {
+      showStatus('Endpoint unreachable - capture queued for retry', 'error');
+    } else {
+      logger.error('[TweetYoink History] Re-send failed:', error);
+      showStatus(`Re-send failed: ${(error as Error).message}`, 'error');
+    }
+  } finally {
+    button.disabled = false;
+    button.textContent = 'Re-send';
+  }
+}
+
+// Select or deselect every capture matching the filter (Feature 026)
+function handleSelectAll() {
+  const selectAll = (document.getElementById('select-all') as HTMLInputElement).checked;
+
+  getShownEntries().forEach(entry => {
+    if (selectAll) {
+      selectedIds.add(entry.id);
+    } else {
+      selectedIds.delete(entry.id);
+    }
+  });
+  renderHistory();
+}
+
+// Download the selected captures in the chosen format (Feature 026)
+function handleExport() {
+  const format = (document.getElementById('export-format') as HTMLSelectElement).value as ExportFormat;
+  const records = history.filter(entry => selectedIds.has(entry.id)).map(toExportRecord);
+
+  if (records.length === 0) {
+    return;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  exportCaptures(records, format, `tweetyoink-history-${date}`);
+  showStatus(`Exported ${records.length} capture(s) as ${EXPORT_FORMATS[format].label}`, 'success');
+}
+
+// Capture and saved result of a history entry, as exported
+function toExportRecord(entry: CaptureHistoryEntry): ExportRecord {
+  const sections = entry.result === undefined
+    ? []
+    : [{
+      label: entry.profileName,
+      contentItems: parseServerResponse({ status: 'completed', result: entry.result }).contentItems,
+    }];
+
+  return { tweetData: entry.tweetData, sections, capturedAt: entry.capturedAt, status: entry.status };
+}
+
+// Fill the export format picker
+function renderExportFormats() {
+  const select = document.getElementById('export-format') as HTMLSelectElement;
+
+  (Object.keys(EXPORT_FORMATS) as ExportFormat[]).forEach(format => {
+    const option = document.createElement('option');
+    option.value = format;
+    option.textContent = EXPORT_FORMATS[format].label;
+    select.appendChild(option);
+  });
+}
+
+// Show status message
+function showStatus(message: string, type: 'success' | 'error') {
+  const statusEl = document.getElementById('status-message')!;
+  statusEl.textContent = message;
+  statusEl.className = `status-message ${type}`;
+
+  // Only auto-hide success messages, keep errors visible
+  if (type === 'success') {
+    setTimeout(() => {
+      statusEl.className = 'status-message';
+      statusEl.textContent = '';
+    }, SUCCESS_MESSAGE_DISPLAY_DURATION_MS);
+  }
+}
+
+async function handleClearHistory() {
+  if (!confirm('Delete all saved captures?')) {
+    return;
+  }
+  await clearHistory();
+}
+
+async function loadHistory() {
+  history = await getHistory();
+  renderHistory();
+}
+
+// Event listeners
+['search-query', 'search-handle', 'search-from', 'search-to'].forEach(id => {
+  document.getElementById(id)!.addEventListener('input', renderHistory);
+});
+document.getElementById('clear-history')!.addEventListener('click', handleClearHistory);
+document.getElementById('select-all')!.addEventListener('change', handleSelectAll);
+document.getElementById('export-selected')!.addEventListener('click', handleExport);
+
+// Re-opened results export their history entry (Feature 026)
+setOverlayExportSource(id => history.find(entry => entry.id === id)?.tweetData);
+renderExportFormats();
+
+// Re-opened results follow the system color scheme (Feature 033)
+initializeSystemTheme();
+
+// Keep list in sync with captures completing in the background
+watchHistoryChanges((updated) => {
+  history = updated;
+  renderHistory();
+});
+
+// Load history on page load
+document.addEventListener('DOMContentLoaded', loadHistory);
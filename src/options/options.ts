@@ -1,46 +1,183 @@
 /**
  * Options page logic for TweetYoink extension
- * Feature: 003-config-endpoint
+ * Feature: 003-config-endpoint, 013-endpoint-profiles, 014-multi-endpoint-fan-out, 021-keyboard-shortcuts,
+ * 024-auto-capture, 025-result-cache, 032-side-panel
  */
 
-import { getConfig, saveConfig, getCustomHeaders, saveCustomHeaders } from '../services/config-service';
-import type { HeaderEntry } from '../types/config';
-import { SUCCESS_MESSAGE_DISPLAY_DURATION_MS } from '../types/config';
-
-// Load saved configuration
+import {
+  getProfileStore,
+  getActiveProfile,
+  saveProfile,
+  createProfile,
+  deleteProfile,
+  setActiveProfile,
+  setFanOutProfiles,
+  watchProfileChanges,
+  getAutoCaptureSettings,
+  saveAutoCaptureSettings,
+  getDisplaySettings,
+  saveDisplaySettings,
+} from '../services/config-service';
+import { clearResultCache } from '../services/result-cache';
+import type {
+  EndpointProfile,
+  HeaderEntry,
+  ProfileStore,
+  AutoCaptureRule,
+  AutoCaptureSettings,
+  AutoCaptureTweetType,
+  DisplayMode,
+} from '../types/config';
+import { SUCCESS_MESSAGE_DISPLAY_DURATION_MS, createAutoCaptureRule } from '../types/config';
+
+// Profile currently shown in the form (always the active profile)
+let currentProfile: EndpointProfile | null = null;
+
+// Load saved configuration of the active profile
 async function loadOptions() {
-  const config = await getConfig();
+  const store = await getProfileStore();
+  renderProfileSelect(store);
+
+  const config = await getActiveProfile();
+  currentProfile = config;
 
+  (document.getElementById('profile-name') as HTMLInputElement).value = config.name;
   (document.getElementById('endpoint-url') as HTMLInputElement).value = config.endpointUrl;
   (document.getElementById('post-timeout') as HTMLInputElement).value = config.postTimeoutSeconds.toString();
   (document.getElementById('enable-polling') as HTMLInputElement).checked = config.enablePolling;
   (document.getElementById('polling-interval') as HTMLInputElement).value = config.pollingIntervalSeconds.toString();
+  (document.getElementById('enable-streaming') as HTMLInputElement).checked = config.enableStreaming;
+  (document.getElementById('result-cache-ttl') as HTMLInputElement).value = config.resultCacheTtlMinutes.toString();
 
   // Load custom headers
-  await loadCustomHeaders();
+  loadCustomHeaders(config.headers);
 
   await updatePermissionStatus();
 }
 
+// Fill the profile switcher
+function renderProfileSelect(store: ProfileStore) {
+  const select = document.getElementById('profile-select') as HTMLSelectElement;
+  select.innerHTML = '';
+
+  store.profiles.forEach(profile => {
+    const option = document.createElement('option');
+    option.value = profile.id;
+    option.textContent = profile.name;
+    option.selected = profile.id === store.activeProfileId;
+    select.appendChild(option);
+  });
+
+  (document.getElementById('delete-profile') as HTMLButtonElement).disabled = store.profiles.length <= 1;
+
+  renderFanOutList(store);
+}
+
+// Fill the fan-out profile checkboxes (Feature 014)
+function renderFanOutList(store: ProfileStore) {
+  const list = document.getElementById('fan-out-list')!;
+  list.innerHTML = '';
+
+  store.profiles.forEach(profile => {
+    const label = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = profile.id;
+    checkbox.checked = store.fanOutProfileIds?.includes(profile.id) ?? false;
+    checkbox.addEventListener('change', handleFanOutChange);
+    label.appendChild(checkbox);
+    label.appendChild(document.createTextNode(profile.name));
+    list.appendChild(label);
+  });
+}
+
+async function handleFanOutChange() {
+  const checked = document.querySelectorAll<HTMLInputElement>('#fan-out-list input:checked');
+  const profileIds = Array.from(checked).map(checkbox => checkbox.value);
+
+  await setFanOutProfiles(profileIds);
+  showStatus(
+    profileIds.length >= 2
+      ? `Captures will be sent to ${profileIds.length} profiles`
+      : 'Fan-out off - captures go to the active profile',
+    'success'
+  );
+}
+
+// Switch the active profile (unsaved edits to the current profile are discarded)
+async function handleProfileSwitch() {
+  const select = document.getElementById('profile-select') as HTMLSelectElement;
+
+  try {
+    await setActiveProfile(select.value);
+    await loadOptions();
+  } catch (error) {
+    showStatus(`Error: ${(error as Error).message}`, 'error');
+  }
+}
+
+async function handleNewProfile() {
+  const name = prompt('Name for the new profile:', 'New profile');
+  if (name === null) {
+    return;
+  }
+
+  const profile = await createProfile(name);
+  await setActiveProfile(profile.id);
+  await loadOptions();
+  showStatus(`Profile "${profile.name}" created`, 'success');
+}
+
+async function handleDeleteProfile() {
+  if (!currentProfile || !confirm(`Delete profile "${currentProfile.name}"?`)) {
+    return;
+  }
+
+  try {
+    await deleteProfile(currentProfile.id);
+    await loadOptions();
+    showStatus('Profile deleted', 'success');
+  } catch (error) {
+    showStatus(`Error: ${(error as Error).message}`, 'error');
+  }
+}
+
 // Save configuration
 async function handleSave() {
   const endpointUrl = (document.getElementById('endpoint-url') as HTMLInputElement).value.trim();
   const postTimeoutSeconds = parseInt((document.getElementById('post-timeout') as HTMLInputElement).value);
   const enablePolling = (document.getElementById('enable-polling') as HTMLInputElement).checked;
   const pollingIntervalSeconds = parseInt((document.getElementById('polling-interval') as HTMLInputElement).value);
+  const enableStreaming = (document.getElementById('enable-streaming') as HTMLInputElement).checked;
+  const resultCacheTtlMinutes = parseInt((document.getElementById('result-cache-ttl') as HTMLInputElement).value);
+  const name = (document.getElementById('profile-name') as HTMLInputElement).value;
+
+  if (!currentProfile) {
+    return;
+  }
 
   try {
-    // Save config
-    await saveConfig({
+    // Rules apply to every profile (Feature 024)
+    await saveAutoCaptureSettings(readAutoCaptureSettings());
+
+    // So does the display mode (Feature 032)
+    await saveDisplaySettings({ mode: (document.getElementById('display-mode') as HTMLSelectElement).value as DisplayMode });
+
+    // Save config and custom headers to the profile
+    await saveProfile({
+      ...currentProfile,
+      name,
       endpointUrl,
       postTimeoutSeconds,
       enablePolling,
       pollingIntervalSeconds,
+      enableStreaming,
+      resultCacheTtlMinutes,
+      headers: readHeaderRows(),
     });
 
-    // Save custom headers
-    await saveCurrentHeaders();
-
+    await loadOptions();
+    await loadAutoCapture();
     showStatus('Configuration saved successfully!', 'success');
 
     // Request permission if endpoint URL changed
@@ -152,12 +289,11 @@ function showStatus(message: string, type: 'success' | 'error') {
 }
 
 // Custom headers management
-async function loadCustomHeaders() {
-  const customHeaders = await getCustomHeaders();
+function loadCustomHeaders(headers: HeaderEntry[]) {
   const headersList = document.getElementById('headers-list')!;
   headersList.innerHTML = '';
 
-  customHeaders.headers.forEach((header, index) => {
+  headers.forEach((header, index) => {
     addHeaderRow(header, index);
   });
 }
@@ -213,7 +349,7 @@ function addHeaderRow(header: HeaderEntry | null = null, index?: number) {
   headersList.appendChild(row);
 }
 
-async function saveCurrentHeaders() {
+function readHeaderRows(): HeaderEntry[] {
   const headersList = document.getElementById('headers-list')!;
   const rows = headersList.querySelectorAll('.header-row');
 
@@ -230,13 +366,197 @@ async function saveCurrentHeaders() {
     }
   });
 
-  await saveCustomHeaders({ headers });
+  return headers;
+}
+
+// Auto-capture rules (Feature 024)
+const RULE_TWEET_TYPES: Array<{ type: AutoCaptureTweetType; label: string }> = [
+  { type: 'original', label: 'Original tweets' },
+  { type: 'reply', label: 'Replies' },
+  { type: 'retweet', label: 'Reposts' },
+  { type: 'quote', label: 'Quotes' },
+];
+
+async function loadAutoCapture() {
+  const settings = await getAutoCaptureSettings();
+
+  (document.getElementById('enable-auto-capture') as HTMLInputElement).checked = settings.enabled;
+  (document.getElementById('auto-capture-limit') as HTMLInputElement).value = settings.maxCapturesPerMinute.toString();
+
+  document.getElementById('rules-list')!.innerHTML = '';
+  settings.rules.forEach(rule => addRuleCard(rule));
+}
+
+function addRuleCard(rule: AutoCaptureRule = createAutoCaptureRule('New rule')) {
+  const rulesList = document.getElementById('rules-list')!;
+  const card = document.createElement('div');
+  card.className = 'rule-card';
+  card.dataset.ruleId = rule.id;
+
+  const header = document.createElement('div');
+  header.className = 'rule-header';
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.placeholder = 'Rule name';
+  nameInput.value = rule.name;
+  nameInput.className = 'rule-name';
+
+  const enabledLabel = document.createElement('label');
+  const enabledCheckbox = document.createElement('input');
+  enabledCheckbox.type = 'checkbox';
+  enabledCheckbox.checked = rule.enabled;
+  enabledCheckbox.className = 'rule-enabled';
+  enabledLabel.appendChild(enabledCheckbox);
+  enabledLabel.appendChild(document.createTextNode('Enabled'));
+
+  const removeBtn = document.createElement('button');
+  removeBtn.textContent = '×';
+  removeBtn.className = 'button button-icon';
+  removeBtn.title = 'Remove rule';
+  removeBtn.addEventListener('click', () => {
+    card.remove();
+  });
+
+  header.appendChild(nameInput);
+  header.appendChild(enabledLabel);
+  header.appendChild(removeBtn);
+  card.appendChild(header);
+
+  card.appendChild(createRuleField('rule-authors', 'Authors', rule.authors.join(', '), 'e.g., nasa, @spacex (any author when empty)'));
+  card.appendChild(createRuleField('rule-keywords', 'Keywords', rule.keywords.join(', '), 'e.g., launch, rocket (any of them)'));
+  card.appendChild(createRuleField('rule-pattern', 'Text Pattern (regular expression)', rule.textPattern, 'e.g., (launch|landing) window'));
+
+  const metrics = document.createElement('div');
+  metrics.className = 'form-group rule-metrics';
+  metrics.appendChild(createRuleField('rule-min-likes', 'Min. likes', rule.minLikes.toString(), '0', 'number'));
+  metrics.appendChild(createRuleField('rule-min-retweets', 'Min. reposts', rule.minRetweets.toString(), '0', 'number'));
+  metrics.appendChild(createRuleField('rule-min-replies', 'Min. replies', rule.minReplies.toString(), '0', 'number'));
+  metrics.appendChild(createRuleField('rule-min-views', 'Min. views', rule.minViews.toString(), '0', 'number'));
+  card.appendChild(metrics);
+
+  const types = document.createElement('div');
+  types.className = 'rule-types';
+  RULE_TWEET_TYPES.forEach(({ type, label }) => {
+    const typeLabel = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = type;
+    checkbox.checked = rule.tweetTypes.includes(type);
+    checkbox.className = 'rule-type';
+    typeLabel.appendChild(checkbox);
+    typeLabel.appendChild(document.createTextNode(label));
+    types.appendChild(typeLabel);
+  });
+  card.appendChild(types);
+
+  const typesHint = document.createElement('small');
+  typesHint.textContent = 'All tweet kinds when none is checked';
+  card.appendChild(typesHint);
+
+  rulesList.appendChild(card);
+}
+
+function createRuleField(
+  className: string,
+  labelText: string,
+  value: string,
+  placeholder: string,
+  type: 'text' | 'number' = 'text'
+): HTMLElement {
+  const group = document.createElement('div');
+  if (type === 'text') {
+    group.className = 'form-group';
+  }
+
+  const label = document.createElement('label');
+  label.textContent = labelText;
+
+  const input = document.createElement('input');
+  input.type = type;
+  input.value = value;
+  input.placeholder = placeholder;
+  input.className = className;
+  if (type === 'number') {
+    input.min = '0';
+  }
+
+  label.appendChild(input);
+  group.appendChild(label);
+  return group;
+}
+
+function readAutoCaptureSettings(): AutoCaptureSettings {
+  const cards = document.querySelectorAll<HTMLElement>('#rules-list .rule-card');
+  const readText = (card: HTMLElement, className: string) =>
+    (card.querySelector(`.${className}`) as HTMLInputElement).value.trim();
+  const readList = (card: HTMLElement, className: string) =>
+    readText(card, className).split(',').map(item => item.trim()).filter(item => item !== '');
+  const readNumber = (card: HTMLElement, className: string) =>
+    parseInt(readText(card, className)) || 0;
+
+  const rules: AutoCaptureRule[] = Array.from(cards).map(card => ({
+    id: card.dataset.ruleId as string,
+    name: readText(card, 'rule-name') || 'Unnamed rule',
+    enabled: (card.querySelector('.rule-enabled') as HTMLInputElement).checked,
+    authors: readList(card, 'rule-authors').map(author => author.replace(/^@/, '')),
+    keywords: readList(card, 'rule-keywords'),
+    textPattern: readText(card, 'rule-pattern'),
+    minLikes: readNumber(card, 'rule-min-likes'),
+    minRetweets: readNumber(card, 'rule-min-retweets'),
+    minReplies: readNumber(card, 'rule-min-replies'),
+    minViews: readNumber(card, 'rule-min-views'),
+    tweetTypes: Array.from(card.querySelectorAll<HTMLInputElement>('.rule-type:checked'))
+      .map(checkbox => checkbox.value as AutoCaptureTweetType),
+  }));
+
+  return {
+    enabled: (document.getElementById('enable-auto-capture') as HTMLInputElement).checked,
+    maxCapturesPerMinute: parseInt((document.getElementById('auto-capture-limit') as HTMLInputElement).value),
+    rules,
+  };
+}
+
+// Result display mode (Feature 032)
+async function loadDisplaySettings() {
+  const settings = await getDisplaySettings();
+  (document.getElementById('display-mode') as HTMLSelectElement).value = settings.mode;
+}
+
+// List the extension's chrome.commands with their current key (Feature 021)
+async function renderShortcuts() {
+  const list = document.getElementById('shortcut-list')!;
+  const commands = await chrome.commands.getAll();
+  list.innerHTML = '';
+
+  commands
+    .filter(command => command.description)
+    .forEach(command => {
+      const item = document.createElement('li');
+      const key = document.createElement('kbd');
+      key.textContent = command.shortcut || 'Not set';
+      item.appendChild(key);
+      item.appendChild(document.createTextNode(` ${command.description}`));
+      list.appendChild(item);
+    });
 }
 
 // Event listeners
 document.getElementById('save-config')!.addEventListener('click', handleSave);
 document.getElementById('test-connection')!.addEventListener('click', testConnection);
 document.getElementById('add-header')!.addEventListener('click', () => addHeaderRow());
+document.getElementById('add-rule')!.addEventListener('click', () => addRuleCard());
+document.getElementById('profile-select')!.addEventListener('change', handleProfileSwitch);
+document.getElementById('new-profile')!.addEventListener('click', handleNewProfile);
+document.getElementById('delete-profile')!.addEventListener('click', handleDeleteProfile);
+document.getElementById('clear-result-cache')!.addEventListener('click', async () => {
+  await clearResultCache();
+  showStatus('Cached results cleared', 'success');
+});
+document.getElementById('change-shortcuts')!.addEventListener('click', () => {
+  // Browser shortcut settings can't be linked to directly from the page
+  chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+});
 document.getElementById('grant-permission')!.addEventListener('click', async () => {
   const url = (document.getElementById('endpoint-url') as HTMLInputElement).value.trim();
   if (url) {
@@ -249,5 +569,20 @@ document.getElementById('grant-permission')!.addEventListener('click', async ()
 // Update permission status when URL changes
 document.getElementById('endpoint-url')!.addEventListener('input', updatePermissionStatus);
 
+// Follow profile switches made from the popup
+watchProfileChanges((store) => {
+  if (currentProfile && store.activeProfileId !== currentProfile.id) {
+    loadOptions();
+  } else {
+    renderProfileSelect(store);
+  }
+});
+
 // Load options on page load
 document.addEventListener('DOMContentLoaded', loadOptions);
+document.addEventListener('DOMContentLoaded', renderShortcuts);
+document.addEventListener('DOMContentLoaded', loadAutoCapture);
+document.addEventListener('DOMContentLoaded', loadDisplaySettings);
+
+// Shortcuts may have been changed in the browser's settings tab
+window.addEventListener('focus', renderShortcuts);
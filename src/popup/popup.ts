@@ -1,15 +1,184 @@
 import { logger } from '../utils/logger';
+import { getQueuedCaptures } from '../services/capture-queue';
+import { getHistory } from '../services/history-service';
+import { getProfileStore, getTargetProfiles, setActiveProfile } from '../services/config-service';
+import { getActivePolls, watchActivePolls } from '../services/polling-service';
+import { cancelAsyncRequest } from '../services/post-service';
+import type { PollableRequest } from '../types/config';
 
 // TweetYoink Popup Script
 // Handles the extension popup UI
 
 logger.log('[TweetYoink Popup] Opened');
 
+// Render offline capture queue status (Feature 011)
+async function renderQueueStatus() {
+  const queue = await getQueuedCaptures();
+  const section = document.getElementById('queue-status')!;
+
+  section.hidden = queue.length === 0;
+  document.getElementById('queue-count')!.textContent = queue.length.toString();
+
+  if (queue.length > 0) {
+    const nextAttempt = Math.min(...queue.map(entry => entry.nextAttemptAt));
+    const seconds = Math.max(0, Math.round((nextAttempt - Date.now()) / 1000));
+    document.getElementById('queue-detail')!.textContent =
+      `Next retry in ${seconds}s. Last error: ${queue[queue.length - 1].lastError}`;
+  }
+}
+
+// Render async requests still being polled, each with a Cancel button (Feature 018)
+async function renderActiveRequests(polls?: PollableRequest[]) {
+  const requests = polls ?? await getActivePolls();
+  const { profiles } = await getProfileStore();
+  const section = document.getElementById('active-requests')!;
+  const list = document.getElementById('active-request-list')!;
+
+  section.hidden = requests.length === 0;
+  document.getElementById('active-request-count')!.textContent = requests.length.toString();
+  list.innerHTML = '';
+
+  requests.forEach(request => {
+    const item = document.createElement('li');
+    item.className = 'active-request';
+
+    const info = document.createElement('div');
+    info.className = 'active-request-info';
+
+    const title = document.createElement('p');
+    title.textContent = request.tweetData
+      ? `@${request.tweetData.author.handle || 'unknown'}: ${request.tweetData.text || '[No text content]'}`
+      : request.tweetId;
+    info.appendChild(title);
+
+    const meta = document.createElement('p');
+    meta.className = 'active-request-meta';
+    const elapsed = Math.round((Date.now() - request.startTime) / 1000);
+    const profile = profiles.find(p => p.id === request.profileId);
+    meta.textContent = `${request.status} · ${elapsed}s${profile ? ` · ${profile.name}` : ''}`;
+    info.appendChild(meta);
+
+    const cancelButton = document.createElement('button');
+    cancelButton.className = 'button';
+    cancelButton.textContent = 'Cancel';
+    cancelButton.addEventListener('click', () => handleCancelRequest(request.requestId, cancelButton));
+
+    item.appendChild(info);
+    item.appendChild(cancelButton);
+    list.appendChild(item);
+  });
+}
+
+async function handleCancelRequest(requestId: string, button: HTMLButtonElement) {
+  button.disabled = true;
+  button.textContent = 'Cancelling...';
+
+  const cancelled = await cancelAsyncRequest(requestId);
+  logger.log('[TweetYoink Popup] Cancel request:', requestId, cancelled ? 'cancelled' : 'not cancelled');
+
+  // A cancelled request leaves the list when it re-renders from the storage change
+  if (!cancelled && button.isConnected) {
+    button.disabled = false;
+    button.textContent = 'Cancel';
+  }
+}
+
+// Render capture statistics from history (Feature 012)
+async function renderHistoryStats() {
+  const history = await getHistory();
+  if (history.length === 0) {
+    return;
+  }
+
+  const completed = history.filter(entry => entry.status === 'completed').length;
+  const failed = history.filter(entry => entry.status === 'failed').length;
+  document.getElementById('history-stats')!.textContent =
+    `${history.length} capture(s) saved · ${completed} completed · ${failed} failed`;
+}
+
+// Render endpoint profile quick switcher (Feature 013)
+async function renderProfileSwitcher() {
+  const store = await getProfileStore();
+  const select = document.getElementById('profile-switcher') as HTMLSelectElement;
+  select.innerHTML = '';
+
+  store.profiles.forEach(profile => {
+    const option = document.createElement('option');
+    option.value = profile.id;
+    option.textContent = profile.endpointUrl ? profile.name : `${profile.name} (not configured)`;
+    option.selected = profile.id === store.activeProfileId;
+    select.appendChild(option);
+  });
+
+  // Fan-out overrides the active profile (Feature 014)
+  const targets = await getTargetProfiles();
+  const note = document.getElementById('fan-out-note')!;
+  note.hidden = targets.length < 2;
+  note.textContent = `Fan-out: sending to ${targets.map(profile => profile.name).join(', ')}`;
+}
+
+async function handleProfileSwitch() {
+  const select = document.getElementById('profile-switcher') as HTMLSelectElement;
+
+  try {
+    await setActiveProfile(select.value);
+    logger.log('[TweetYoink Popup] Switched endpoint profile:', select.value);
+  } catch (error) {
+    logger.error('[TweetYoink Popup] Profile switch failed:', error);
+    await renderProfileSwitcher();
+  }
+}
+
+function openHistoryPage() {
+  chrome.tabs.create({ url: chrome.runtime.getURL('src/history/history.html') });
+}
+
+async function handleRetryQueue() {
+  const button = document.getElementById('retry-queue') as HTMLButtonElement;
+  button.disabled = true;
+  button.textContent = 'Retrying...';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'RETRY_CAPTURE_QUEUE' });
+    if (response?.error) {
+      logger.error('[TweetYoink Popup] Queue retry failed:', response.error);
+    } else {
+      logger.log('[TweetYoink Popup] Queue retry finished, remaining:', response?.remaining);
+    }
+  } catch (error) {
+    logger.error('[TweetYoink Popup] Queue retry failed:', error);
+  } finally {
+    button.disabled = false;
+    button.textContent = 'Retry now';
+    await renderQueueStatus();
+  }
+}
+
+// The service worker clears the queue, so a retry it is running can't write it back (Feature 011)
+async function handleClearQueue() {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'CLEAR_CAPTURE_QUEUE' });
+    logger.log('[TweetYoink Popup] Queue cleared:', response?.cleared);
+  } catch (error) {
+    logger.error('[TweetYoink Popup] Queue clear failed:', error);
+  } finally {
+    await renderQueueStatus();
+  }
+}
+
 // Initialize popup
 document.addEventListener('DOMContentLoaded', () => {
   logger.log('[TweetYoink Popup] DOM loaded and ready');
 
-  // Future: Add backend configuration UI
-  // Future: Add capture statistics display
+  document.getElementById('profile-switcher')!.addEventListener('change', handleProfileSwitch);
+  document.getElementById('open-history')!.addEventListener('click', openHistoryPage);
+  document.getElementById('retry-queue')!.addEventListener('click', handleRetryQueue);
+  document.getElementById('clear-queue')!.addEventListener('click', handleClearQueue);
+  renderProfileSwitcher();
+  renderHistoryStats();
+  renderQueueStatus();
+  renderActiveRequests();
+  watchActivePolls(renderActiveRequests);
+
   // Future: Add settings controls
 });
@@ -2,14 +2,94 @@ import { logger } from './utils/logger';
 
 /**
  * TweetYoink Service Worker
- * Feature: 003-config-endpoint
- * Handles alarms for polling async requests and test connections
+ * Feature: 003-config-endpoint, 011-offline-queue, 012-capture-history, 013-endpoint-profiles,
+ * 014-multi-endpoint-fan-out, 015-streaming-responses, 017-async-failure-retry, 018-async-cancel,
+ * 019-result-routing, 021-keyboard-shortcuts, 022-context-menu, 023-batch-capture, 025-result-cache,
+ * 032-side-panel
+ * Handles alarms for polling async requests, offline queue retries and test connections
  */
 
-import { pollRequest, getActivePolls, startPolling } from './services/polling-service';
+import {
+  pollRequest,
+  getActivePolls,
+  startPolling,
+  cancelPolling,
+  findPollByCacheKey,
+  addPollTab,
+} from './services/polling-service';
+import { showCaptureNotification, handleNotificationClick } from './services/notification-service';
+import { registerContextMenus, handleContextMenuClick } from './services/context-menu-service';
 import type { TweetData } from './types/tweet-data';
-import type { PostResponse } from './types/config';
-import { getConfig, getCustomHeaders } from './services/config-service';
+import { getTweetId, getCaptureRequestBody } from './types/tweet-data';
+import type { PostResponse, EndpointProfile } from './types/config';
+import { isAsyncResponse, isErrorResponse, isStreamingResponse } from './types/config';
+import { STREAM_ACCEPT_HEADER, getStreamFormat, relayResponseStream } from './services/stream-service';
+import { getProfileOrActive, getTargetProfiles } from './services/config-service';
+import {
+  QUEUE_RETRY_ALARM,
+  enqueueCapture,
+  getDueCaptures,
+  markAllCapturesDue,
+  recordRetryFailure,
+  removeQueuedCapture,
+  scheduleQueueRetry,
+  updateQueueBadge,
+  getQueuedCaptures,
+  clearCaptureQueue,
+  isCaptureQueued,
+} from './services/capture-queue';
+import { addHistoryEntry, updateHistoryEntry } from './services/history-service';
+import { getResultCacheKey, getCachedResult, cacheResult } from './services/result-cache';
+import { openSidePanel, addSidePanelResult } from './services/side-panel-service';
+
+/**
+ * Result of a POST made by the service worker, relayed to the content script
+ */
+interface PostWorkerResult {
+  success: boolean;
+  data?: PostResponse;
+  error?: string;
+  errorType?: string;
+  status?: number;
+  /** True when the capture was placed in the offline queue (Feature 011) */
+  queued?: boolean;
+  /** History entry recording this capture (Feature 012) */
+  historyId?: string;
+}
+
+/**
+ * Result of one endpoint's POST in a fan-out (Feature 014)
+ */
+interface EndpointPostResult extends PostWorkerResult {
+  profileId: string;
+  profileName: string;
+}
+
+/**
+ * Options for a service worker POST
+ */
+interface PostOptions {
+  /** Retrying a queued capture: failures are not re-queued (Feature 011) */
+  fromQueue?: boolean;
+  /** Existing history entry to update instead of recording a new capture (Feature 012) */
+  historyId?: string;
+  /** Endpoint profile to send to instead of the active one (Feature 013) */
+  profileId?: string;
+  /** Tab that made the capture, receives streamed items (Feature 015) and async results (Feature 019) */
+  tabId?: number;
+  /** Part of a multi-endpoint fan-out: streamed items fill the endpoint's overlay tab (Feature 015) */
+  fanOut?: boolean;
+  /** Re-analyze: send even if the result is cached or already being analyzed (Feature 025) */
+  bypassCache?: boolean;
+  /** Result cache entry to fill in with the completed result (Feature 025) */
+  cacheKey?: string;
+}
+
+/**
+ * Captures on their way to the server by result cache key (Feature 025)
+ * A repeat yoink of the same tweet waits for the first one instead of sending another POST
+ */
+const inFlightCaptures = new Map<string, Promise<PostWorkerResult>>();
 
 logger.log('[TweetYoink Service Worker] Initialized');
 
@@ -18,9 +98,24 @@ chrome.runtime.onInstalled.addListener(() => {
 
   // Restore alarms for any active polls
   restoreActivePolls();
+
+  // Restore offline queue retry alarm and badge (Feature 011)
+  scheduleQueueRetry();
+  updateQueueBadge();
+
+  // Right-click entries on X pages (Feature 022)
+  registerContextMenus().catch((error) => {
+    logger.error('[TweetYoink Service Worker] Failed to register context menus:', error);
+  });
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  // Browser restart: pick up captures queued in a previous session (Feature 011)
+  scheduleQueueRetry();
+  updateQueueBadge();
 });
 
-// Handle alarms for polling
+// Handle alarms for polling and queue retries
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   // Check if this is a polling alarm
   if (alarm.name.startsWith('poll_')) {
@@ -29,17 +124,96 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
 
     await pollRequest(requestId);
   }
+
+  if (alarm.name === QUEUE_RETRY_ALARM) {
+    logger.log('[TweetYoink Service Worker] Queue retry alarm fired');
+    await retryQueuedCaptures();
+  }
+});
+
+// Result notifications open Capture History (Feature 019)
+chrome.notifications.onClicked.addListener(handleNotificationClick);
+
+// Context menu clicks are resolved by the content script (Feature 022)
+chrome.contextMenus.onClicked.addListener(handleContextMenuClick);
+
+// Keyboard shortcuts run in the tab they were pressed in (Feature 021)
+chrome.commands.onCommand.addListener((command, tab) => {
+  logger.log('[TweetYoink Service Worker] Shortcut command:', command);
+  if (tab?.id === undefined) {
+    return;
+  }
+
+  chrome.tabs.sendMessage(tab.id, { type: 'SHORTCUT_COMMAND', command }).catch(() => {
+    // Not an X tab (no content script) - nothing to yoink
+  });
 });
 
 // Handle messages from extension pages
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'TEST_ENDPOINT') {
     testEndpoint(message.url).then(sendResponse);
     return true; // Keep message channel open for async response
   }
 
   if (message.type === 'POST_TWEET_DATA') {
-    postTweetDataFromWorker(message.tweetData).then(sendResponse);
+    postTweetDataFromWorker(message.tweetData, {
+      profileId: message.profileId,
+      tabId: sender.tab?.id,
+      bypassCache: message.bypassCache,
+    }).then(sendResponse);
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'FAN_OUT_TWEET_DATA') {
+    fanOutTweetData(message.tweetData, sender.tab?.id, message.bypassCache).then(results => sendResponse({ results }));
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'CANCEL_ASYNC_REQUEST') {
+    cancelPolling(message.requestId)
+      .then(cancelled => sendResponse({ cancelled }))
+      .catch((error) => {
+        logger.error('[TweetYoink SW] Failed to cancel request:', error);
+        sendResponse({ cancelled: false });
+      });
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'SIDE_PANEL_RESULT') {
+    // Opening needs the user action that led here, so it can't wait for storage (Feature 032)
+    if (message.show && sender.tab) {
+      openSidePanel(sender.tab.windowId);
+    }
+    addSidePanelResult(message.result, message.show)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        logger.error('[TweetYoink SW] Failed to store side panel result:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'RETRY_CAPTURE_QUEUE') {
+    markAllCapturesDue()
+      .then(retryQueuedCaptures)
+      .then(getQueuedCaptures)
+      .then((queue) => sendResponse({ remaining: queue.length }))
+      .catch(async (error) => {
+        logger.error('[TweetYoink SW] Queue retry failed:', error);
+        const queue = await getQueuedCaptures().catch(() => []);
+        sendResponse({ remaining: queue.length, error: error instanceof Error ? error.message : String(error) });
+      });
+    return true; // Keep message channel open for async response
+  }
+
+  if (message.type === 'CLEAR_CAPTURE_QUEUE') {
+    discardQueuedCaptures()
+      .then(cleared => sendResponse({ cleared }))
+      .catch((error) => {
+        logger.error('[TweetYoink SW] Failed to clear capture queue:', error);
+        sendResponse({ cleared: 0, error: error instanceof Error ? error.message : String(error) });
+      });
     return true; // Keep message channel open for async response
   }
 
@@ -155,25 +329,182 @@ async function testEndpoint(url: string): Promise<{ success: boolean; error?: st
 }
 
 /**
- * POST tweet data to configured endpoint
+ * POST tweet data to configured endpoint and record the outcome in capture history
  * This runs in service worker context where chrome.permissions API is available
+ *
+ * A tweet yoinked again is answered from the result cache, or joins the
+ * capture of it that is still on its way (Feature 025). Queue retries,
+ * re-analyze and history resends (bypassCache) always reach the server.
+ *
+ * @param tweetData - Captured tweet data
+ * @param options - Queue retry, history and cache options
  */
 async function postTweetDataFromWorker(
-  tweetData: TweetData
-): Promise<{ success: boolean; data?: PostResponse; error?: string; errorType?: string; status?: number }> {
+  tweetData: TweetData,
+  options: PostOptions = {}
+): Promise<PostWorkerResult> {
+  const profile = await getProfileOrActive(options.profileId);
+  const cacheKey = getResultCacheKey(tweetData, profile.id);
+
+  if (!cacheKey || options.fromQueue || options.historyId) {
+    return sendAndRecord(tweetData, profile, { ...options, cacheKey: cacheKey ?? undefined });
+  }
+
+  const inFlight = options.bypassCache ? undefined : inFlightCaptures.get(cacheKey);
+  if (inFlight) {
+    const joined = await joinInFlightCapture(inFlight, options.tabId);
+    if (joined) {
+      logger.log('[TweetYoink SW] Joined capture already in flight:', cacheKey);
+      return joined;
+    }
+  }
+
+  const capture = reuseOrSend(tweetData, profile, cacheKey, options);
+  inFlightCaptures.set(cacheKey, capture);
+
   try {
-    const config = await getConfig();
+    return await capture;
+  } finally {
+    if (inFlightCaptures.get(cacheKey) === capture) {
+      inFlightCaptures.delete(cacheKey);
+    }
+  }
+}
+
+/**
+ * Answer from the result cache or an async request still being polled, otherwise send
+ * Feature: 025-result-cache
+ */
+async function reuseOrSend(
+  tweetData: TweetData,
+  profile: EndpointProfile,
+  cacheKey: string,
+  options: PostOptions
+): Promise<PostWorkerResult> {
+  if (!options.bypassCache) {
+    const cached = await getCachedResult(cacheKey, profile.resultCacheTtlMinutes);
+    if (cached) {
+      logger.log('[TweetYoink SW] Using cached result:', cacheKey);
+      return { success: true, data: { status: 'completed', result: cached.result, cachedAt: cached.cachedAt } };
+    }
+
+    // Yoinked again while the server is still processing: follow the same request
+    const poll = await findPollByCacheKey(cacheKey);
+    if (poll) {
+      logger.log('[TweetYoink SW] Joined async request:', poll.requestId);
+      if (options.tabId !== undefined) {
+        await addPollTab(poll.requestId, options.tabId);
+      }
+      return { success: true, data: { status: 'pending', requestId: poll.requestId, message: poll.message } };
+    }
+  }
 
-    if (!config.endpointUrl) {
+  return sendAndRecord(tweetData, profile, { ...options, cacheKey });
+}
+
+/**
+ * Share the result of a capture still in flight with a repeat yoink
+ * Feature: 025-result-cache
+ * @returns Null if the repeat must be sent itself (streams only reach the first tab)
+ */
+async function joinInFlightCapture(
+  inFlight: Promise<PostWorkerResult>,
+  tabId: number | undefined
+): Promise<PostWorkerResult | null> {
+  const result = await inFlight;
+
+  if (result.data && isStreamingResponse(result.data)) {
+    return null;
+  }
+
+  // Progress and result of an async request go to this tab as well
+  if (result.data && isAsyncResponse(result.data) && tabId !== undefined) {
+    await addPollTab(result.data.requestId, tabId);
+  }
+
+  return result;
+}
+
+/**
+ * POST tweet data to a profile's endpoint, recording it in capture history
+ */
+async function sendAndRecord(
+  tweetData: TweetData,
+  profile: EndpointProfile,
+  options: PostOptions
+): Promise<PostWorkerResult> {
+  const fromQueue = options.fromQueue ?? false;
+  const historyId = options.historyId ?? await recordCapture(tweetData, profile);
+
+  const result = await sendTweetData(tweetData, profile, { ...options, historyId });
+  await recordPostOutcome(historyId, result, fromQueue);
+
+  return { ...result, historyId };
+}
+
+/**
+ * POST tweet data to every target profile in parallel
+ * Feature: 014-multi-endpoint-fan-out
+ *
+ * Each endpoint gets its own history entry, queue entry and polling,
+ * so one slow or failing endpoint does not affect the others.
+ *
+ * @param tweetData - Captured tweet data
+ * @param tabId - Tab that made the capture (Feature 015)
+ * @param bypassCache - Re-analyze: ignore cached results (Feature 025)
+ * @returns One result per target profile, in profile order
+ */
+async function fanOutTweetData(tweetData: TweetData, tabId?: number, bypassCache?: boolean): Promise<EndpointPostResult[]> {
+  const profiles = await getTargetProfiles();
+  logger.log(`[TweetYoink SW] Sending capture to ${profiles.length} endpoint(s)`);
+
+  return Promise.all(
+    profiles.map(async (profile) => ({
+      ...(await postTweetDataFromWorker(tweetData, {
+        profileId: profile.id,
+        tabId,
+        fanOut: profiles.length > 1,
+        bypassCache,
+      })),
+      profileId: profile.id,
+      profileName: profile.name,
+    }))
+  );
+}
+
+/**
+ * POST tweet data to a profile's endpoint
+ *
+ * @param tweetData - Captured tweet data
+ * @param profile - Endpoint profile providing URL, headers and timeout
+ * @param options - Queue retry flag, history entry (carried into polling and the queue) and streaming target
+ */
+async function sendTweetData(
+  tweetData: TweetData,
+  profile: EndpointProfile,
+  options: PostOptions
+): Promise<PostWorkerResult> {
+  const { fromQueue = false, historyId, tabId, fanOut = false, cacheKey } = options;
+
+  // Streamed bodies may outlive the POST timeout, so the timer only guards
+  // the response headers of a stream (Feature 015)
+  const timeoutController = new AbortController();
+  const timeoutId = setTimeout(
+    () => timeoutController.abort(new DOMException('POST timed out', 'TimeoutError')),
+    profile.postTimeoutSeconds * 1000
+  );
+
+  try {
+    if (!profile.endpointUrl) {
       return {
         success: false,
-        error: 'No endpoint URL configured. Please configure an endpoint in extension options.',
+        error: `No endpoint URL configured for profile "${profile.name}". Please configure an endpoint in extension options.`,
         errorType: 'ConfigError',
       };
     }
 
     // Check permission
-    const url = new URL(config.endpointUrl);
+    const url = new URL(profile.endpointUrl);
     const origin = `${url.protocol}//${url.hostname}/*`;
 
     logger.log('[TweetYoink SW] Checking permission for:', origin);
@@ -188,12 +519,17 @@ async function postTweetDataFromWorker(
       };
     }
 
-    // Get custom headers
-    const customHeaders = await getCustomHeaders();
+    // Get the profile's custom headers
+    const customHeaders = { headers: profile.headers };
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
+    // Advertise streaming support; JSON servers keep the sync/polling flow (Feature 015)
+    if (profile.enableStreaming) {
+      headers['Accept'] = STREAM_ACCEPT_HEADER;
+    }
+
     // Add custom headers
     for (const header of customHeaders.headers) {
       if (header.enabled) {
@@ -209,16 +545,20 @@ async function postTweetDataFromWorker(
       }
     }
 
-    logger.log('[TweetYoink SW] POSTing to:', config.endpointUrl);
+    logger.log('[TweetYoink SW] POSTing to:', profile.endpointUrl);
     logger.log('[TweetYoink SW] Request headers:', logHeaders);
     logger.log('[TweetYoink SW] Tweet data:', tweetData);
+    if (tweetData.batch) {
+      logger.log(`[TweetYoink SW] Batch ${tweetData.batch.batchId} of ${tweetData.batch.tweets.length} tweets`);
+    }
 
     // Make POST request
-    const response = await fetch(config.endpointUrl, {
+    const response = await fetch(profile.endpointUrl, {
       method: 'POST',
       headers,
-      body: JSON.stringify(tweetData),
-      signal: AbortSignal.timeout(config.postTimeoutSeconds * 1000),
+      // Batch captures are sent as { batchId, capturedAt, tweets } (Feature 023)
+      body: JSON.stringify(getCaptureRequestBody(tweetData)),
+      signal: timeoutController.signal,
     });
 
     logger.log('[TweetYoink SW] Response status:', response.status);
@@ -240,14 +580,59 @@ async function postTweetDataFromWorker(
       };
     }
 
+    // Streaming response: relay items to the tab in the background (Feature 015)
+    const streamFormat = profile.enableStreaming ? getStreamFormat(response) : null;
+    if (streamFormat) {
+      clearTimeout(timeoutId);
+      const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      relayResponseStream(response, streamFormat, {
+        streamId,
+        profileId: profile.id,
+        tabId,
+        fanOut,
+        historyId,
+        tweetData,
+        cacheKey,
+      });
+
+      return {
+        success: true,
+        data: { status: 'streaming', streamId },
+      };
+    }
+
     const responseData: PostResponse = await response.json();
     logger.log('[TweetYoink SW] Response data:', responseData);
 
     // If response is async, start polling automatically
     if ('requestId' in responseData && (responseData.status === 'pending' || responseData.status === 'processing')) {
-      const tweetIdentifier = `${tweetData.author.handle || 'unknown'}_${tweetData.timestamp || Date.now()}`;
       logger.log('[TweetYoink SW] Starting polling for:', responseData.requestId);
-      await startPolling(responseData.requestId, tweetIdentifier);
+      const polling = await startPolling(responseData.requestId, getTweetId(tweetData), {
+        historyId,
+        profileId: profile.id,
+        tweetData,
+        tabId,
+        cacheKey,
+      });
+
+      // Without polling the result never arrives - report it instead of a progress overlay (Feature 016)
+      if (!polling) {
+        return {
+          success: false,
+          error: `The server is processing this capture asynchronously, but polling is disabled for profile "${profile.name}". Enable polling in extension options to receive results.`,
+          errorType: 'PollingDisabled',
+        };
+      }
+    }
+
+    // Reused when the tweet is yoinked again (Feature 025)
+    // Best-effort: a failed cache write doesn't fail the capture
+    if (cacheKey && responseData.status === 'completed') {
+      try {
+        await cacheResult(cacheKey, responseData.result);
+      } catch (error) {
+        logger.warn('[TweetYoink SW] Failed to cache result:', error);
+      }
     }
 
     return {
@@ -258,19 +643,19 @@ async function postTweetDataFromWorker(
     logger.error('[TweetYoink SW] POST error:', error);
 
     if (error.name === 'TimeoutError' || error.name === 'AbortError') {
-      return {
+      return queueUnreachableCapture(tweetData, {
         success: false,
-        error: `Request timed out after ${(await getConfig()).postTimeoutSeconds} seconds`,
+        error: `Request timed out after ${profile.postTimeoutSeconds} seconds`,
         errorType: 'TimeoutError',
-      };
+      }, fromQueue, historyId, profile.id);
     }
 
     if (error.name === 'TypeError') {
-      return {
+      return queueUnreachableCapture(tweetData, {
         success: false,
         error: 'Network request failed - check internet connection',
         errorType: 'NetworkError',
-      };
+      }, fromQueue, historyId, profile.id);
     }
 
     return {
@@ -278,7 +663,121 @@ async function postTweetDataFromWorker(
       error: error.message || 'Unknown error occurred',
       errorType: 'Error',
     };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Place a capture that could not reach the endpoint into the offline queue
+ * Feature: 011-offline-queue
+ */
+async function queueUnreachableCapture(
+  tweetData: TweetData,
+  result: PostWorkerResult,
+  fromQueue: boolean,
+  historyId: string | undefined,
+  profileId: string
+): Promise<PostWorkerResult> {
+  // Retries keep their existing queue entry - the caller records the failure
+  if (fromQueue) {
+    return result;
+  }
+
+  try {
+    await enqueueCapture(tweetData, result.error || 'Endpoint unreachable', historyId, profileId);
+    return { ...result, queued: true };
+  } catch (queueError) {
+    logger.error('[TweetYoink SW] Failed to queue capture:', queueError);
+    return result;
+  }
+}
+
+/**
+ * Queue retry in progress, shared by concurrent callers (retry alarm, popup's Retry now)
+ */
+let queueRetryInFlight: Promise<void> | null = null;
+
+/**
+ * Retry every queued capture that is due
+ * Feature: 011-offline-queue
+ *
+ * - Delivered captures leave the queue; sync results are shown like async completions
+ * - Network errors, timeouts and 5xx responses back off and stay queued
+ * - Other failures (4xx, missing config or permission) are dropped
+ * - A retry already running is joined instead of sending the same captures twice
+ */
+function retryQueuedCaptures(): Promise<void> {
+  if (!queueRetryInFlight) {
+    queueRetryInFlight = sendDueCaptures().finally(() => {
+      queueRetryInFlight = null;
+    });
+  }
+
+  return queueRetryInFlight;
+}
+
+/**
+ * Send the due queued captures one by one (Feature 011)
+ */
+async function sendDueCaptures(): Promise<void> {
+  const due = await getDueCaptures();
+  logger.log(`[TweetYoink SW] Retrying ${due.length} queued capture(s)`);
+
+  for (const entry of due) {
+    // Discarded from the popup while earlier captures were being sent
+    if (!(await isCaptureQueued(entry.id))) {
+      continue;
+    }
+
+    const result = await postTweetDataFromWorker(entry.tweetData, {
+      fromQueue: true,
+      historyId: entry.historyId,
+      profileId: entry.profileId,
+    });
+
+    if (result.success) {
+      logger.log('[TweetYoink SW] Queued capture delivered:', entry.id);
+      await removeQueuedCapture(entry.id);
+
+      // The capturing tab may be long gone - show the result as a notification (Feature 019)
+      if (result.data?.status === 'completed') {
+        showCaptureNotification(entry.tweetData, { status: 'completed' });
+      }
+      continue;
+    }
+
+    if (isRetryableFailure(result)) {
+      await recordRetryFailure(entry.id, result.error || 'Unknown error');
+    } else {
+      logger.warn('[TweetYoink SW] Dropping queued capture after non-retryable error:', result.error);
+      await removeQueuedCapture(entry.id);
+    }
   }
+
+  await scheduleQueueRetry();
+}
+
+/**
+ * Discard every queued capture (popup's Discard), failing their history entries
+ * Feature: 011-offline-queue
+ * @returns Number of discarded captures
+ */
+async function discardQueuedCaptures(): Promise<number> {
+  const cleared = await clearCaptureQueue();
+  logger.log(`[TweetYoink SW] Discarded ${cleared.length} queued capture(s)`);
+
+  for (const entry of cleared) {
+    if (entry.historyId) {
+      await recordPostOutcome(entry.historyId, {
+        success: false,
+        error: 'Discarded from the offline queue',
+        errorType: 'CANCELLED',
+      }, false);
+    }
+  }
+
+  return cleared.length;
 }
 
 /**
@@ -305,3 +804,64 @@ async function restoreActivePolls(): Promise<void> {
     await chrome.alarms.create(`poll_${poll.requestId}`, { when });
   }
 }
+
+/**
+ * Whether a failed POST is worth retrying later (endpoint unreachable or 5xx)
+ * Feature: 011-offline-queue
+ */
+function isRetryableFailure(result: PostWorkerResult): boolean {
+  return (
+    result.errorType === 'NetworkError' ||
+    result.errorType === 'TimeoutError' ||
+    (result.errorType === 'HttpError' && (result.status ?? 0) >= 500)
+  );
+}
+
+/**
+ * Record a new capture in history, tolerating storage failures
+ * Feature: 012-capture-history
+ */
+async function recordCapture(tweetData: TweetData, profile: EndpointProfile): Promise<string | undefined> {
+  try {
+    return await addHistoryEntry(tweetData, profile);
+  } catch (error) {
+    logger.warn('[TweetYoink SW] Failed to record capture history:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Store the outcome of a POST on its history entry
+ * Feature: 012-capture-history
+ */
+async function recordPostOutcome(
+  historyId: string | undefined,
+  result: PostWorkerResult,
+  fromQueue: boolean
+): Promise<void> {
+  if (!historyId) {
+    return;
+  }
+
+  try {
+    if (result.queued || (fromQueue && !result.success && isRetryableFailure(result))) {
+      await updateHistoryEntry(historyId, {
+        status: 'queued',
+        error: { code: result.errorType || 'Error', message: result.error || 'Endpoint unreachable' },
+      });
+    } else if (!result.success || !result.data) {
+      await updateHistoryEntry(historyId, {
+        status: 'failed',
+        error: { code: result.errorType || 'Error', message: result.error || 'Unknown error occurred' },
+      });
+    } else if (result.data.status === 'completed') {
+      await updateHistoryEntry(historyId, { status: 'completed', result: result.data.result, error: undefined });
+    } else if (isErrorResponse(result.data)) {
+      await updateHistoryEntry(historyId, { status: 'failed', error: result.data.error });
+    } else if (isAsyncResponse(result.data)) {
+      await updateHistoryEntry(historyId, { status: 'pending', requestId: result.data.requestId, error: undefined });
+    }
+  } catch (error) {
+    logger.warn('[TweetYoink SW] Failed to update capture history:', error);
+  }
+}
@@ -0,0 +1,268 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Auto-capture rules engine
+ * Feature: 024-auto-capture
+ *
+ * Evaluates the auto-capture rules (options page) against every tweet the
+ * button injector processes and hands matching tweets to the content script
+ * for a quiet capture (badge only, no overlay). A rule matches when all of its
+ * conditions match; any matching rule captures the tweet.
+ *
+ * Flood protection:
+ * - Dedup: each tweet ID is evaluated once per page, so scrolling back or X
+ *   re-rendering a tweet doesn't send it again
+ * - Rate limit: at most maxCapturesPerMinute captures in any 60 seconds;
+ *   further matches wait in a short queue, the rest are skipped
+ */
+
+import type { TweetData } from '../types/tweet-data';
+import { isExtractionSuccess, getTweetId } from '../types/tweet-data';
+import type { AutoCaptureRule, AutoCaptureSettings, AutoCaptureTweetType } from '../types/config';
+import { DEFAULT_AUTO_CAPTURE_SETTINGS } from '../types/config';
+import { extractTweetData } from '../extractors/tweet-extractor';
+import { getAutoCaptureSettings, watchAutoCaptureChanges } from './config-service';
+import { getTweetResult } from './result-store';
+
+/**
+ * Sliding window of the rate limit
+ */
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/**
+ * Matches waiting for the rate limit; later matches are skipped
+ */
+const MAX_WAITING_CAPTURES = 20;
+
+/**
+ * Evaluated tweet IDs kept for dedup; the oldest are forgotten first
+ */
+const MAX_SEEN_TWEETS = 5000;
+
+/**
+ * Current settings (auto-capture is off until they are loaded)
+ */
+let settings: AutoCaptureSettings = DEFAULT_AUTO_CAPTURE_SETTINGS;
+
+/**
+ * Tweet IDs already evaluated on this page, in evaluation order
+ */
+const seenTweetIds = new Set<string>();
+
+/**
+ * Send times of recent automatic captures
+ */
+let recentCaptures: number[] = [];
+
+/**
+ * Matches waiting for the rate limit, in match order
+ */
+const waitingCaptures: Array<{ tweetData: TweetData; rule: AutoCaptureRule }> = [];
+let drainTimeout: number | null = null;
+
+/**
+ * Capture handler provided by the content script
+ */
+let captureHandler: ((tweetData: TweetData, rule: AutoCaptureRule) => void) | null = null;
+
+/**
+ * Loads the rules and keeps them up to date
+ * @param onCapture - Sends a tweet that matched a rule
+ */
+export async function initializeAutoCapture(
+  onCapture: (tweetData: TweetData, rule: AutoCaptureRule) => void
+): Promise<void> {
+  captureHandler = onCapture;
+
+  watchAutoCaptureChanges((updated) => {
+    settings = updated;
+    logger.log(`[AutoCapture] Rules updated (${getActiveRules().length} active)`);
+  });
+
+  settings = await getAutoCaptureSettings();
+  logger.log(`[AutoCapture] Initialized (${getActiveRules().length} active rules)`);
+}
+
+/**
+ * Evaluates the rules for a rendered tweet and captures it on a match
+ * @param tweetArticle - The tweet article element
+ * @param tweetId - Status ID of the tweet, or null if its permalink has not rendered
+ */
+export function evaluateAutoCapture(tweetArticle: Element, tweetId: string | null): void {
+  const rules = getActiveRules();
+  if (rules.length === 0 || !tweetId || seenTweetIds.has(tweetId)) {
+    return;
+  }
+
+  rememberTweet(tweetId);
+
+  // Already captured by hand (or by an earlier batch) on this page
+  if (getTweetResult(tweetId)) {
+    return;
+  }
+
+  const result = extractTweetData(tweetArticle);
+  if (!isExtractionSuccess(result)) {
+    logger.debug('[AutoCapture] Extraction failed, tweet skipped:', tweetId);
+    return;
+  }
+
+  const rule = rules.find(candidate => matchesRule(candidate, result.data));
+  if (!rule) {
+    return;
+  }
+
+  logger.log(`[AutoCapture] Tweet ${tweetId} matched rule "${rule.name}"`);
+  scheduleCapture(result.data, rule);
+}
+
+/**
+ * Enabled rules, or none while auto-capture is switched off
+ */
+function getActiveRules(): AutoCaptureRule[] {
+  return settings.enabled ? settings.rules.filter(rule => rule.enabled) : [];
+}
+
+/**
+ * Marks a tweet as evaluated, forgetting the oldest when the set is full
+ */
+function rememberTweet(tweetId: string): void {
+  seenTweetIds.add(tweetId);
+  if (seenTweetIds.size > MAX_SEEN_TWEETS) {
+    const oldest = seenTweetIds.values().next().value as string;
+    seenTweetIds.delete(oldest);
+  }
+}
+
+/**
+ * Checks every condition of a rule against a tweet
+ */
+function matchesRule(rule: AutoCaptureRule, tweetData: TweetData): boolean {
+  const handle = tweetData.author.handle?.toLowerCase() ?? '';
+  if (rule.authors.length > 0 && !rule.authors.some(author => author.replace(/^@/, '').toLowerCase() === handle)) {
+    return false;
+  }
+
+  const text = tweetData.text ?? '';
+  const lowerText = text.toLowerCase();
+  if (rule.keywords.length > 0 && !rule.keywords.some(keyword => lowerText.includes(keyword.toLowerCase()))) {
+    return false;
+  }
+
+  if (rule.textPattern && !testPattern(rule.textPattern, text)) {
+    return false;
+  }
+
+  const { likeCount, retweetCount, replyCount, viewCount } = tweetData.metrics;
+  if ((likeCount ?? 0) < rule.minLikes
+    || (retweetCount ?? 0) < rule.minRetweets
+    || (replyCount ?? 0) < rule.minReplies
+    || (viewCount ?? 0) < rule.minViews) {
+    return false;
+  }
+
+  if (rule.tweetTypes.length > 0 && !getTweetTypes(tweetData).some(type => rule.tweetTypes.includes(type))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Tests a case-insensitive pattern; an invalid pattern never matches
+ */
+function testPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    logger.warn('[AutoCapture] Invalid text pattern:', pattern);
+    return false;
+  }
+}
+
+/**
+ * Kinds of a tweet as used by rules
+ */
+function getTweetTypes(tweetData: TweetData): AutoCaptureTweetType[] {
+  const { isReply, isRetweet, isQuote } = tweetData.tweetType;
+  const types: AutoCaptureTweetType[] = [];
+
+  if (isReply) types.push('reply');
+  if (isRetweet) types.push('retweet');
+  if (isQuote) types.push('quote');
+
+  return types.length > 0 ? types : ['original'];
+}
+
+/**
+ * Sends a match now, or queues it until the rate limit allows another capture
+ */
+function scheduleCapture(tweetData: TweetData, rule: AutoCaptureRule): void {
+  if (waitingCaptures.length === 0 && tryCapture(tweetData, rule)) {
+    return;
+  }
+
+  if (waitingCaptures.length >= MAX_WAITING_CAPTURES) {
+    logger.warn('[AutoCapture] Rate limit reached, match skipped:', tweetData.url);
+    return;
+  }
+
+  waitingCaptures.push({ tweetData, rule });
+  scheduleDrain();
+}
+
+/**
+ * Sends a capture if the rate limit allows it
+ * @returns False if the per-minute limit is used up
+ */
+function tryCapture(tweetData: TweetData, rule: AutoCaptureRule): boolean {
+  const now = Date.now();
+  recentCaptures = recentCaptures.filter(sentAt => now - sentAt < RATE_LIMIT_WINDOW_MS);
+
+  if (recentCaptures.length >= settings.maxCapturesPerMinute) {
+    return false;
+  }
+
+  recentCaptures.push(now);
+  captureHandler?.(tweetData, rule);
+  return true;
+}
+
+/**
+ * Sends waiting matches once the oldest capture leaves the rate limit window
+ */
+function scheduleDrain(): void {
+  if (drainTimeout !== null || recentCaptures.length === 0) {
+    return;
+  }
+
+  const delay = Math.max(recentCaptures[0] + RATE_LIMIT_WINDOW_MS - Date.now(), 0);
+  drainTimeout = window.setTimeout(() => {
+    drainTimeout = null;
+
+    // Switched off while matches were waiting
+    if (getActiveRules().length === 0) {
+      waitingCaptures.length = 0;
+      return;
+    }
+
+    while (waitingCaptures.length > 0) {
+      const { tweetData, rule } = waitingCaptures[0];
+
+      // Captured by hand while waiting
+      if (getTweetResult(getTweetId(tweetData))) {
+        waitingCaptures.shift();
+        continue;
+      }
+
+      if (!tryCapture(tweetData, rule)) {
+        break;
+      }
+      waitingCaptures.shift();
+    }
+
+    if (waitingCaptures.length > 0) {
+      scheduleDrain();
+    }
+  }, delay);
+}
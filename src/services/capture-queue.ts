@@ -0,0 +1,196 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Offline capture queue
+ * Feature: 011-offline-queue
+ *
+ * Holds captures whose POST failed because the endpoint was unreachable
+ * (network error or timeout) and retries them with exponential backoff.
+ * Retries are driven by a single chrome.alarms alarm, the same mechanism
+ * used for async polling, so they survive service worker restarts.
+ */
+
+import type { QueuedCapture } from '../types/config';
+import type { TweetData } from '../types/tweet-data';
+import { MAX_QUEUED_CAPTURES, getQueueRetryDelayMs } from '../types/config';
+import { createStorageLock } from '../utils/storage-lock';
+
+const STORAGE_KEY = 'tweetyoink_capture_queue';
+
+// Serializes read-modify-write of the queue (Feature 014)
+const withQueueLock = createStorageLock();
+
+/**
+ * Alarm name used to wake the service worker for queue retries
+ */
+export const QUEUE_RETRY_ALARM = 'queue_retry';
+
+/**
+ * Get all queued captures (oldest first)
+ */
+export async function getQueuedCaptures(): Promise<QueuedCapture[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY);
+  return result[STORAGE_KEY] || [];
+}
+
+/**
+ * Add a failed capture to the queue and schedule its retry
+ * @param tweetData - Captured tweet data
+ * @param error - Error message from the failed POST
+ * @param historyId - History entry to update when the retry completes (Feature 012)
+ * @param profileId - Endpoint profile to retry against (Feature 013)
+ * @returns The queued entry
+ */
+export async function enqueueCapture(
+  tweetData: TweetData,
+  error: string,
+  historyId?: string,
+  profileId?: string
+): Promise<QueuedCapture> {
+  const entry = await withQueueLock(async () => {
+    const queue = await getQueuedCaptures();
+    const now = Date.now();
+
+    const queued: QueuedCapture = {
+      id: `queued_${now}_${Math.random().toString(36).substring(2, 9)}`,
+      tweetData,
+      enqueuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now + getQueueRetryDelayMs(0),
+      lastError: error,
+      historyId,
+      profileId,
+    };
+
+    queue.push(queued);
+
+    // Drop oldest entries when the queue is full
+    if (queue.length > MAX_QUEUED_CAPTURES) {
+      const dropped = queue.splice(0, queue.length - MAX_QUEUED_CAPTURES);
+      logger.warn(`[CaptureQueue] Queue full - dropped ${dropped.length} oldest capture(s)`);
+    }
+
+    await saveQueue(queue);
+    return queued;
+  });
+
+  await scheduleQueueRetry();
+
+  logger.log('[CaptureQueue] Capture queued for retry:', entry.id);
+  return entry;
+}
+
+/**
+ * Remove a capture from the queue (after successful delivery or permanent failure)
+ */
+export function removeQueuedCapture(id: string): Promise<void> {
+  return withQueueLock(async () => {
+    const queue = await getQueuedCaptures();
+    await saveQueue(queue.filter(entry => entry.id !== id));
+  });
+}
+
+/**
+ * Record a failed retry attempt and push the next attempt out with backoff
+ */
+export function recordRetryFailure(id: string, error: string): Promise<void> {
+  return withQueueLock(async () => {
+    const queue = await getQueuedCaptures();
+    const entry = queue.find(e => e.id === id);
+
+    if (entry) {
+      entry.attempts++;
+      entry.lastError = error;
+      entry.nextAttemptAt = Date.now() + getQueueRetryDelayMs(entry.attempts);
+      await saveQueue(queue);
+      logger.log(`[CaptureQueue] Retry ${entry.attempts} failed for ${id}, next attempt in ${Math.round((entry.nextAttemptAt - Date.now()) / 1000)}s`);
+    }
+  });
+}
+
+/**
+ * Make every queued capture due immediately (manual "Retry now")
+ */
+export function markAllCapturesDue(): Promise<void> {
+  return withQueueLock(async () => {
+    const queue = await getQueuedCaptures();
+    const now = Date.now();
+    queue.forEach(entry => {
+      entry.nextAttemptAt = now;
+    });
+    await saveQueue(queue);
+  });
+}
+
+/**
+ * Remove every queued capture (service worker; the popup asks via CLEAR_CAPTURE_QUEUE)
+ * @returns The removed captures
+ */
+export async function clearCaptureQueue(): Promise<QueuedCapture[]> {
+  const cleared = await withQueueLock(async () => {
+    const queue = await getQueuedCaptures();
+    await saveQueue([]);
+    return queue;
+  });
+
+  await chrome.alarms.clear(QUEUE_RETRY_ALARM);
+  return cleared;
+}
+
+/**
+ * Check whether a capture is still queued, e.g. not discarded during a retry
+ */
+export async function isCaptureQueued(id: string): Promise<boolean> {
+  const queue = await getQueuedCaptures();
+  return queue.some(entry => entry.id === id);
+}
+
+/**
+ * Get captures whose retry time has come
+ */
+export async function getDueCaptures(): Promise<QueuedCapture[]> {
+  const now = Date.now();
+  const queue = await getQueuedCaptures();
+  return queue.filter(entry => entry.nextAttemptAt <= now);
+}
+
+/**
+ * Set the retry alarm for the earliest pending capture (or clear it when empty)
+ */
+export async function scheduleQueueRetry(): Promise<void> {
+  const queue = await getQueuedCaptures();
+
+  if (queue.length === 0) {
+    await chrome.alarms.clear(QUEUE_RETRY_ALARM);
+    return;
+  }
+
+  const earliest = Math.min(...queue.map(entry => entry.nextAttemptAt));
+  const now = Date.now();
+
+  // If the retry time has passed (e.g. after a browser restart), retry shortly
+  const when = earliest > now ? earliest : now + 1000;
+  await chrome.alarms.create(QUEUE_RETRY_ALARM, { when });
+}
+
+/**
+ * Show the number of queued captures on the extension action badge
+ */
+export async function updateQueueBadge(): Promise<void> {
+  const queue = await getQueuedCaptures();
+
+  try {
+    await chrome.action.setBadgeText({ text: queue.length > 0 ? queue.length.toString() : '' });
+    await chrome.action.setBadgeBackgroundColor({ color: '#f4a100' });
+  } catch (error) {
+    logger.warn('[CaptureQueue] Failed to update badge:', error);
+  }
+}
+
+/**
+ * Persist queue and refresh badge count
+ */
+async function saveQueue(queue: QueuedCapture[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: queue });
+  await updateQueueBadge();
+}
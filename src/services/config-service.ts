@@ -4,50 +4,239 @@
  * Manages settings storage, validation, and retrieval
  */
 
-import type { ExtensionConfig, CustomHeaders } from '../types/config';
-import { DEFAULT_CONFIG, MIN_POLLING_INTERVAL_SECONDS } from '../types/config';
+import type {
+  ExtensionConfig,
+  CustomHeaders,
+  EndpointProfile,
+  ProfileStore,
+  AutoCaptureSettings,
+  DisplaySettings,
+} from '../types/config';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_AUTO_CAPTURE_SETTINGS,
+  DEFAULT_DISPLAY_SETTINGS,
+  DISPLAY_MODES,
+  MAX_AUTO_CAPTURES_PER_MINUTE,
+  MAX_RESULT_CACHE_TTL_MINUTES,
+  MIN_POLLING_INTERVAL_SECONDS,
+  createEndpointProfile,
+  toExtensionConfig,
+} from '../types/config';
 
+// Pre-profile storage keys, read once to migrate into the default profile
 const CONFIG_KEY = 'tweetyoink-config';
 const HEADERS_KEY = 'tweetyoink-custom-headers';
 
+// Profiles live in local storage because they carry custom headers (Feature 013)
+const PROFILES_KEY = 'tweetyoink-profiles';
+
+// Auto-capture rules apply to every profile (Feature 024)
+const AUTO_CAPTURE_KEY = 'tweetyoink-auto-capture';
+
+// Result display mode applies to every profile (Feature 032)
+const DISPLAY_KEY = 'tweetyoink-display';
+
 /**
  * Get current configuration with defaults
+ * Returns the settings of the active endpoint profile
  */
 export async function getConfig(): Promise<ExtensionConfig> {
-  const result = await chrome.storage.sync.get(CONFIG_KEY);
-  return result[CONFIG_KEY] || DEFAULT_CONFIG;
+  return toExtensionConfig(await getActiveProfile());
 }
 
 /**
- * Save configuration updates
+ * Save configuration updates to the active profile
  * @throws Error if validation fails
  */
 export async function saveConfig(config: Partial<ExtensionConfig>): Promise<void> {
-  const current = await getConfig();
-  const updated = { ...current, ...config };
+  const active = await getActiveProfile();
+  await saveProfile({ ...active, ...config });
+}
+
+/**
+ * Get custom headers of the active profile
+ */
+export async function getCustomHeaders(): Promise<CustomHeaders> {
+  const active = await getActiveProfile();
+  return { headers: active.headers };
+}
+
+/**
+ * Save custom headers to the active profile
+ */
+export async function saveCustomHeaders(headers: CustomHeaders): Promise<void> {
+  const active = await getActiveProfile();
+  await saveProfile({ ...active, headers: headers.headers });
+}
+
+// ============================================================================
+// Endpoint Profiles (Feature: 013-endpoint-profiles)
+// ============================================================================
+
+/**
+ * Get all profiles and the active profile ID
+ * Migrates single-endpoint settings into a default profile on first use
+ */
+export async function getProfileStore(): Promise<ProfileStore> {
+  const result = await chrome.storage.local.get(PROFILES_KEY);
+  const store: ProfileStore | undefined = result[PROFILES_KEY];
 
-  // Validate
-  const errors = validateConfig(updated);
+  if (store && store.profiles.length > 0) {
+    // Fill settings added after the profile was saved
+    return { ...store, profiles: store.profiles.map(p => ({ ...DEFAULT_CONFIG, ...p })) };
+  }
+
+  return migrateLegacyConfig();
+}
+
+/**
+ * Get all endpoint profiles
+ */
+export async function getProfiles(): Promise<EndpointProfile[]> {
+  return (await getProfileStore()).profiles;
+}
+
+/**
+ * Get the profile captures are currently sent to
+ */
+export async function getActiveProfile(): Promise<EndpointProfile> {
+  const store = await getProfileStore();
+  return store.profiles.find(p => p.id === store.activeProfileId) ?? store.profiles[0];
+}
+
+/**
+ * Get a profile by ID, falling back to the active profile when it no longer exists
+ */
+export async function getProfileOrActive(profileId?: string): Promise<EndpointProfile> {
+  const store = await getProfileStore();
+  return (
+    store.profiles.find(p => p.id === profileId) ??
+    store.profiles.find(p => p.id === store.activeProfileId) ??
+    store.profiles[0]
+  );
+}
+
+/**
+ * Create a new profile with default settings
+ * @returns The created profile
+ */
+export async function createProfile(name: string): Promise<EndpointProfile> {
+  const store = await getProfileStore();
+  const profile = createEndpointProfile(name.trim() || 'New profile');
+  store.profiles.push(profile);
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
+  return profile;
+}
+
+/**
+ * Insert or replace a profile
+ * @throws Error if validation fails
+ */
+export async function saveProfile(profile: EndpointProfile): Promise<void> {
+  const errors = validateConfig(profile);
+  if (!profile.name.trim()) {
+    errors.push('Profile name is required');
+  }
   if (errors.length > 0) {
     throw new Error(`Invalid configuration: ${errors.join(', ')}`);
   }
 
-  await chrome.storage.sync.set({ [CONFIG_KEY]: updated });
+  const store = await getProfileStore();
+  const index = store.profiles.findIndex(p => p.id === profile.id);
+  const updated = { ...profile, name: profile.name.trim() };
+
+  if (index === -1) {
+    store.profiles.push(updated);
+  } else {
+    store.profiles[index] = updated;
+  }
+
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
 }
 
 /**
- * Get custom headers configuration
+ * Delete a profile; the last remaining profile cannot be deleted
+ * If the active profile is deleted, the first remaining profile becomes active
+ * @throws Error if it is the only profile
  */
-export async function getCustomHeaders(): Promise<CustomHeaders> {
-  const result = await chrome.storage.local.get(HEADERS_KEY);
-  return result[HEADERS_KEY] || { headers: [] };
+export async function deleteProfile(profileId: string): Promise<void> {
+  const store = await getProfileStore();
+
+  if (store.profiles.length <= 1) {
+    throw new Error('At least one profile is required');
+  }
+
+  store.profiles = store.profiles.filter(p => p.id !== profileId);
+  store.fanOutProfileIds = store.fanOutProfileIds?.filter(id => id !== profileId);
+  if (store.activeProfileId === profileId) {
+    store.activeProfileId = store.profiles[0].id;
+  }
+
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
 }
 
 /**
- * Save custom headers
+ * Switch the profile captures are sent to
  */
-export async function saveCustomHeaders(headers: CustomHeaders): Promise<void> {
-  await chrome.storage.local.set({ [HEADERS_KEY]: headers });
+export async function setActiveProfile(profileId: string): Promise<void> {
+  const store = await getProfileStore();
+
+  if (!store.profiles.some(p => p.id === profileId)) {
+    throw new Error(`Unknown profile: ${profileId}`);
+  }
+
+  store.activeProfileId = profileId;
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
+}
+
+/**
+ * Get the profiles a capture is sent to (Feature 014)
+ * @returns Fan-out profiles when two or more are selected, otherwise the active profile
+ */
+export async function getTargetProfiles(): Promise<EndpointProfile[]> {
+  const store = await getProfileStore();
+  const fanOut = store.profiles.filter(p => store.fanOutProfileIds?.includes(p.id));
+
+  if (fanOut.length >= 2) {
+    return fanOut;
+  }
+
+  return [store.profiles.find(p => p.id === store.activeProfileId) ?? store.profiles[0]];
+}
+
+/**
+ * Select the profiles every capture is sent to in parallel (Feature 014)
+ */
+export async function setFanOutProfiles(profileIds: string[]): Promise<void> {
+  const store = await getProfileStore();
+  store.fanOutProfileIds = profileIds.filter(id => store.profiles.some(p => p.id === id));
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
+}
+
+/**
+ * Build the default profile from pre-profile settings
+ * (sync config + local custom headers). Legacy keys are left in place.
+ */
+async function migrateLegacyConfig(): Promise<ProfileStore> {
+  const [syncResult, localResult] = await Promise.all([
+    chrome.storage.sync.get(CONFIG_KEY),
+    chrome.storage.local.get(HEADERS_KEY),
+  ]);
+
+  const legacyConfig: ExtensionConfig = { ...DEFAULT_CONFIG, ...syncResult[CONFIG_KEY] };
+  const legacyHeaders: CustomHeaders = localResult[HEADERS_KEY] || { headers: [] };
+
+  const profile: EndpointProfile = {
+    ...createEndpointProfile('Default', DEFAULT_PROFILE_ID),
+    ...legacyConfig,
+    headers: legacyHeaders.headers,
+  };
+
+  const store: ProfileStore = { activeProfileId: profile.id, profiles: [profile] };
+  await chrome.storage.local.set({ [PROFILES_KEY]: store });
+  return store;
 }
 
 /**
@@ -80,17 +269,151 @@ export function validateConfig(config: ExtensionConfig): string[] {
     errors.push('POST timeout must be between 5 and 120 seconds');
   }
 
+  if (!Number.isInteger(config.resultCacheTtlMinutes)
+    || config.resultCacheTtlMinutes < 0
+    || config.resultCacheTtlMinutes > MAX_RESULT_CACHE_TTL_MINUTES) {
+    errors.push(`Result cache duration must be between 0 and ${MAX_RESULT_CACHE_TTL_MINUTES} minutes`);
+  }
+
   return errors;
 }
 
 /**
  * Watch for configuration changes
- * @param callback Called when config changes
+ * @param callback Called with the active profile's config when profiles change
  */
 export function watchConfigChanges(callback: (config: ExtensionConfig) => void): void {
+  watchProfileChanges((store) => {
+    const active = store.profiles.find(p => p.id === store.activeProfileId) ?? store.profiles[0];
+    if (active) {
+      callback(toExtensionConfig(active));
+    }
+  });
+}
+
+/**
+ * Watch for profile changes (edits, additions, active profile switch)
+ * @param callback Called with the new profile store
+ */
+export function watchProfileChanges(callback: (store: ProfileStore) => void): void {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[PROFILES_KEY]?.newValue) {
+      callback(changes[PROFILES_KEY].newValue);
+    }
+  });
+}
+
+// ============================================================================
+// Auto-Capture Rules (Feature: 024-auto-capture)
+// ============================================================================
+
+/**
+ * Get the auto-capture rules and rate limit
+ */
+export async function getAutoCaptureSettings(): Promise<AutoCaptureSettings> {
+  const result = await chrome.storage.local.get(AUTO_CAPTURE_KEY);
+  return { ...DEFAULT_AUTO_CAPTURE_SETTINGS, ...result[AUTO_CAPTURE_KEY] };
+}
+
+/**
+ * Save the auto-capture rules and rate limit
+ * @throws Error if validation fails
+ */
+export async function saveAutoCaptureSettings(settings: AutoCaptureSettings): Promise<void> {
+  const errors = validateAutoCaptureSettings(settings);
+  if (errors.length > 0) {
+    throw new Error(`Invalid auto-capture rules: ${errors.join(', ')}`);
+  }
+
+  await chrome.storage.local.set({ [AUTO_CAPTURE_KEY]: settings });
+}
+
+/**
+ * Validate auto-capture settings
+ * Every rule needs at least one author, keyword, pattern or minimum so it can't capture every tweet
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateAutoCaptureSettings(settings: AutoCaptureSettings): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(settings.maxCapturesPerMinute)
+    || settings.maxCapturesPerMinute < 1
+    || settings.maxCapturesPerMinute > MAX_AUTO_CAPTURES_PER_MINUTE) {
+    errors.push(`Auto-captures per minute must be between 1 and ${MAX_AUTO_CAPTURES_PER_MINUTE}`);
+  }
+
+  for (const rule of settings.rules) {
+    const name = rule.name.trim() || 'Unnamed rule';
+
+    if (rule.textPattern) {
+      try {
+        new RegExp(rule.textPattern, 'i');
+      } catch {
+        errors.push(`${name}: text pattern is not a valid regular expression`);
+      }
+    }
+
+    const minimums = [rule.minLikes, rule.minRetweets, rule.minReplies, rule.minViews];
+    if (minimums.some(value => !Number.isFinite(value) || value < 0)) {
+      errors.push(`${name}: minimum metrics must be 0 or more`);
+    }
+
+    const hasCondition = rule.authors.length > 0
+      || rule.keywords.length > 0
+      || rule.textPattern !== ''
+      || minimums.some(value => value > 0);
+    if (!hasCondition) {
+      errors.push(`${name}: add an author, keyword, text pattern or minimum`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Watch for auto-capture rule changes
+ * @param callback Called with the new settings
+ */
+export function watchAutoCaptureChanges(callback: (settings: AutoCaptureSettings) => void): void {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[AUTO_CAPTURE_KEY]?.newValue) {
+      callback({ ...DEFAULT_AUTO_CAPTURE_SETTINGS, ...changes[AUTO_CAPTURE_KEY].newValue });
+    }
+  });
+}
+
+// ============================================================================
+// Result Display (Feature: 032-side-panel)
+// ============================================================================
+
+/**
+ * Get where results are shown
+ */
+export async function getDisplaySettings(): Promise<DisplaySettings> {
+  const result = await chrome.storage.local.get(DISPLAY_KEY);
+  return { ...DEFAULT_DISPLAY_SETTINGS, ...result[DISPLAY_KEY] };
+}
+
+/**
+ * Save where results are shown
+ * @throws Error if the display mode is unknown
+ */
+export async function saveDisplaySettings(settings: DisplaySettings): Promise<void> {
+  if (!DISPLAY_MODES.includes(settings.mode)) {
+    throw new Error(`Invalid display mode: ${settings.mode}`);
+  }
+
+  await chrome.storage.local.set({ [DISPLAY_KEY]: settings });
+}
+
+/**
+ * Watch for display setting changes
+ * @param callback Called with the new settings
+ */
+export function watchDisplayChanges(callback: (settings: DisplaySettings) => void): void {
   chrome.storage.onChanged.addListener((changes, area) => {
-    if (area === 'sync' && changes[CONFIG_KEY]) {
-      callback(changes[CONFIG_KEY].newValue);
+    if (area === 'local' && changes[DISPLAY_KEY]?.newValue) {
+      callback({ ...DEFAULT_DISPLAY_SETTINGS, ...changes[DISPLAY_KEY].newValue });
     }
   });
 }
@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Context menu service
+ * Feature: 022-context-menu
+ *
+ * Right-click entries on X pages, registered by the service worker. The
+ * service worker can't see which element was clicked, so it forwards the
+ * click to the tab's content script, which resolves the tweet from the
+ * element under the pointer (recorded on contextmenu), the selection or
+ * the link. Also a fallback for tweets whose Yoink button failed to inject.
+ */
+
+/**
+ * Context menu entries; the ID is forwarded to the content script as the action
+ */
+export type ContextMenuAction = 'yoink-tweet' | 'yoink-selection' | 'yoink-link';
+
+const X_PAGE_PATTERNS = ['https://twitter.com/*', 'https://x.com/*'];
+const STATUS_LINK_PATTERNS = ['https://twitter.com/*/status/*', 'https://x.com/*/status/*'];
+
+/**
+ * Register the context menu entries (replaces entries from a previous version)
+ */
+export async function registerContextMenus(): Promise<void> {
+  await chrome.contextMenus.removeAll();
+
+  chrome.contextMenus.create({
+    id: 'yoink-tweet',
+    title: 'Yoink this tweet',
+    contexts: ['page', 'link', 'image', 'video'],
+    documentUrlPatterns: X_PAGE_PATTERNS,
+  });
+
+  chrome.contextMenus.create({
+    id: 'yoink-selection',
+    title: 'Yoink selection',
+    contexts: ['selection'],
+    documentUrlPatterns: X_PAGE_PATTERNS,
+  });
+
+  chrome.contextMenus.create({
+    id: 'yoink-link',
+    title: 'Yoink linked tweet',
+    contexts: ['link'],
+    documentUrlPatterns: X_PAGE_PATTERNS,
+    targetUrlPatterns: STATUS_LINK_PATTERNS,
+  });
+
+  logger.log('[ContextMenuService] Context menus registered');
+}
+
+/**
+ * Forward a context menu click to the content script of the frame it happened in
+ * Message: CONTEXT_MENU_YOINK { action, linkUrl?, selectionText? }
+ */
+export function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): void {
+  if (tab?.id === undefined) {
+    return;
+  }
+
+  logger.log('[ContextMenuService] Context menu clicked:', info.menuItemId);
+
+  chrome.tabs.sendMessage(
+    tab.id,
+    {
+      type: 'CONTEXT_MENU_YOINK',
+      action: info.menuItemId as ContextMenuAction,
+      linkUrl: info.linkUrl,
+      selectionText: info.selectionText,
+    },
+    { frameId: info.frameId }
+  ).catch((error) => {
+    logger.warn('[ContextMenuService] Content script not reachable:', error);
+  });
+}
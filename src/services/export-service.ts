@@ -0,0 +1,294 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Export service
+ * Feature: 026-result-export
+ *
+ * Turns captures and their results into JSON, NDJSON, CSV or Markdown files
+ * and saves them as a browser download. Everything happens locally in the
+ * page or extension page that exports; nothing is sent to a server.
+ */
+
+import type { ExportFormat, ExportRecord, ExportSection } from '../types/export';
+import { EXPORT_FORMATS } from '../types/export';
+import type { ResponseContentItem } from '../types/overlay';
+import { hasRenderableTitle, isDebugContentItem } from '../types/overlay';
+
+/**
+ * CSV columns, in file order
+ */
+const CSV_COLUMNS = [
+  'captured_at',
+  'status',
+  'url',
+  'author_handle',
+  'author_display_name',
+  'timestamp',
+  'text',
+  'reply_count',
+  'retweet_count',
+  'like_count',
+  'bookmark_count',
+  'view_count',
+  'media_count',
+  'confidence',
+  'result_text',
+];
+
+/**
+ * Format captures and save them as a download
+ * @param records - Captures to export, in file order
+ * @param format - File format
+ * @param filenameBase - File name without extension
+ */
+export function exportCaptures(records: ExportRecord[], format: ExportFormat, filenameBase: string): void {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const content = formatExport(records, format);
+
+  downloadFile(content, `${filenameBase}.${extension}`, mimeType);
+  logger.log(`[ExportService] Exported ${records.length} capture(s) as ${format}`);
+}
+
+/**
+ * Format captures as the content of an export file
+ * @param records - Captures to export, in file order
+ * @param format - File format
+ */
+export function formatExport(records: ExportRecord[], format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records.map(record => record.tweetData), null, 2);
+    case 'ndjson':
+      return records.map(formatNdjsonLine).join('\n') + '\n';
+    case 'csv':
+      return formatCsv(records);
+    case 'markdown':
+      return formatMarkdownReport(records);
+  }
+}
+
+/**
+ * One NDJSON line: the capture and the result items of each endpoint
+ */
+function formatNdjsonLine(record: ExportRecord): string {
+  return JSON.stringify({
+    capturedAt: new Date(getCapturedAt(record)).toISOString(),
+    status: record.status,
+    tweetData: record.tweetData,
+    results: record.sections,
+  });
+}
+
+/**
+ * Flattened CSV with a header row and one row per capture
+ */
+function formatCsv(records: ExportRecord[]): string {
+  const rows = records.map((record) => {
+    const { tweetData } = record;
+    const { metrics } = tweetData;
+
+    return [
+      new Date(getCapturedAt(record)).toISOString(),
+      record.status ?? '',
+      tweetData.url,
+      tweetData.author.handle ?? '',
+      tweetData.author.displayName ?? '',
+      tweetData.timestamp ?? '',
+      tweetData.text ?? '',
+      metrics.replyCount,
+      metrics.retweetCount,
+      metrics.likeCount,
+      metrics.bookmarkCount,
+      metrics.viewCount,
+      tweetData.media.length,
+      tweetData.metadata.confidence,
+      getResultText(record.sections),
+    ];
+  });
+
+  // CRLF line endings, as expected by spreadsheet applications (RFC 4180)
+  return [CSV_COLUMNS, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quote a CSV cell when needed; unknown numbers are left empty
+ */
+function toCsvCell(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+
+  let text = String(value);
+
+  // Spreadsheets run cells starting with these characters as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Text of every text and Markdown item, prefixed with the endpoint name for fan-out results
+ */
+function getResultText(sections: ExportSection[]): string {
+  return sections
+    .map((section) => {
+      const text = section.contentItems
+        .filter(item => (item.type === 'text' || item.type === 'markdown') && typeof item.content === 'string' && !isDebugContentItem(item))
+        .map(item => item.content as string)
+        .join('\n\n');
+      return section.label && text ? `${section.label}: ${text}` : text;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Markdown report with one chapter per capture
+ */
+function formatMarkdownReport(records: ExportRecord[]): string {
+  const count = records.length === 1 ? '1 capture' : `${records.length} captures`;
+  const chapters = records.map(formatMarkdownCapture);
+
+  return [
+    '# TweetYoink Export',
+    `_Exported ${new Date().toLocaleString()} · ${count}_`,
+    ...chapters,
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * Report chapter of one capture: tweet, metrics and result items
+ */
+function formatMarkdownCapture(record: ExportRecord): string {
+  const { tweetData } = record;
+  const { metrics } = tweetData;
+  const author = tweetData.author.handle ? `@${tweetData.author.handle}` : 'Unknown author';
+  const displayName = tweetData.author.displayName ? ` (${tweetData.author.displayName})` : '';
+
+  const details = [`[${tweetData.url}](${tweetData.url})`];
+  if (tweetData.timestamp) {
+    details.push(new Date(tweetData.timestamp).toLocaleString());
+  }
+  if (record.status) {
+    details.push(record.status);
+  }
+
+  const metricsLine = [
+    `Replies: ${metrics.replyCount ?? '–'}`,
+    `Retweets: ${metrics.retweetCount ?? '–'}`,
+    `Likes: ${metrics.likeCount ?? '–'}`,
+    `Views: ${metrics.viewCount ?? '–'}`,
+    `Media: ${tweetData.media.length}`,
+  ].join(' · ');
+
+  const blocks = [
+    `## ${author}${displayName}`,
+    details.join(' · '),
+    toBlockquote(tweetData.text || '[No text content]'),
+    metricsLine,
+  ];
+
+  blocks.push(...record.sections.map(formatMarkdownSection));
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Format result items as Markdown, one "Result" chapter per endpoint (Feature 027)
+ * Used to copy an overlay's result to the clipboard
+ *
+ * @param sections - Result items of each endpoint
+ */
+export function formatMarkdownResult(sections: ExportSection[]): string {
+  return sections.map(formatMarkdownSection).join('\n\n') + '\n';
+}
+
+/**
+ * Result chapter of one endpoint
+ */
+function formatMarkdownSection(section: ExportSection): string {
+  const heading = section.label ? `### Result: ${section.label}` : '### Result';
+
+  if (section.contentItems.length === 0) {
+    return `${heading}\n\n_No result content_`;
+  }
+
+  return [heading, ...section.contentItems.map(formatMarkdownItem)].join('\n\n');
+}
+
+/**
+ * Render one result item as Markdown, with its title as a heading
+ */
+function formatMarkdownItem(item: ResponseContentItem): string {
+  const title = hasRenderableTitle(item) ? item.title! : item.metadata?.title;
+  const heading = title ? `#### ${title}\n\n` : '';
+
+  if (isDebugContentItem(item)) {
+    return `${heading}${toJsonBlock(parseJson(item.content))}`;
+  }
+
+  if (typeof item.content !== 'string') {
+    return `${heading}${toJsonBlock(item.content)}`;
+  }
+
+  switch (item.type) {
+    case 'image':
+      return `${heading}![${title ?? 'Image'}](${item.content})`;
+    case 'link':
+      return `${heading}[${title ?? item.content}](${item.content})`;
+    default:
+      return `${heading}${item.content}`;
+  }
+}
+
+/**
+ * Quote every line of a text
+ */
+function toBlockquote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Fenced, pretty-printed JSON block
+ */
+function toJsonBlock(value: unknown): string {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+/**
+ * Parse a JSON string (Feature 005 debug content), keeping the raw string if it isn't JSON
+ */
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Capture time of a record, falling back to the extraction time
+ */
+function getCapturedAt(record: ExportRecord): number {
+  return record.capturedAt ?? (Date.parse(record.tweetData.metadata.capturedAt) || Date.now());
+}
+
+/**
+ * Save text as a file through a temporary object URL
+ */
+function downloadFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
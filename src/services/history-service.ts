@@ -0,0 +1,122 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Capture history service
+ * Feature: 012-capture-history
+ *
+ * Keeps every captured TweetData together with its final server result
+ * in chrome.storage.local, newest first.
+ */
+
+import type { CaptureHistoryEntry } from '../types/history';
+import type { TweetData } from '../types/tweet-data';
+import type { EndpointProfile } from '../types/config';
+import { MAX_HISTORY_ENTRIES } from '../types/history';
+import { createStorageLock } from '../utils/storage-lock';
+
+const STORAGE_KEY = 'tweetyoink_capture_history';
+
+// Serializes read-modify-write of the history list (Feature 014)
+const withHistoryLock = createStorageLock();
+
+/**
+ * Get all history entries (newest first)
+ */
+export async function getHistory(): Promise<CaptureHistoryEntry[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEY);
+  return result[STORAGE_KEY] || [];
+}
+
+/**
+ * Get a single history entry
+ */
+export async function getHistoryEntry(id: string): Promise<CaptureHistoryEntry | null> {
+  const history = await getHistory();
+  return history.find(entry => entry.id === id) || null;
+}
+
+/**
+ * Record a new capture
+ * @param tweetData - Captured tweet data
+ * @param profile - Endpoint profile the capture is sent to
+ * @returns ID of the created history entry
+ */
+export function addHistoryEntry(tweetData: TweetData, profile?: EndpointProfile): Promise<string> {
+  return withHistoryLock(async () => {
+    const history = await getHistory();
+    const now = Date.now();
+
+    const entry: CaptureHistoryEntry = {
+      id: `capture_${now}_${Math.random().toString(36).substring(2, 9)}`,
+      tweetData,
+      capturedAt: now,
+      updatedAt: now,
+      status: 'pending',
+      profileId: profile?.id,
+      profileName: profile?.name,
+    };
+
+    history.unshift(entry);
+
+    // Drop oldest entries beyond the limit
+    if (history.length > MAX_HISTORY_ENTRIES) {
+      history.length = MAX_HISTORY_ENTRIES;
+    }
+
+    await chrome.storage.local.set({ [STORAGE_KEY]: history });
+    logger.log('[HistoryService] Capture recorded:', entry.id);
+    return entry.id;
+  });
+}
+
+/**
+ * Update a history entry (status, result, error, requestId)
+ */
+export function updateHistoryEntry(
+  id: string,
+  updates: Partial<Omit<CaptureHistoryEntry, 'id' | 'tweetData' | 'capturedAt'>>
+): Promise<void> {
+  return withHistoryLock(async () => {
+    const history = await getHistory();
+    const entry = history.find(e => e.id === id);
+
+    if (!entry) {
+      logger.warn('[HistoryService] History entry not found:', id);
+      return;
+    }
+
+    Object.assign(entry, updates, { updatedAt: Date.now() });
+    await chrome.storage.local.set({ [STORAGE_KEY]: history });
+  });
+}
+
+/**
+ * Delete a history entry
+ */
+export function deleteHistoryEntry(id: string): Promise<void> {
+  return withHistoryLock(async () => {
+    const history = await getHistory();
+    await chrome.storage.local.set({ [STORAGE_KEY]: history.filter(entry => entry.id !== id) });
+  });
+}
+
+/**
+ * Remove all history entries
+ */
+export function clearHistory(): Promise<void> {
+  return withHistoryLock(async () => {
+    await chrome.storage.local.set({ [STORAGE_KEY]: [] });
+  });
+}
+
+/**
+ * Watch for history changes
+ * @param callback Called with the new history when it changes
+ */
+export function watchHistoryChanges(callback: (history: CaptureHistoryEntry[]) => void): void {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[STORAGE_KEY]) {
+      callback(changes[STORAGE_KEY].newValue || []);
+    }
+  });
+}
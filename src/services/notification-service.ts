@@ -0,0 +1,73 @@
+import { logger } from '../utils/logger';
+
+/**
+ * System notification service
+ * Feature: 019-result-routing
+ *
+ * Async and streamed results are delivered only to the tab that made the
+ * capture. When that tab is gone (closed, navigated away) or the capture
+ * came from a background retry, the outcome is shown as a system
+ * notification instead. Clicking it opens the Capture History page, where
+ * the saved result can be viewed.
+ */
+
+import type { TweetData } from '../types/tweet-data';
+
+const NOTIFICATION_PREFIX = 'tweetyoink_result_';
+
+/**
+ * Final outcome of a capture shown in a notification
+ */
+export interface CaptureOutcome {
+  status: 'completed' | 'failed';
+  error?: { code: string; message: string };
+}
+
+/**
+ * Show a system notification for a capture result that no tab could display
+ * @param tweetData - Captured tweet (used for the notification text), if known
+ * @param outcome - Completed or failed outcome
+ */
+export async function showCaptureNotification(
+  tweetData: TweetData | undefined,
+  outcome: CaptureOutcome
+): Promise<void> {
+  let author = tweetData?.author.handle ? `@${tweetData.author.handle}` : 'Captured tweet';
+  let text = tweetData?.text ? `: ${tweetData.text}` : '';
+
+  // Batch captures (Feature 023) name the batch instead of its first tweet
+  if (tweetData?.batch) {
+    author = `Batch of ${tweetData.batch.tweets.length} tweets`;
+    text = '';
+  }
+
+  const title = outcome.status === 'completed' ? 'TweetYoink result ready' : 'TweetYoink analysis failed';
+  const message = outcome.status === 'completed'
+    ? `${author}${text}`
+    : `${author} - ${outcome.error?.message || 'Unknown error'}`;
+
+  try {
+    await chrome.notifications.create(`${NOTIFICATION_PREFIX}${Date.now()}`, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icons/icon-128.png'),
+      title,
+      message,
+      contextMessage: 'Click to open Capture History',
+    });
+  } catch (error) {
+    logger.warn('[NotificationService] Failed to show notification:', error);
+  }
+}
+
+/**
+ * Open Capture History when a result notification is clicked
+ * @param notificationId - ID of the clicked notification
+ */
+export async function handleNotificationClick(notificationId: string): Promise<void> {
+  if (!notificationId.startsWith(NOTIFICATION_PREFIX)) {
+    return;
+  }
+
+  await chrome.tabs.create({ url: chrome.runtime.getURL('src/history/history.html') });
+  await chrome.notifications.clear(notificationId);
+}
@@ -2,30 +2,76 @@ import { logger } from '../utils/logger';
 
 /**
  * Polling service for async request status checking
- * Feature: 003-config-endpoint (P3)
+ * Feature: 003-config-endpoint (P3), 012-capture-history, 013-endpoint-profiles, 014-multi-endpoint-fan-out,
+ * 016-async-progress, 017-async-failure-retry, 018-async-cancel, 019-result-routing, 023-batch-capture,
+ * 025-result-cache
+ *
+ * A batch capture is polled as one request under its batch ID; its TweetData
+ * keeps the whole batch, so Retry re-sends every tweet of it.
  */
 
-import type { PostResponse, PollableRequest } from '../types/config';
+import type {
+  ExtensionConfig,
+  EndpointProfile,
+  PostResponse,
+  PollableRequest,
+  PollingStatusResponse,
+  AsyncProgressUpdate,
+} from '../types/config';
+import type { TweetData } from '../types/tweet-data';
 import { mapPollingStatusToRequestStatus } from '../types/config';
-import { getConfig, getCustomHeaders } from './config-service';
+import { getProfileOrActive } from './config-service';
+import { updateHistoryEntry } from './history-service';
+import { showCaptureNotification } from './notification-service';
+import { cacheResult } from './result-cache';
+import { createStorageLock } from '../utils/storage-lock';
 
 const STORAGE_KEY = 'tweetyoink_active_polls';
 const POLLING_URL_CACHE_KEY = 'tweetyoink_polling_urls';
 
+// Fan-out starts several polls at once; serialize list updates (Feature 014)
+const withPollsLock = createStorageLock();
+const withPollingUrlLock = createStorageLock();
+
+/**
+ * Optional context stored with a polled request
+ */
+export interface PollingOptions {
+  /** Capture history entry to update with the final result (Feature 012) */
+  historyId?: string;
+  /** Endpoint profile that accepted the request (Feature 013) */
+  profileId?: string;
+  /** Original capture, kept for retrying a failed request (Feature 017) */
+  tweetData?: TweetData;
+  /** Tab that made the capture; the only tab that receives the result (Feature 019) */
+  tabId?: number;
+  /** Result cache entry to fill in when the request completes (Feature 025) */
+  cacheKey?: string;
+}
+
 /**
  * Start polling for an async request
+ * @param requestId - Request ID returned by the server
+ * @param tweetId - Status ID of the captured tweet (batch ID for batches, Feature 023)
+ * @param options - History entry, profile, original capture and originating tab
+ * @returns False if the profile can't poll, so nothing will ever update the request (Feature 016)
  */
-export async function startPolling(requestId: string, tweetId: string): Promise<void> {
-  const config = await getConfig();
+export async function startPolling(
+  requestId: string,
+  tweetId: string,
+  options: PollingOptions = {}
+): Promise<boolean> {
+  const { historyId, profileId, tweetData, tabId, cacheKey } = options;
+  const config = await getProfileOrActive(profileId);
 
   if (!config.enablePolling) {
     logger.log('[TweetYoink] Polling disabled in config');
-    return;
+    return false;
   }
 
   if (!config.endpointUrl) {
     logger.error('[TweetYoink] Cannot poll: no endpoint URL configured');
-    return;
+    return false;
   }
 
   // Build polling URL by appending /status to endpoint
@@ -41,6 +87,11 @@ export async function startPolling(requestId: string, tweetId: string): Promise<
     pollCount: 0,
     currentIntervalMs: config.pollingIntervalSeconds * 1000,
     status: 'pending',
+    historyId,
+    profileId: config.id,
+    tweetData,
+    tabId,
+    cacheKey,
   };
 
   // Save to storage
@@ -57,6 +108,7 @@ export async function startPolling(requestId: string, tweetId: string): Promise<
 
   logger.log('[TweetYoink] Polling started for request:', requestId);
   logger.log('[TweetYoink] Polling URL:', pollingUrl);
+  return true;
 }
 
 /**
@@ -70,13 +122,17 @@ export async function pollRequest(requestId: string): Promise<void> {
     return;
   }
 
-  const config = await getConfig();
+  // Poll with the settings of the profile that accepted the request
+  const config = await getProfileOrActive(request.profileId);
   const maxDuration = config.pollingMaxDurationSeconds * 1000;
   const elapsed = Date.now() - request.startTime;
 
   // Check if max duration exceeded
   if (elapsed > maxDuration) {
     logger.error('[TweetYoink] Polling timeout exceeded for:', requestId);
+    const error = { code: 'POLLING_TIMEOUT', message: `No result after ${config.pollingMaxDurationSeconds} seconds` };
+    notifyFailure(request, error);
+    await recordHistoryOutcome(request, { status: 'failed', error });
     await removeActivePoll(requestId);
     return;
   }
@@ -90,18 +146,8 @@ export async function pollRequest(requestId: string): Promise<void> {
   }
 
   try {
-    // Get custom headers
-    const customHeaders = await getCustomHeaders();
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-
-    // Add custom headers (same as initial POST request)
-    for (const header of customHeaders.headers) {
-      if (header.enabled) {
-        headers[header.key] = header.value;
-      }
-    }
+    // Profile's custom headers (same as initial POST request)
+    const headers = buildRequestHeaders(config);
 
     // Make polling request
     logger.log(`[TweetYoink] Polling (attempt ${request.pollCount + 1}):`, pollingUrl);
@@ -113,10 +159,16 @@ export async function pollRequest(requestId: string): Promise<void> {
       signal: AbortSignal.timeout(config.postTimeoutSeconds * 1000),
     });
 
+    // Cancelled while the poll was in flight (Feature 018)
+    if (!(await getActivePoll(requestId))) {
+      logger.log('[TweetYoink] Ignoring poll result for cancelled request:', requestId);
+      return;
+    }
+
     if (!response.ok) {
       logger.error(`[TweetYoink] Poll failed with status ${response.status}`);
       await updatePollStatus(requestId, 'failed');
-      await scheduleNextPoll(requestId, request.pollCount + 1);
+      await scheduleNextPoll(requestId, request.pollCount + 1, config);
       return;
     }
 
@@ -127,15 +179,28 @@ export async function pollRequest(requestId: string): Promise<void> {
       logger.log('[TweetYoink] ✅ Async request completed:', requestId);
       logger.log('[TweetYoink] Server response:', JSON.stringify(data.result, null, 2));
 
-      // Notify all tabs about completion
-      notifyTabsAboutCompletion(requestId, data.result);
+      // Show the result in the tab that made the capture
+      notifyCompletion(request, data.result);
 
+      await recordHistoryOutcome(request, { status: 'completed', result: data.result });
       await removeActivePoll(requestId);
+
+      // Best-effort, after the poll is done: a failed cache write must not handle the completion again
+      if (request.cacheKey) {
+        try {
+          await cacheResult(request.cacheKey, data.result);
+        } catch (error) {
+          logger.warn('[TweetYoink] Failed to cache result:', error);
+        }
+      }
       return;
     }
 
     if (data.status === 'failed' || data.status === 'error') {
       logger.error('[TweetYoink] Async request failed:', data.error);
+      const error = data.error ?? { code: 'PROCESSING_FAILED', message: 'The server reported that processing failed' };
+      notifyFailure(request, error);
+      await recordHistoryOutcome(request, { status: 'failed', error });
       await removeActivePoll(requestId);
       return;
     }
@@ -145,7 +210,12 @@ export async function pollRequest(requestId: string): Promise<void> {
       // Map server status to client status using centralized function
       const clientStatus = mapPollingStatusToRequestStatus(data.status);
       await updatePollStatus(requestId, clientStatus);
-      await scheduleNextPoll(requestId, request.pollCount + 1);
+
+      // Show progress and server message in the tab's progress overlay (Feature 016)
+      const { progress, message } = data as PollingStatusResponse;
+      notifyProgress(request, { status: data.status, progress, message });
+
+      await scheduleNextPoll(requestId, request.pollCount + 1, config);
       return;
     }
 
@@ -159,8 +229,110 @@ export async function pollRequest(requestId: string): Promise<void> {
     }
 
     // Schedule retry
-    await scheduleNextPoll(requestId, request.pollCount + 1);
+    await scheduleNextPoll(requestId, request.pollCount + 1, config);
+  }
+}
+
+/**
+ * Find the request still being polled for a cached capture
+ * Feature: 025-result-cache
+ * @param cacheKey - Result cache key of the capture
+ */
+export async function findPollByCacheKey(cacheKey: string): Promise<PollableRequest | null> {
+  const polls = await getActivePolls();
+  return polls.find(p => p.cacheKey === cacheKey) || null;
+}
+
+/**
+ * Deliver the progress and result of a polled request to another tab as well
+ * Feature: 025-result-cache
+ * Used when the same tweet is yoinked again while its request is pending.
+ */
+export function addPollTab(requestId: string, tabId: number): Promise<void> {
+  return withPollsLock(async () => {
+    const polls = await getActivePolls();
+    const request = polls.find(p => p.requestId === requestId);
+
+    if (request && request.tabId !== tabId && !request.mergedTabIds?.includes(tabId)) {
+      request.mergedTabIds = [...(request.mergedTabIds ?? []), tabId];
+      await chrome.storage.local.set({ [STORAGE_KEY]: polls });
+    }
+  });
+}
+
+/**
+ * Cancel an async request: stop polling and ask the server to stop processing
+ * Feature: 018-async-cancel
+ * @returns False if the request was no longer being polled
+ */
+export async function cancelPolling(requestId: string): Promise<boolean> {
+  const request = await getActivePoll(requestId);
+
+  if (!request) {
+    logger.warn('[TweetYoink] No active poll to cancel:', requestId);
+    return false;
+  }
+
+  const config = await getProfileOrActive(request.profileId);
+
+  // Clears the poll_<id> alarm and the polling URL too
+  await removeActivePoll(requestId);
+  logger.log('[TweetYoink] Polling cancelled for:', requestId);
+
+  notifyCancellation(request);
+  await recordHistoryOutcome(request, {
+    status: 'failed',
+    error: { code: 'CANCELLED', message: 'Cancelled by user' },
+  });
+
+  if (config.endpointUrl) {
+    await requestServerCancel(config, requestId);
+  }
+
+  return true;
+}
+
+/**
+ * Ask the server to stop processing a request via POST {endpoint}/cancel
+ * The route is optional: without it the server keeps processing and the result is ignored
+ * Feature: 018-async-cancel
+ */
+async function requestServerCancel(config: EndpointProfile, requestId: string): Promise<void> {
+  const cancelUrl = `${config.endpointUrl.replace(/\/$/, '')}/cancel`;
+
+  try {
+    const response = await fetch(cancelUrl, {
+      method: 'POST',
+      headers: buildRequestHeaders(config),
+      body: JSON.stringify({ requestId }),
+      signal: AbortSignal.timeout(config.postTimeoutSeconds * 1000),
+    });
+
+    if (response.ok) {
+      logger.log('[TweetYoink] Server cancelled request:', requestId);
+    } else {
+      logger.log(`[TweetYoink] Server did not cancel request (HTTP ${response.status}):`, requestId);
+    }
+  } catch (error) {
+    logger.warn('[TweetYoink] Cancel request failed:', error);
+  }
+}
+
+/**
+ * Build request headers with the profile's enabled custom headers
+ */
+function buildRequestHeaders(config: EndpointProfile): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  for (const header of config.headers) {
+    if (header.enabled) {
+      headers[header.key] = header.value;
+    }
   }
+
+  return headers;
 }
 
 /**
@@ -182,8 +354,7 @@ function buildPollingUrl(baseUrl: string): string {
 /**
  * Schedule next poll with progressive backoff
  */
-async function scheduleNextPoll(requestId: string, pollCount: number): Promise<void> {
-  const config = await getConfig();
+async function scheduleNextPoll(requestId: string, pollCount: number, config: ExtensionConfig): Promise<void> {
   const now = Date.now();
 
   // Progressive backoff: start at config interval, increase by 1.5x each time, max 60s
@@ -215,6 +386,18 @@ export async function getActivePolls(): Promise<PollableRequest[]> {
   return result[STORAGE_KEY] || [];
 }
 
+/**
+ * Watch for changes to the active polls (Feature 018)
+ * @param callback Called with the new list when it changes
+ */
+export function watchActivePolls(callback: (polls: PollableRequest[]) => void): void {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes[STORAGE_KEY]) {
+      callback(changes[STORAGE_KEY].newValue || []);
+    }
+  });
+}
+
 /**
  * Get specific active poll
  */
@@ -226,19 +409,23 @@ async function getActivePoll(requestId: string): Promise<PollableRequest | null>
 /**
  * Add new active poll
  */
-async function addActivePoll(request: PollableRequest): Promise<void> {
-  const polls = await getActivePolls();
-  polls.push(request);
-  await chrome.storage.local.set({ [STORAGE_KEY]: polls });
+function addActivePoll(request: PollableRequest): Promise<void> {
+  return withPollsLock(async () => {
+    const polls = await getActivePolls();
+    polls.push(request);
+    await chrome.storage.local.set({ [STORAGE_KEY]: polls });
+  });
 }
 
 /**
  * Remove active poll
  */
 async function removeActivePoll(requestId: string): Promise<void> {
-  const polls = await getActivePolls();
-  const filtered = polls.filter(p => p.requestId !== requestId);
-  await chrome.storage.local.set({ [STORAGE_KEY]: filtered });
+  await withPollsLock(async () => {
+    const polls = await getActivePolls();
+    const filtered = polls.filter(p => p.requestId !== requestId);
+    await chrome.storage.local.set({ [STORAGE_KEY]: filtered });
+  });
 
   // Remove polling URL
   await removePollingUrl(requestId);
@@ -250,39 +437,45 @@ async function removeActivePoll(requestId: string): Promise<void> {
 /**
  * Update poll status
  */
-async function updatePollStatus(requestId: string, status: PollableRequest['status']): Promise<void> {
-  const polls = await getActivePolls();
-  const request = polls.find(p => p.requestId === requestId);
-
-  if (request) {
-    request.status = status;
-    await chrome.storage.local.set({ [STORAGE_KEY]: polls });
-  }
+function updatePollStatus(requestId: string, status: PollableRequest['status']): Promise<void> {
+  return withPollsLock(async () => {
+    const polls = await getActivePolls();
+    const request = polls.find(p => p.requestId === requestId);
+
+    if (request) {
+      request.status = status;
+      await chrome.storage.local.set({ [STORAGE_KEY]: polls });
+    }
+  });
 }
 
 /**
  * Update poll count, interval, and last poll time
  */
-async function updatePollCount(requestId: string, pollCount: number, intervalMs: number, lastPollTime: number): Promise<void> {
-  const polls = await getActivePolls();
-  const request = polls.find(p => p.requestId === requestId);
-
-  if (request) {
-    request.pollCount = pollCount;
-    request.currentIntervalMs = intervalMs;
-    request.lastPollTime = lastPollTime;
-    await chrome.storage.local.set({ [STORAGE_KEY]: polls });
-  }
+function updatePollCount(requestId: string, pollCount: number, intervalMs: number, lastPollTime: number): Promise<void> {
+  return withPollsLock(async () => {
+    const polls = await getActivePolls();
+    const request = polls.find(p => p.requestId === requestId);
+
+    if (request) {
+      request.pollCount = pollCount;
+      request.currentIntervalMs = intervalMs;
+      request.lastPollTime = lastPollTime;
+      await chrome.storage.local.set({ [STORAGE_KEY]: polls });
+    }
+  });
 }
 
 /**
  * Save polling URL for a request
  */
-async function savePollingUrl(requestId: string, url: string): Promise<void> {
-  const result = await chrome.storage.local.get(POLLING_URL_CACHE_KEY);
-  const cache = result[POLLING_URL_CACHE_KEY] || {};
-  cache[requestId] = url;
-  await chrome.storage.local.set({ [POLLING_URL_CACHE_KEY]: cache });
+function savePollingUrl(requestId: string, url: string): Promise<void> {
+  return withPollingUrlLock(async () => {
+    const result = await chrome.storage.local.get(POLLING_URL_CACHE_KEY);
+    const cache = result[POLLING_URL_CACHE_KEY] || {};
+    cache[requestId] = url;
+    await chrome.storage.local.set({ [POLLING_URL_CACHE_KEY]: cache });
+  });
 }
 
 /**
@@ -297,35 +490,120 @@ async function getPollingUrl(requestId: string): Promise<string | null> {
 /**
  * Remove polling URL for a request
  */
-async function removePollingUrl(requestId: string): Promise<void> {
-  const result = await chrome.storage.local.get(POLLING_URL_CACHE_KEY);
-  const cache = result[POLLING_URL_CACHE_KEY] || {};
-  delete cache[requestId];
-  await chrome.storage.local.set({ [POLLING_URL_CACHE_KEY]: cache });
+function removePollingUrl(requestId: string): Promise<void> {
+  return withPollingUrlLock(async () => {
+    const result = await chrome.storage.local.get(POLLING_URL_CACHE_KEY);
+    const cache = result[POLLING_URL_CACHE_KEY] || {};
+    delete cache[requestId];
+    await chrome.storage.local.set({ [POLLING_URL_CACHE_KEY]: cache });
+  });
 }
 
 /**
- * Notify all tabs about async request completion
- * This sends a message to content scripts in all tabs
+ * Store the final outcome of a polled request in capture history
+ * Feature: 012-capture-history
  */
-async function notifyTabsAboutCompletion(requestId: string, result: unknown): Promise<void> {
+async function recordHistoryOutcome(
+  request: PollableRequest,
+  outcome: Pick<PollableRequest, 'status' | 'result' | 'error'>
+): Promise<void> {
+  if (!request.historyId) {
+    return;
+  }
+
   try {
-    // Query all tabs (to send message to content scripts)
-    const tabs = await chrome.tabs.query({});
-
-    // Send message to each tab's content script
-    for (const tab of tabs) {
-      if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, {
-          type: 'ASYNC_COMPLETED',
-          requestId,
-          result,
-        }).catch(() => {
-          // Ignore errors - tab might not have content script
-        });
-      }
-    }
+    await updateHistoryEntry(request.historyId, {
+      status: outcome.status === 'completed' ? 'completed' : 'failed',
+      result: outcome.result,
+      error: outcome.error,
+    });
   } catch (error) {
-    logger.error('[TweetYoink] Failed to notify tabs:', error);
+    logger.warn('[TweetYoink] Failed to update capture history:', error);
   }
 }
+
+/**
+ * Send an async result to the tab that made the capture (Feature 019)
+ * Falls back to a system notification when that tab is gone
+ */
+async function notifyCompletion(request: PollableRequest, result: unknown): Promise<void> {
+  const delivered = await sendToRequestTab(request, {
+    type: 'ASYNC_COMPLETED',
+    result,
+  });
+
+  if (!delivered) {
+    await showCaptureNotification(request.tweetData, { status: 'completed' });
+  }
+}
+
+/**
+ * Send the progress of an async request to the tab that made the capture
+ * Feature: 016-async-progress
+ */
+async function notifyProgress(request: PollableRequest, update: AsyncProgressUpdate): Promise<void> {
+  await sendToRequestTab(request, {
+    type: 'ASYNC_PROGRESS',
+    ...update,
+  });
+}
+
+/**
+ * Tell the tab that made the capture that its async request failed or timed out
+ * Feature: 017-async-failure-retry
+ * Includes the original capture so the user can retry it; falls back to a
+ * system notification when the tab is gone (Feature 019)
+ */
+async function notifyFailure(
+  request: PollableRequest,
+  error: { code: string; message: string }
+): Promise<void> {
+  const delivered = await sendToRequestTab(request, {
+    type: 'ASYNC_FAILED',
+    error,
+    tweetData: request.tweetData,
+  });
+
+  if (!delivered) {
+    await showCaptureNotification(request.tweetData, { status: 'failed', error });
+  }
+}
+
+/**
+ * Tell the tab that made the capture that its async request was cancelled
+ * Feature: 018-async-cancel
+ */
+async function notifyCancellation(request: PollableRequest): Promise<void> {
+  await sendToRequestTab(request, {
+    type: 'ASYNC_CANCELLED',
+  });
+}
+
+/**
+ * Send a message about a request to the content script of its originating tab
+ * Feature: 019-result-routing
+ * Every message carries the request ID, endpoint profile and tweet status ID.
+ * Tabs that yoinked the same tweet while it was pending get it too (Feature 025).
+ * @returns False if the request has no tab or every tab is closed or no longer on X
+ */
+async function sendToRequestTab(request: PollableRequest, message: Record<string, unknown>): Promise<boolean> {
+  const tabIds = [request.tabId, ...(request.mergedTabIds ?? [])]
+    .filter((tabId): tabId is number => tabId !== undefined);
+
+  const results = await Promise.all(tabIds.map(async (tabId) => {
+    try {
+      await chrome.tabs.sendMessage(tabId, {
+        ...message,
+        requestId: request.requestId,
+        profileId: request.profileId,
+        tweetId: request.tweetId,
+      });
+      return true;
+    } catch {
+      logger.log(`[TweetYoink] Tab ${tabId} unavailable for ${message.type}:`, request.requestId);
+      return false;
+    }
+  }));
+
+  return results.includes(true);
+}
@@ -2,7 +2,8 @@ import { logger } from '../utils/logger';
 
 /**
  * POST service for sending tweet data to configured endpoint
- * Feature: 003-config-endpoint
+ * Feature: 003-config-endpoint, 014-multi-endpoint-fan-out, 016-async-progress, 017-async-failure-retry,
+ * 018-async-cancel, 025-result-cache
  *
  * NOTE: This service sends requests through the service worker because
  * content scripts cannot access chrome.permissions API directly.
@@ -39,17 +40,64 @@ export class ConfigError extends Error {
   }
 }
 
+/**
+ * Endpoint was unreachable and the capture was queued for retry (Feature 011)
+ */
+export class CaptureQueuedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureQueuedError';
+  }
+}
+
+/**
+ * Server answered asynchronously but the profile has polling disabled, so no result will arrive (Feature 016)
+ */
+export class PollingDisabledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PollingDisabledError';
+  }
+}
+
+/**
+ * POST result relayed by the service worker
+ */
+interface WorkerPostResult {
+  success: boolean;
+  data?: PostResponse;
+  error?: string;
+  errorType?: string;
+  status?: number;
+  queued?: boolean;
+}
+
+/**
+ * Outcome of sending a capture to one endpoint profile (Feature 014)
+ */
+export type EndpointOutcome = {
+  profileId: string;
+  profileName: string;
+} & (
+  | { response: PostResponse; error?: undefined }
+  | { response?: undefined; error: Error }
+);
+
 /**
  * Post tweet data to configured endpoint via service worker
  * Content scripts cannot access chrome.permissions, so we delegate to service worker
+ * @param profileId - Endpoint profile to send to instead of the active one (Feature 017)
+ * @param bypassCache - Send to the server even if a cached result exists (re-send, Feature 025)
  */
-export async function postTweetData(tweetData: TweetData): Promise<PostResponse> {
+export async function postTweetData(tweetData: TweetData, profileId?: string, bypassCache = false): Promise<PostResponse> {
   logger.log('[TweetYoink] Sending tweet data via service worker');
 
   try {
     const response = await chrome.runtime.sendMessage({
       type: 'POST_TWEET_DATA',
       tweetData,
+      profileId,
+      bypassCache,
     });
 
     if (response.success) {
@@ -59,22 +107,13 @@ export async function postTweetData(tweetData: TweetData): Promise<PostResponse>
       logger.error('[TweetYoink] POST failed:', response.error);
 
       // Re-throw with appropriate error type
-      if (response.errorType === 'HttpError') {
-        throw new HttpError(response.status || 500, response.error);
-      } else if (response.errorType === 'TimeoutError') {
-        throw new TimeoutError(response.error);
-      } else if (response.errorType === 'NetworkError') {
-        throw new NetworkError(response.error);
-      } else if (response.errorType === 'ConfigError') {
-        throw new ConfigError(response.error);
-      } else {
-        throw new Error(response.error);
-      }
+      throw toPostError(response);
     }
   } catch (error: any) {
     // If the error is already one of our custom types, re-throw it
     if (error instanceof HttpError || error instanceof TimeoutError ||
-        error instanceof NetworkError || error instanceof ConfigError) {
+        error instanceof NetworkError || error instanceof ConfigError ||
+        error instanceof CaptureQueuedError || error instanceof PollingDisabledError) {
       throw error;
     }
 
@@ -83,3 +122,79 @@ export async function postTweetData(tweetData: TweetData): Promise<PostResponse>
     throw new Error(`Failed to communicate with service worker: ${error.message}`);
   }
 }
+
+/**
+ * Post tweet data to every target endpoint profile via service worker (Feature 014)
+ *
+ * With fan-out disabled this sends to the active profile only and returns one outcome.
+ * Per-endpoint failures are returned as outcomes instead of being thrown.
+ *
+ * @param bypassCache - Send to the server even if a cached result exists (re-analyze, Feature 025)
+ * @throws Error if the service worker cannot be reached
+ */
+export async function postTweetDataToTargets(tweetData: TweetData, bypassCache = false): Promise<EndpointOutcome[]> {
+  logger.log('[TweetYoink] Sending tweet data to target endpoints via service worker');
+
+  let response: { results: Array<WorkerPostResult & { profileId: string; profileName: string }> };
+  try {
+    response = await chrome.runtime.sendMessage({
+      type: 'FAN_OUT_TWEET_DATA',
+      tweetData,
+      bypassCache,
+    });
+  } catch (error: any) {
+    logger.error('[TweetYoink] Service worker communication error:', error);
+    throw new Error(`Failed to communicate with service worker: ${error.message}`);
+  }
+
+  return response.results.map((result): EndpointOutcome => {
+    const { profileId, profileName } = result;
+
+    if (result.success && result.data) {
+      return { profileId, profileName, response: result.data };
+    }
+
+    logger.error(`[TweetYoink] POST to ${profileName} failed:`, result.error);
+    return { profileId, profileName, error: toPostError(result) };
+  });
+}
+
+/**
+ * Cancel an async request via service worker (Feature 018)
+ * Stops polling and asks the server to stop processing
+ * @returns False if the request had already finished
+ */
+export async function cancelAsyncRequest(requestId: string): Promise<boolean> {
+  logger.log('[TweetYoink] Cancelling async request:', requestId);
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'CANCEL_ASYNC_REQUEST', requestId });
+    return Boolean(response?.cancelled);
+  } catch (error) {
+    logger.error('[TweetYoink] Service worker communication error:', error);
+    return false;
+  }
+}
+
+/**
+ * Convert a failed service worker POST result into the matching error type
+ */
+function toPostError(response: WorkerPostResult): Error {
+  const message = response.error || 'Unknown error occurred';
+
+  if (response.queued) {
+    return new CaptureQueuedError(message);
+  } else if (response.errorType === 'HttpError') {
+    return new HttpError(response.status || 500, message);
+  } else if (response.errorType === 'TimeoutError') {
+    return new TimeoutError(message);
+  } else if (response.errorType === 'NetworkError') {
+    return new NetworkError(message);
+  } else if (response.errorType === 'ConfigError') {
+    return new ConfigError(message);
+  } else if (response.errorType === 'PollingDisabled') {
+    return new PollingDisabledError(message);
+  } else {
+    return new Error(message);
+  }
+}
@@ -8,8 +8,14 @@ import { logger } from '../utils/logger';
  */
 
 import type { ResponseContentItem, DebugContentItem } from '../types/overlay';
+import { WIDGET_CONTENT_TYPES, isWidgetContentType } from '../types/overlay';
 import type { PostResponse } from '../types/config';
 
+/**
+ * Content types shown in the overlay; other item types are skipped
+ */
+const DISPLAYABLE_TYPES: string[] = ['text', 'image', 'debug', 'markdown', 'link', ...WIDGET_CONTENT_TYPES];
+
 export interface ParsedResponse {
   /** Whether response has displayable content */
   hasContent: boolean;
@@ -109,9 +115,9 @@ export function parseServerResponse(response: PostResponse): ParsedResponse {
         `[ResponseHandler] Separated ${regularItems.length} regular items and ${debugItems.length} debug items`
       );
 
-      // Filter for displayable items (type="text", type="image", and type="debug") from regular items
+      // Filter for displayable items (DISPLAYABLE_TYPES; markdown Feature 028, link Feature 029, widgets Feature 030) from regular items
       const displayableItems = regularItems.filter((item) => {
-        if (item.type === 'text' || item.type === 'image' || item.type === 'debug') {
+        if (DISPLAYABLE_TYPES.includes(item.type)) {
           return true;
         } else {
           logger.debug(`[ResponseHandler] Skipping unsupported item type (type="${item.type}")`);
@@ -119,7 +125,7 @@ export function parseServerResponse(response: PostResponse): ParsedResponse {
         }
       });
 
-      logger.debug(`[ResponseHandler] Found ${displayableItems.length} displayable items (text + image + debug)`);
+      logger.debug(`[ResponseHandler] Found ${displayableItems.length} displayable items`);
 
       // No displayable items after filtering
       if (displayableItems.length === 0) {
@@ -183,13 +189,14 @@ function isValidContentItem(item: unknown): boolean {
     return false;
   }
 
-  // For debug type, content must be object (not string)
-  if (obj.type === 'debug' && typeof obj.content !== 'object') {
+  // For debug and widget types (Feature 030), content must be object (not string)
+  const needsObject = obj.type === 'debug' || isWidgetContentType(obj.type);
+  if (needsObject && typeof obj.content !== 'object') {
     return false;
   }
 
-  // For non-debug types, content must be string (not object)
-  if (obj.type !== 'debug' && typeof obj.content !== 'string') {
+  // For other types, content must be string (not object)
+  if (!needsObject && typeof obj.content !== 'string') {
     return false;
   }
 
@@ -230,3 +237,28 @@ export function getEmptyStateMessage(emptyReason: ParsedResponse['emptyReason'])
       return 'No content to display';
   }
 }
+
+/**
+ * Longest server label shown on a result badge; longer labels are truncated (Feature 020)
+ */
+const MAX_RESULT_LABEL_LENGTH = 16;
+
+/**
+ * Get the short label a server attached to its result, for the tweet's inline badge
+ * Feature: 020-result-badges
+ *
+ * The first item with `metadata.label` (string) or `metadata.score` (number or string) wins.
+ *
+ * @param contentItems - Content items of the result
+ * @returns Label to show on the badge, or undefined if the server provided none
+ */
+export function getResultLabel(contentItems: ResponseContentItem[]): string | undefined {
+  for (const item of contentItems) {
+    const label = item.metadata?.label ?? item.metadata?.score;
+    if ((typeof label === 'string' && label.trim()) || (typeof label === 'number' && Number.isFinite(label))) {
+      const text = String(label).trim();
+      return text.length > MAX_RESULT_LABEL_LENGTH ? `${text.slice(0, MAX_RESULT_LABEL_LENGTH - 1)}…` : text;
+    }
+  }
+  return undefined;
+}
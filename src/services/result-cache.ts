@@ -0,0 +1,104 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Result cache service
+ * Feature: 025-result-cache
+ *
+ * Keeps the server result of completed captures in chrome.storage.local,
+ * keyed by endpoint profile and tweet status ID, so yoinking the same tweet
+ * again (in any tab) shows the result without another POST. Entries expire
+ * after the profile's resultCacheTtlMinutes. Threads are cached apart from
+ * single tweets; batches and selection captures are never cached.
+ */
+
+import type { TweetData } from '../types/tweet-data';
+import type { CachedResult } from '../types/config';
+import { MAX_CACHED_RESULTS } from '../types/config';
+import { extractTweetIdFromUrl } from '../utils/url-builder';
+import { createStorageLock } from '../utils/storage-lock';
+
+const STORAGE_KEY = 'tweetyoink_result_cache';
+
+// Fan-out completes several results at once; serialize cache updates
+const withCacheLock = createStorageLock();
+
+/**
+ * Build the cache key of a capture
+ * @param tweetData - Captured tweet data
+ * @param profileId - Endpoint profile the capture is sent to
+ * @returns Cache key, or null if the capture can't be cached
+ */
+export function getResultCacheKey(tweetData: TweetData, profileId: string): string | null {
+  if (tweetData.batch || tweetData.selectionOnly) {
+    return null;
+  }
+
+  const tweetId = extractTweetIdFromUrl(tweetData.url);
+  if (!tweetId) {
+    return null;
+  }
+
+  return `${profileId}:${tweetData.thread ? 'thread' : 'tweet'}:${tweetId}`;
+}
+
+/**
+ * Get a cached result that has not expired
+ * @param cacheKey - Key from getResultCacheKey
+ * @param ttlMinutes - Cache lifetime of the profile (0 disables the cache)
+ */
+export async function getCachedResult(cacheKey: string, ttlMinutes: number): Promise<CachedResult | null> {
+  if (ttlMinutes <= 0) {
+    return null;
+  }
+
+  const cache = await getCache();
+  const entry = cache[cacheKey];
+
+  if (!entry || Date.now() - entry.cachedAt > ttlMinutes * 60_000) {
+    return null;
+  }
+
+  return entry;
+}
+
+/**
+ * Store the result of a completed capture, replacing an older one
+ * @param cacheKey - Key from getResultCacheKey
+ * @param result - Server result
+ */
+export function cacheResult(cacheKey: string, result: unknown): Promise<void> {
+  return withCacheLock(async () => {
+    const cache = await getCache();
+    cache[cacheKey] = { result, cachedAt: Date.now() };
+
+    // Drop oldest results beyond the limit
+    const keys = Object.keys(cache);
+    if (keys.length > MAX_CACHED_RESULTS) {
+      keys
+        .sort((a, b) => cache[a].cachedAt - cache[b].cachedAt)
+        .slice(0, keys.length - MAX_CACHED_RESULTS)
+        .forEach(key => delete cache[key]);
+    }
+
+    await chrome.storage.local.set({ [STORAGE_KEY]: cache });
+    logger.log('[ResultCache] Result cached:', cacheKey);
+  });
+}
+
+/**
+ * Remove every cached result
+ */
+export function clearResultCache(): Promise<void> {
+  return withCacheLock(async () => {
+    await chrome.storage.local.remove(STORAGE_KEY);
+    logger.log('[ResultCache] Cache cleared');
+  });
+}
+
+/**
+ * Get all cached results keyed by cache key
+ */
+async function getCache(): Promise<Record<string, CachedResult>> {
+  const result = await chrome.storage.local.get(STORAGE_KEY);
+  return result[STORAGE_KEY] || {};
+}
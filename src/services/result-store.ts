@@ -0,0 +1,194 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Tweet result store
+ * Feature: 020-result-badges
+ *
+ * Keeps the latest capture result of each tweet in the content script, keyed
+ * by tweet status ID. X virtualizes the timeline: tweets scrolled out of view
+ * are removed from the DOM and re-created when scrolled back, so results
+ * cannot live on the article element. Inline badges read from this store
+ * when a tweet is (re-)rendered and reopen its result from here.
+ *
+ * Tweets sent in a batch (Feature 023) share the batch's result through
+ * aliases, so each selected tweet's badge shows how the batch went.
+ *
+ * The store is in-memory only; results are not kept across page reloads
+ * (the Capture History page keeps them).
+ */
+
+import type { TweetResult, OverlayTab, TweetResultStatus } from '../types/overlay';
+import type { TweetData } from '../types/tweet-data';
+import { getResultLabel } from './response-handler';
+
+/**
+ * Maximum number of tweet results kept; the least recently updated are dropped first
+ */
+const MAX_STORED_RESULTS = 200;
+
+/**
+ * Results keyed by tweet ID, in least-recently-updated order
+ */
+const results = new Map<string, TweetResult>();
+
+/**
+ * Batch member tweet IDs and the batch ID whose result they show (Feature 023)
+ */
+const aliases = new Map<string, string>();
+
+/**
+ * Listeners notified after every change
+ */
+const listeners = new Set<(result: TweetResult) => void>();
+
+/**
+ * Get the latest result of a tweet
+ */
+export function getTweetResult(tweetId: string): TweetResult | undefined {
+  return results.get(aliases.get(tweetId) ?? tweetId);
+}
+
+/**
+ * Find the result a stream is delivering; streaming overlays are keyed by stream ID (Feature 026)
+ */
+export function findStreamResult(streamId: string): TweetResult | undefined {
+  return Array.from(results.values()).find(result => result.streamId === streamId);
+}
+
+/**
+ * Replace the result of a tweet (a new capture of the same tweet starts over)
+ * @param tweetId - Status ID of the captured tweet
+ * @param result - New result
+ */
+export function setTweetResult(tweetId: string, result: Omit<TweetResult, 'tweetId' | 'updatedAt'>): void {
+  aliases.delete(tweetId);
+  saveResult({ ...result, tweetId, updatedAt: Date.now() });
+}
+
+/**
+ * Merge changes into the result of a tweet
+ * @param tweetId - Status ID of the captured tweet
+ * @param update - Changed fields
+ * @returns False if the tweet has no result
+ */
+export function updateTweetResult(
+  tweetId: string,
+  update: Partial<Omit<TweetResult, 'tweetId' | 'updatedAt'>>
+): boolean {
+  const result = results.get(tweetId);
+  if (!result) {
+    return false;
+  }
+
+  saveResult({ ...result, ...update, updatedAt: Date.now() });
+  return true;
+}
+
+/**
+ * Store a fan-out result; the badge status and label summarize the endpoint tabs (Feature 014)
+ * @param tweetId - Status ID of the captured tweet
+ * @param tabs - One tab per endpoint
+ * @param tweetData - Original capture, for export (Feature 026)
+ */
+export function setFanOutResult(tweetId: string, tabs: OverlayTab[], tweetData?: TweetData): void {
+  setTweetResult(tweetId, { ...summarizeTabs(tabs), contentItems: [], tweetData });
+}
+
+/**
+ * Merge changes into one endpoint tab of a fan-out result
+ * @param tweetId - Status ID of the captured tweet
+ * @param tabId - Endpoint profile ID of the tab
+ * @param update - Changed tab fields
+ * @returns False if the tweet has no fan-out result with this tab
+ */
+export function updateTweetResultTab(
+  tweetId: string,
+  tabId: string,
+  update: Partial<Omit<OverlayTab, 'id' | 'label'>>
+): boolean {
+  const result = results.get(tweetId);
+  if (!result?.tabs?.some(tab => tab.id === tabId)) {
+    return false;
+  }
+
+  const tabs = result.tabs.map(tab => (tab.id === tabId ? { ...tab, ...update } : tab));
+  saveResult({ ...result, ...summarizeTabs(tabs), updatedAt: Date.now() });
+  return true;
+}
+
+/**
+ * Show a batch's result on the badges of the tweets it contains (Feature 023)
+ * Replaces earlier results of those tweets; a later capture of one of them gets its own result again
+ * @param tweetIds - Status IDs of the batch members
+ * @param batchId - Batch ID the batch result is stored under
+ */
+export function setResultAliases(tweetIds: string[], batchId: string): void {
+  for (const tweetId of tweetIds) {
+    results.delete(tweetId);
+    aliases.set(tweetId, batchId);
+  }
+}
+
+/**
+ * Watch for result changes
+ * @param listener - Called with the changed result
+ */
+export function watchTweetResults(listener: (result: TweetResult) => void): void {
+  listeners.add(listener);
+}
+
+/**
+ * Save a result as the most recently updated one and notify listeners
+ */
+function saveResult(result: TweetResult): void {
+  results.delete(result.tweetId);
+  results.set(result.tweetId, result);
+
+  // Drop the least recently updated results (Map keeps insertion order)
+  while (results.size > MAX_STORED_RESULTS) {
+    const oldest = results.keys().next().value as string;
+    results.delete(oldest);
+    deleteAliasesOf(oldest);
+  }
+
+  logger.debug(`[ResultStore] ${result.tweetId} is ${result.status}`);
+  listeners.forEach(listener => listener(result));
+
+  // Batch members are notified under their own tweet ID
+  for (const [alias, batchId] of aliases) {
+    if (batchId === result.tweetId) {
+      listeners.forEach(listener => listener({ ...result, tweetId: alias }));
+    }
+  }
+}
+
+/**
+ * Drop the aliases pointing to a removed batch result
+ */
+function deleteAliasesOf(batchId: string): void {
+  for (const [alias, target] of aliases) {
+    if (target === batchId) {
+      aliases.delete(alias);
+    }
+  }
+}
+
+/**
+ * Overall status and label of a fan-out: pending while any endpoint is pending,
+ * completed when at least one endpoint completed, failed otherwise
+ * Tabs are copied so later overlay updates don't change the stored result
+ */
+function summarizeTabs(tabs: OverlayTab[]): { status: TweetResultStatus; label?: string; tabs: OverlayTab[] } {
+  let status: TweetResultStatus = 'failed';
+  if (tabs.some(tab => tab.status === 'pending')) {
+    status = 'pending';
+  } else if (tabs.some(tab => tab.status === 'completed')) {
+    status = 'completed';
+  }
+
+  const label = tabs
+    .map(tab => (tab.status === 'completed' ? getResultLabel(tab.contentItems) : undefined))
+    .find(tabLabel => tabLabel !== undefined);
+
+  return { status, label, tabs: tabs.map(tab => ({ ...tab })) };
+}
@@ -0,0 +1,100 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Side panel service
+ * Feature: 032-side-panel
+ *
+ * In side panel display mode the content script hands results to the service
+ * worker, which keeps the most recent ones in chrome.storage.session (content
+ * scripts can't read it) and opens Chrome's side panel. The side panel page
+ * lists the stored results and follows their updates. A result sent to be
+ * shown takes over the panel; others (late async results) are only listed.
+ * Results are dropped when the browser closes.
+ */
+
+import type { TweetResult } from '../types/overlay';
+import { MAX_STACKED_RESULTS } from '../types/config';
+import { createStorageLock } from '../utils/storage-lock';
+
+const STORAGE_KEY = 'tweetyoink_side_panel_results';
+const SHOW_REQUEST_KEY = 'tweetyoink_side_panel_show';
+
+// Results of several tabs can arrive at once; serialize updates
+const withResultsLock = createStorageLock();
+
+/**
+ * Send a result from the content script to the side panel
+ * @param result - Result to show, or a newer version of a result already sent
+ * @param show - Open the side panel on the result and move it to the top of its list
+ */
+export async function sendToSidePanel(result: TweetResult, show: boolean): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ type: 'SIDE_PANEL_RESULT', result, show });
+  } catch (error) {
+    logger.error('[SidePanel] Service worker communication error:', error);
+  }
+}
+
+/**
+ * Open the side panel in a window (service worker)
+ * Chrome only allows this in response to a user action, so it must be called
+ * before anything is awaited in the message handler
+ * @param windowId - Window of the tab that sent the result
+ */
+export function openSidePanel(windowId: number): void {
+  chrome.sidePanel.open({ windowId }).catch((error) => {
+    logger.warn('[SidePanel] Could not open the side panel:', error);
+  });
+}
+
+/**
+ * Get the stored results, newest first
+ */
+export async function getSidePanelResults(): Promise<TweetResult[]> {
+  const result = await chrome.storage.session.get(STORAGE_KEY);
+  return result[STORAGE_KEY] || [];
+}
+
+/**
+ * Store a result for the side panel (service worker)
+ * A newer version of a stored result replaces it in place unless it is shown again
+ * @param result - Result from the content script
+ * @param show - Move the result to the top of the list
+ */
+export function addSidePanelResult(result: TweetResult, show: boolean): Promise<void> {
+  return withResultsLock(async () => {
+    const results = await getSidePanelResults();
+    const index = results.findIndex(stored => stored.tweetId === result.tweetId);
+
+    if (index !== -1 && !show) {
+      results[index] = result;
+    } else {
+      if (index !== -1) {
+        results.splice(index, 1);
+      }
+      results.unshift(result);
+    }
+
+    // The show request changes on every send, so the panel is told even if the result is unchanged
+    await chrome.storage.session.set({
+      [STORAGE_KEY]: results.slice(0, MAX_STACKED_RESULTS),
+      ...(show ? { [SHOW_REQUEST_KEY]: { tweetId: result.tweetId, requestedAt: Date.now() } } : {}),
+    });
+    logger.log('[SidePanel] Result stored:', result.tweetId, result.status);
+  });
+}
+
+/**
+ * Watch for stored result changes
+ * @param callback Called with the new results, newest first, and the tweet ID of a result sent to be shown
+ */
+export function watchSidePanelResults(callback: (results: TweetResult[], showTweetId?: string) => void): void {
+  chrome.storage.onChanged.addListener(async (changes, area) => {
+    if (area !== 'session' || !(changes[STORAGE_KEY] || changes[SHOW_REQUEST_KEY])) {
+      return;
+    }
+
+    const results = changes[STORAGE_KEY] ? changes[STORAGE_KEY].newValue || [] : await getSidePanelResults();
+    callback(results, changes[SHOW_REQUEST_KEY]?.newValue?.tweetId);
+  });
+}
@@ -0,0 +1,285 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Streaming response service
+ * Feature: 015-streaming-responses, 019-result-routing, 020-result-badges, 025-result-cache
+ *
+ * Reads POST responses sent as Server-Sent Events (text/event-stream) or
+ * newline-delimited JSON (application/x-ndjson) and relays content items to
+ * the tab that made the capture while they arrive. Servers that answer with
+ * plain JSON keep using the sync/async (polling) flow.
+ *
+ * Every relayed message is an extension API call, which keeps the service
+ * worker alive for the duration of the stream.
+ */
+
+import type { StreamOutcome } from '../types/config';
+import { STREAM_IDLE_TIMEOUT_SECONDS } from '../types/config';
+import type { TweetData } from '../types/tweet-data';
+import { getTweetId } from '../types/tweet-data';
+import { updateHistoryEntry } from './history-service';
+import { showCaptureNotification } from './notification-service';
+import { cacheResult } from './result-cache';
+
+/**
+ * Accept header sent when streaming is enabled; JSON stays acceptable for polling fallback
+ */
+export const STREAM_ACCEPT_HEADER = 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8';
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Where stream messages go and what to update when the stream ends
+ */
+export interface StreamTarget {
+  streamId: string;
+  profileId: string;
+  /** Tab that made the capture; without one the result is broadcast on completion */
+  tabId?: number;
+  /** Part of a multi-endpoint fan-out (items go to the endpoint's overlay tab) */
+  fanOut: boolean;
+  /** Capture history entry to update with the final result */
+  historyId?: string;
+  /** Captured tweet, for the notification shown when the tab is gone (Feature 019) */
+  tweetData?: TweetData;
+  /** Result cache entry to fill in when the stream completes (Feature 025) */
+  cacheKey?: string;
+}
+
+/**
+ * Detect a streaming response from its Content-Type
+ * @returns Stream format, or null for regular JSON responses
+ */
+export function getStreamFormat(response: Response): StreamFormat | null {
+  const contentType = response.headers.get('Content-Type')?.toLowerCase() ?? '';
+
+  if (contentType.startsWith('text/event-stream')) {
+    return 'sse';
+  }
+  if (contentType.startsWith('application/x-ndjson') || contentType.startsWith('application/ndjson')) {
+    return 'ndjson';
+  }
+  return null;
+}
+
+/**
+ * Relay a streaming response to its target tab, then record the outcome
+ * Runs in the background - the POST has already been answered with a streaming response
+ *
+ * Messages sent to the tab:
+ * - STREAM_ITEMS { streamId, profileId, tweetId, fanOut, items } for every chunk of content items
+ * - STREAM_END { streamId, profileId, tweetId, fanOut, status, error? } once the stream finishes
+ *
+ * tweetId is the captured tweet's status ID, used to update its result badge (Feature 020)
+ */
+export async function relayResponseStream(
+  response: Response,
+  format: StreamFormat,
+  target: StreamTarget
+): Promise<void> {
+  const { streamId, profileId, tabId, fanOut } = target;
+  const tweetId = target.tweetData ? getTweetId(target.tweetData) : undefined;
+  logger.log(`[StreamService] Streaming ${format} response:`, streamId);
+
+  const outcome = await readResponseStream(response, format, (items) => {
+    sendToTab(tabId, { type: 'STREAM_ITEMS', streamId, profileId, tweetId, fanOut, items });
+  });
+
+  logger.log(`[StreamService] Stream ${streamId} ${outcome.status} with ${outcome.result.length} items`);
+  const delivered = await sendToTab(tabId, {
+    type: 'STREAM_END', streamId, profileId, tweetId, fanOut, status: outcome.status, error: outcome.error,
+  });
+
+  // No originating tab (queue retry, history page) or it was closed: notify instead (Feature 019)
+  if (!delivered) {
+    await showCaptureNotification(target.tweetData, { status: outcome.status, error: outcome.error });
+  }
+
+  if (target.cacheKey && outcome.status === 'completed') {
+    try {
+      await cacheResult(target.cacheKey, outcome.result);
+    } catch (error) {
+      logger.warn('[StreamService] Failed to cache result:', error);
+    }
+  }
+
+  if (target.historyId) {
+    try {
+      await updateHistoryEntry(target.historyId, {
+        status: outcome.status,
+        result: outcome.result,
+        error: outcome.error,
+      });
+    } catch (error) {
+      logger.warn('[StreamService] Failed to update capture history:', error);
+    }
+  }
+}
+
+/**
+ * Read a streaming response to the end
+ *
+ * Each SSE event (`data:` lines) or NDJSON line is a JSON value:
+ * - a content item or an array of content items
+ * - `{ "status": "completed" }` to finish (optionally with a final `result` array)
+ * - `{ "status": "failed", "error": { code, message } }` to abort
+ * SSE servers can use `event: done` / `event: error` instead of the status field.
+ * A stream that simply closes counts as completed; one that stalls fails as interrupted.
+ *
+ * @param onItems - Called with each chunk of content items as it arrives
+ * @param idleTimeoutMs - Longest wait for the next chunk
+ */
+export async function readResponseStream(
+  response: Response,
+  format: StreamFormat,
+  onItems: (items: unknown[]) => void,
+  idleTimeoutMs = STREAM_IDLE_TIMEOUT_SECONDS * 1000
+): Promise<StreamOutcome> {
+  const result: unknown[] = [];
+
+  if (!response.body) {
+    return { status: 'completed', result };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let sseEvent = { name: '', data: [] as string[] };
+  let outcome: StreamOutcome | null = null;
+
+  // Handle one parsed JSON value; returns final outcome when the stream is finished
+  const handlePayload = (payload: unknown, eventName: string): StreamOutcome | null => {
+    const value = payload as Record<string, unknown> | null;
+
+    if (eventName === 'error' || value?.status === 'failed' || value?.status === 'error') {
+      const error = (value?.error ?? value) as { code?: string; message?: string } | null;
+      return {
+        status: 'failed',
+        result,
+        error: { code: error?.code || 'STREAM_ERROR', message: error?.message || 'Server reported a streaming error' },
+      };
+    }
+
+    if (eventName === 'done' || value?.status === 'completed') {
+      if (Array.isArray(value?.result)) {
+        result.push(...value.result);
+        onItems(value.result);
+      }
+      return { status: 'completed', result };
+    }
+
+    const items = Array.isArray(payload) ? payload : [payload];
+    result.push(...items);
+    onItems(items);
+    return null;
+  };
+
+  const handleData = (data: string, eventName: string): StreamOutcome | null => {
+    if (!data.trim()) {
+      return eventName === 'done' ? { status: 'completed', result } : null;
+    }
+    try {
+      return handlePayload(JSON.parse(data), eventName);
+    } catch {
+      logger.warn('[StreamService] Skipping malformed stream chunk');
+      return null;
+    }
+  };
+
+  const handleLine = (line: string): StreamOutcome | null => {
+    if (format === 'ndjson') {
+      return handleData(line, '');
+    }
+
+    // SSE: blank line dispatches the event, ':' starts a comment
+    if (line === '') {
+      const event = sseEvent;
+      sseEvent = { name: '', data: [] };
+      return event.data.length > 0 || event.name ? handleData(event.data.join('\n'), event.name) : null;
+    }
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'data') {
+      sseEvent.data.push(fieldValue);
+    } else if (field === 'event') {
+      sseEvent.name = fieldValue;
+    }
+    return null;
+  };
+
+  try {
+    while (!outcome) {
+      const { done, value } = await readChunk(reader, idleTimeoutMs);
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        outcome = handleLine(line);
+        if (outcome) {
+          break;
+        }
+      }
+
+      if (done) {
+        // Flush a final SSE event that was not followed by a blank line
+        outcome = outcome ?? (format === 'sse' ? handleLine('') : null) ?? { status: 'completed', result };
+      }
+    }
+  } catch (error) {
+    logger.error('[StreamService] Stream interrupted:', error);
+    const message = (error as Error).name === 'TimeoutError'
+      ? `No data received for ${Math.round(idleTimeoutMs / 1000)} seconds`
+      : 'Connection lost while receiving results';
+    return { status: 'failed', result, error: { code: 'STREAM_INTERRUPTED', message } };
+  } finally {
+    reader.cancel().catch(() => {
+      // Stream already closed
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Read the next chunk of a stream, failing with a TimeoutError if none arrives in time
+ */
+async function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new DOMException('Stream idle', 'TimeoutError')), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Send a message to the capturing tab's content script
+ * @returns False if there is no such tab or it was closed or navigated away
+ */
+async function sendToTab(tabId: number | undefined, message: Record<string, unknown>): Promise<boolean> {
+  if (tabId === undefined) {
+    return false;
+  }
+
+  try {
+    await chrome.tabs.sendMessage(tabId, message);
+    return true;
+  } catch {
+    return false;
+  }
+}
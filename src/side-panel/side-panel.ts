@@ -0,0 +1,127 @@
+/**
+ * Side panel page logic
+ * Feature: 032-side-panel, 033-x-theme, 034-shadow-root
+ *
+ * Shows results sent from X tabs in side panel display mode, newest first,
+ * using the docked overlay with its recent results strip. Results follow
+ * their updates (progress, streamed items, fan-out tabs) but are read-only
+ * here: Retry, Cancel and Re-analyze stay on the tweet's badge in the page.
+ */
+
+import { logger } from '../utils/logger';
+import { getSidePanelResults, watchSidePanelResults } from '../services/side-panel-service';
+import { getEmptyStateMessage } from '../services/response-handler';
+import {
+  showOverlay,
+  showEmptyStateOverlay,
+  showTabbedOverlay,
+  showStreamingOverlay,
+  showProgressOverlay,
+  showErrorOverlay,
+  setOverlayDisplayMode,
+  setOverlayExportSource,
+  setOverlayStackHandler,
+  setOverlayResultStack,
+  getOverlayState,
+} from '../ui/overlay-manager';
+import { getOverlayRoot, addOverlayStyles } from '../ui/overlay-renderer';
+import { initializeSystemTheme } from '../ui/theme';
+import panelOverlayStyles from './side-panel-overlay.css?inline';
+import type { TweetResult } from '../types/overlay';
+
+let results: TweetResult[] = [];
+
+// Result shown in the panel, to follow its updates
+let shown: { tweetId: string; updatedAt: number } | null = null;
+
+// Show a stored result in the docked overlay, keeping the scroll position when it is re-rendered
+function showResult(result: TweetResult) {
+  const isUpdate = shown?.tweetId === result.tweetId;
+  const scrollTop = isUpdate ? getOverlayRoot().querySelector('.tweetyoink-overlay-content')?.scrollTop ?? 0 : 0;
+  const { tweetId } = result;
+
+  if (result.tabs) {
+    showTabbedOverlay(result.tabs, tweetId);
+  } else if (result.status === 'failed') {
+    showErrorOverlay(result.error ?? { code: 'FAILED', message: result.message || 'Unknown error occurred' }, tweetId);
+  } else if (result.status === 'pending' && result.progress) {
+    showProgressOverlay(result.progress, tweetId);
+  } else if (result.status === 'pending' && result.streamId) {
+    showStreamingOverlay(result.contentItems, tweetId, result.debugItems);
+  } else if (result.contentItems.length > 0) {
+    showOverlay(result.contentItems, tweetId, result.debugItems);
+  } else {
+    showEmptyStateOverlay(result.message || getEmptyStateMessage('empty-array'), tweetId);
+  }
+
+  shown = { tweetId, updatedAt: result.updatedAt };
+
+  const contentArea = getOverlayRoot().querySelector('.tweetyoink-overlay-content');
+  if (contentArea && scrollTop) {
+    contentArea.scrollTop = scrollTop;
+  }
+}
+
+// Show a result picked from the recent results strip
+function showStackedResult(tweetId: string): boolean {
+  const result = results.find(stored => stored.tweetId === tweetId);
+  if (!result) {
+    return false;
+  }
+
+  showResult(result);
+  return true;
+}
+
+// Take over the stored results: a result sent to be shown is shown, the shown one follows its updates,
+// and late results join the strip unless nothing is open
+function handleResultsChange(updated: TweetResult[], showTweetId?: string) {
+  const previousFirst = results[0]?.tweetId;
+  results = updated;
+  setOverlayResultStack(results.map(result => result.tweetId));
+  document.getElementById('show-latest')!.hidden = results.length === 0;
+
+  const requested = results.find(result => result.tweetId === showTweetId);
+  if (requested) {
+    logger.log('[TweetYoink SidePanel] Showing result:', requested.tweetId);
+    showResult(requested);
+    return;
+  }
+
+  const [first] = results;
+  if (!getOverlayState()?.isVisible) {
+    if (first && first.tweetId !== previousFirst) {
+      logger.log('[TweetYoink SidePanel] New result:', first.tweetId);
+      showResult(first);
+    }
+    return;
+  }
+
+  const current = results.find(result => result.tweetId === shown?.tweetId);
+  if (current && current.updatedAt !== shown?.updatedAt) {
+    showResult(current);
+  }
+}
+
+// Event listeners
+document.getElementById('show-latest')!.addEventListener('click', () => {
+  if (results.length > 0) {
+    showResult(results[0]);
+  }
+});
+
+// The panel has no X theme to match; overlays follow the system color scheme (Feature 033)
+initializeSystemTheme();
+
+// Results fill the panel; the strip switches between recent results
+setOverlayDisplayMode('docked');
+addOverlayStyles(panelOverlayStyles);
+setOverlayStackHandler(showStackedResult);
+setOverlayExportSource(id => results.find(result => result.tweetId === id)?.tweetData);
+
+watchSidePanelResults(handleResultsChange);
+
+// Load results on page load
+document.addEventListener('DOMContentLoaded', async () => {
+  handleResultsChange(await getSidePanelResults());
+});
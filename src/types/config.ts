@@ -3,6 +3,8 @@
  * Feature: 003-config-endpoint
  */
 
+import type { TweetData } from './tweet-data';
+
 // Configuration constants
 export const MIN_POLLING_INTERVAL_SECONDS = 2;
 export const SUCCESS_MESSAGE_DISPLAY_DURATION_MS = 5000;
@@ -13,6 +15,10 @@ export interface ExtensionConfig {
   pollingMaxDurationSeconds: number;
   postTimeoutSeconds: number;
   enablePolling: boolean;
+  /** Accept streaming (SSE/NDJSON) responses; servers answering JSON fall back to polling (Feature 015) */
+  enableStreaming: boolean;
+  /** Minutes a server result is reused when the same tweet is yoinked again, 0 to always re-send (Feature 025) */
+  resultCacheTtlMinutes: number;
 }
 
 export const DEFAULT_CONFIG: ExtensionConfig = {
@@ -21,6 +27,8 @@ export const DEFAULT_CONFIG: ExtensionConfig = {
   pollingMaxDurationSeconds: 300,
   postTimeoutSeconds: 30,
   enablePolling: true,
+  enableStreaming: true,
+  resultCacheTtlMinutes: 60,
 };
 
 export interface HeaderEntry {
@@ -59,6 +67,18 @@ export interface PollableRequest {
   message?: string;
   result?: unknown;
   error?: { code: string; message: string };
+  /** Capture history entry updated when polling finishes (Feature 012) */
+  historyId?: string;
+  /** Endpoint profile that accepted the request; polled with its URL and headers (Feature 013) */
+  profileId?: string;
+  /** Original capture, re-submitted when the user retries a failed request (Feature 017) */
+  tweetData?: TweetData;
+  /** Tab that made the capture; results are delivered only there (Feature 019) */
+  tabId?: number;
+  /** Other tabs that yoinked the same tweet while the request was pending; they receive its results too (Feature 025) */
+  mergedTabIds?: number[];
+  /** Result cache entry filled in when the request completes (Feature 025) */
+  cacheKey?: string;
 }
 
 export function createPollableRequest(
@@ -79,10 +99,13 @@ export function createPollableRequest(
 }
 
 // Response types from POST endpoint
+// 'streaming' is produced by the service worker when the server streams its result (Feature 015)
+// cachedAt is set by the service worker when a completed result comes from the result cache (Feature 025)
 export type PostResponse =
-  | { status: 'completed'; result: unknown }
+  | { status: 'completed'; result: unknown; cachedAt?: number }
   | { status: 'pending' | 'processing'; requestId: string; estimatedDuration?: number; message?: string }
-  | { status: 'failed' | 'error'; error: { code: string; message: string } };
+  | { status: 'failed' | 'error'; error: { code: string; message: string } }
+  | { status: 'streaming'; streamId: string };
 
 export function isAsyncResponse(
   response: PostResponse
@@ -96,6 +119,12 @@ export function isSynchronousResponse(
   return response.status === 'completed';
 }
 
+export function isStreamingResponse(
+  response: PostResponse
+): response is Extract<PostResponse, { status: 'streaming' }> {
+  return response.status === 'streaming';
+}
+
 export function isErrorResponse(
   response: PostResponse
 ): response is Extract<PostResponse, { status: 'failed' | 'error' }> {
@@ -124,3 +153,248 @@ export interface PollingStatusResponse {
   result?: unknown;
   error?: { code: string; message: string };
 }
+
+/**
+ * Progress of a polled request, sent to content scripts as ASYNC_PROGRESS (Feature 016)
+ */
+export interface AsyncProgressUpdate {
+  status: 'pending' | 'processing';
+  progress?: number;
+  message?: string;
+}
+
+// ============================================================================
+// Offline Capture Queue (Feature: 011-offline-queue)
+// ============================================================================
+
+/** First retry delay for a queued capture; doubles on every failed attempt */
+export const QUEUE_RETRY_BASE_DELAY_SECONDS = 30;
+
+/** Upper bound for the retry backoff */
+export const QUEUE_RETRY_MAX_DELAY_SECONDS = 1800;
+
+/** Maximum captures kept in the queue (oldest are dropped first) */
+export const MAX_QUEUED_CAPTURES = 50;
+
+/**
+ * Capture that could not reach the endpoint and waits for a retry
+ */
+export interface QueuedCapture {
+  id: string;
+  tweetData: TweetData;
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string;
+  /** Capture history entry to update once delivered (Feature 012) */
+  historyId?: string;
+  /** Endpoint profile the capture was sent to (Feature 013) */
+  profileId?: string;
+}
+
+/**
+ * Compute retry delay for a queued capture with exponential backoff
+ * @param attempts - Number of attempts already made
+ */
+export function getQueueRetryDelayMs(attempts: number): number {
+  const delaySeconds = Math.min(
+    QUEUE_RETRY_BASE_DELAY_SECONDS * Math.pow(2, attempts),
+    QUEUE_RETRY_MAX_DELAY_SECONDS
+  );
+  return delaySeconds * 1000;
+}
+
+// ============================================================================
+// Endpoint Profiles (Feature: 013-endpoint-profiles)
+// ============================================================================
+
+/** ID of the profile created from pre-profile (single endpoint) settings */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Named endpoint configuration with its own custom headers
+ */
+export interface EndpointProfile extends ExtensionConfig {
+  id: string;
+  name: string;
+  headers: HeaderEntry[];
+}
+
+/**
+ * All endpoint profiles plus the one captures are currently sent to
+ */
+export interface ProfileStore {
+  activeProfileId: string;
+  profiles: EndpointProfile[];
+  /**
+   * Profiles every capture is sent to in parallel (Feature 014)
+   * Fan-out applies with two or more profiles; otherwise captures go to the active profile
+   */
+  fanOutProfileIds?: string[];
+}
+
+/**
+ * Create a profile with default settings
+ * @param name - Display name
+ * @param id - Profile ID (generated when omitted)
+ */
+export function createEndpointProfile(name: string, id?: string): EndpointProfile {
+  return {
+    ...DEFAULT_CONFIG,
+    id: id ?? `profile_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    headers: [],
+  };
+}
+
+/**
+ * Strip profile identity and headers, leaving the endpoint settings
+ */
+export function toExtensionConfig(profile: EndpointProfile): ExtensionConfig {
+  return {
+    endpointUrl: profile.endpointUrl,
+    pollingIntervalSeconds: profile.pollingIntervalSeconds,
+    pollingMaxDurationSeconds: profile.pollingMaxDurationSeconds,
+    postTimeoutSeconds: profile.postTimeoutSeconds,
+    enablePolling: profile.enablePolling,
+    enableStreaming: profile.enableStreaming,
+    resultCacheTtlMinutes: profile.resultCacheTtlMinutes,
+  };
+}
+
+// ============================================================================
+// Streaming Responses (Feature: 015-streaming-responses)
+// ============================================================================
+
+/**
+ * Final state of a streamed response
+ */
+export interface StreamOutcome {
+  status: 'completed' | 'failed';
+  /** Every content item received, in order */
+  result: unknown[];
+  error?: { code: string; message: string };
+}
+
+/** A stream that sends nothing (not even an SSE comment) for this long is ended as interrupted */
+export const STREAM_IDLE_TIMEOUT_SECONDS = 120;
+
+// ============================================================================
+// Result Cache (Feature: 025-result-cache)
+// ============================================================================
+
+/** Upper bound for the cache lifetime (one week) */
+export const MAX_RESULT_CACHE_TTL_MINUTES = 10080;
+
+/** Maximum results kept in the cache (oldest are dropped first) */
+export const MAX_CACHED_RESULTS = 100;
+
+/**
+ * Server result of a completed capture, reused when the same tweet is yoinked again
+ */
+export interface CachedResult {
+  result: unknown;
+  cachedAt: number;
+}
+
+// ============================================================================
+// Auto-Capture Rules (Feature: 024-auto-capture)
+// ============================================================================
+
+/** Default limit of automatic captures per minute */
+export const DEFAULT_AUTO_CAPTURES_PER_MINUTE = 10;
+
+/** Upper bound for the per-minute limit */
+export const MAX_AUTO_CAPTURES_PER_MINUTE = 60;
+
+/**
+ * Tweet kinds a rule can be limited to; "original" is a tweet that is none of the others
+ */
+export type AutoCaptureTweetType = 'original' | 'reply' | 'retweet' | 'quote';
+
+/**
+ * Filter that automatically captures matching tweets as they render
+ * Every condition that is set must match; empty lists and zero minimums match any tweet
+ */
+export interface AutoCaptureRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Author handles without @ (case-insensitive) */
+  authors: string[];
+  /** Text must contain at least one keyword (case-insensitive) */
+  keywords: string[];
+  /** Regular expression tested against the text (case-insensitive), empty for none */
+  textPattern: string;
+  /** Minimum engagement; unknown metrics count as 0 */
+  minLikes: number;
+  minRetweets: number;
+  minReplies: number;
+  minViews: number;
+  /** Tweet kinds to capture */
+  tweetTypes: AutoCaptureTweetType[];
+}
+
+/**
+ * Auto-capture rules and rate limit, shared by all endpoint profiles
+ */
+export interface AutoCaptureSettings {
+  enabled: boolean;
+  rules: AutoCaptureRule[];
+  /** Automatic captures sent per minute at most; further matches wait their turn */
+  maxCapturesPerMinute: number;
+}
+
+export const DEFAULT_AUTO_CAPTURE_SETTINGS: AutoCaptureSettings = {
+  enabled: false,
+  rules: [],
+  maxCapturesPerMinute: DEFAULT_AUTO_CAPTURES_PER_MINUTE,
+};
+
+/**
+ * Create an enabled rule that matches every tweet until conditions are added
+ * @param name - Display name
+ */
+export function createAutoCaptureRule(name: string): AutoCaptureRule {
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    enabled: true,
+    authors: [],
+    keywords: [],
+    textPattern: '',
+    minLikes: 0,
+    minRetweets: 0,
+    minReplies: 0,
+    minViews: 0,
+    tweetTypes: [],
+  };
+}
+
+// ============================================================================
+// Result Display (Feature: 032-side-panel)
+// ============================================================================
+
+/**
+ * Where results are shown
+ * - modal: overlay over the timeline with a backdrop (default)
+ * - docked: panel at the right edge of the page; X stays scrollable behind it
+ * - side-panel: Chrome's side panel, outside the page
+ */
+export type DisplayMode = 'modal' | 'docked' | 'side-panel';
+
+export const DISPLAY_MODES: DisplayMode[] = ['modal', 'docked', 'side-panel'];
+
+/**
+ * Result display settings, shared by all endpoint profiles
+ */
+export interface DisplaySettings {
+  mode: DisplayMode;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  mode: 'modal',
+};
+
+/** Recent results kept in the stack of the docked panel and the side panel */
+export const MAX_STACKED_RESULTS = 10;
@@ -0,0 +1,47 @@
+/**
+ * Export types
+ * Feature: 026-result-export
+ */
+
+import type { TweetData } from './tweet-data';
+import type { ResponseContentItem } from './overlay';
+
+/**
+ * File formats captures can be exported to
+ * - json: array of raw TweetData, one per capture (even for a single capture)
+ * - ndjson: one { tweetData, results } line per capture, for pipelines
+ * - csv: one flattened row per capture
+ * - markdown: readable report with the rendered result items
+ */
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'markdown';
+
+/**
+ * Menu label, file extension and MIME type of each export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'Tweet data (JSON)', extension: 'json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown report', extension: 'md', mimeType: 'text/markdown' },
+};
+
+/**
+ * Result items of one endpoint; fan-out captures have one section per endpoint
+ */
+export interface ExportSection {
+  /** Endpoint profile name (fan-out only) */
+  label?: string;
+  contentItems: ResponseContentItem[];
+}
+
+/**
+ * One capture with its result, as written to an export file
+ */
+export interface ExportRecord {
+  tweetData: TweetData;
+  sections: ExportSection[];
+  /** When the capture was made (timestamp); defaults to the extraction time */
+  capturedAt?: number;
+  /** Capture status from history, e.g. completed or failed */
+  status?: string;
+}
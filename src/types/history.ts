@@ -0,0 +1,89 @@
+/**
+ * Capture history types
+ * Feature: 012-capture-history
+ */
+
+import type { TweetData } from './tweet-data';
+
+/**
+ * Maximum number of captures kept in history (oldest are dropped first)
+ * Entries hold whole threads, batches and results, so the manifest asks for unlimitedStorage
+ */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * Lifecycle of a recorded capture
+ * - pending: waiting for the server (sync POST in flight or async polling)
+ * - queued: endpoint unreachable, waiting in the offline queue
+ * - completed: server returned a final result
+ * - failed: POST or async processing failed
+ */
+export type HistoryStatus = 'pending' | 'queued' | 'completed' | 'failed';
+
+export interface CaptureHistoryEntry {
+  id: string;
+  tweetData: TweetData;
+  capturedAt: number;
+  updatedAt: number;
+  status: HistoryStatus;
+  /** Endpoint profile the capture was sent to (Feature 013) */
+  profileId?: string;
+  profileName?: string;
+  /** Async request ID, when the server answered with a pending response */
+  requestId?: string;
+  /** Final server result (content items array for overlay display) */
+  result?: unknown;
+  error?: { code: string; message: string };
+}
+
+export interface HistoryFilter {
+  /** Free text matched against tweet text, author handle and display name */
+  query?: string;
+  /** Author handle (with or without @) */
+  handle?: string;
+  /** Inclusive lower bound for capture date (timestamp, ms) */
+  from?: number;
+  /** Inclusive upper bound for capture date (timestamp, ms) */
+  to?: number;
+}
+
+/**
+ * Check whether a history entry matches the search filter
+ */
+export function matchesHistoryFilter(entry: CaptureHistoryEntry, filter: HistoryFilter): boolean {
+  const { tweetData } = entry;
+
+  if (filter.handle) {
+    const handle = filter.handle.trim().replace(/^@/, '').toLowerCase();
+    if (handle && (tweetData.author.handle ?? '').toLowerCase() !== handle) {
+      return false;
+    }
+  }
+
+  if (filter.query) {
+    const query = filter.query.trim().toLowerCase();
+    const haystack = [
+      tweetData.text,
+      tweetData.author.handle,
+      tweetData.author.displayName,
+      ...(tweetData.thread ?? []).map(t => t.text),
+    ]
+      .filter((value): value is string => typeof value === 'string')
+      .join('\n')
+      .toLowerCase();
+
+    if (query && !haystack.includes(query)) {
+      return false;
+    }
+  }
+
+  if (filter.from !== undefined && entry.capturedAt < filter.from) {
+    return false;
+  }
+
+  if (filter.to !== undefined && entry.capturedAt > filter.to) {
+    return false;
+  }
+
+  return true;
+}
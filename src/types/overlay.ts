@@ -3,14 +3,16 @@
  * Feature: 004-response-overlay
  */
 
+import type { TweetData } from './tweet-data';
+
 export interface ResponseContentItem {
-  /** Content type identifier (Feature 008: added 'debug' type) */
-  type: 'text' | 'image' | 'debug' | 'link' | string;
+  /** Content type identifier (Feature 008: added 'debug' type, Feature 028: 'markdown', Feature 030: widgets) */
+  type: 'text' | 'image' | 'debug' | 'link' | 'markdown' | WidgetContentType | string;
 
   /**
    * Content payload to display
-   * - string for text/image/link types
-   * - object for debug type (Feature 008)
+   * - string for text/image/link/markdown types
+   * - object for debug type (Feature 008) and widget types (Feature 030)
    */
   content: string | object;
 
@@ -26,6 +28,12 @@ export interface ResponseContentItem {
     /** @deprecated Use top-level title field instead (Feature 008) */
     title?: string;
     timestamp?: string;
+    /** 'markdown' renders a text item as Markdown (Feature 028) */
+    format?: string;
+    /** Collapsible section the item is shown in (Feature 031) */
+    group?: string;
+    /** Open the item's section initially (Feature 031) */
+    expanded?: boolean;
     [key: string]: unknown;
   };
 }
@@ -42,6 +50,21 @@ export interface OverlayState {
 
   /** When overlay was created (for debugging) */
   createdAt: number; // timestamp
+
+  /** Per-endpoint tabs for fan-out results (Feature 014) */
+  tabs?: OverlayTab[];
+
+  /** Currently selected tab ID (Feature 014) */
+  activeTabId?: string;
+
+  /** Whether more streamed items are expected (Feature 015) */
+  streaming?: boolean;
+
+  /** Async request progress while waiting for the result (Feature 016) */
+  progress?: OverlayProgress;
+
+  /** Failure shown instead of content (Feature 017) */
+  error?: OverlayError;
 }
 
 export interface OverlayConfig {
@@ -59,6 +82,9 @@ export interface OverlayConfig {
 
   /** Backdrop opacity (0-1) */
   backdropOpacity: number;
+
+  /** Dock the overlay at the right edge of the page, without a backdrop (Feature 032) */
+  docked: boolean;
 }
 
 export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
@@ -67,6 +93,7 @@ export const DEFAULT_OVERLAY_CONFIG: OverlayConfig = {
   animationDurationMs: 200,
   zIndex: 10001,
   backdropOpacity: 0.5,
+  docked: false,
 };
 
 /**
@@ -245,13 +272,280 @@ export function isDebugJsonContentItem(
 
 /**
  * Validate that content structure is appropriate for content type
- * - debug type requires object content
+ * - debug and widget types (Feature 030) require object content
  * - other types require string content
  */
 export function isValidContentItem(item: ResponseContentItem): boolean {
-  if (item.type === 'debug') {
+  if (item.type === 'debug' || isWidgetContentType(item.type)) {
     return typeof item.content === 'object';
   }
   // For text, image, link types, content should be string
   return typeof item.content === 'string';
 }
+
+// ============================================================================
+// Endpoint Tabs (Feature: 014-multi-endpoint-fan-out)
+// ============================================================================
+
+/**
+ * State of one endpoint's result within a fan-out
+ */
+export type OverlayTabStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * One endpoint's result shown as an overlay tab
+ */
+export interface OverlayTab {
+  /** Endpoint profile ID */
+  id: string;
+
+  /** Endpoint profile name */
+  label: string;
+
+  status: OverlayTabStatus;
+
+  /** Content items to display (empty while pending or on failure) */
+  contentItems: ResponseContentItem[];
+
+  /** Debug blocks (Feature 005) */
+  debugItems?: DebugContentItem[];
+
+  /** Shown when there are no content items (progress, empty state or error) */
+  message?: string;
+}
+
+// ============================================================================
+// Async Progress (Feature: 016-async-progress)
+// ============================================================================
+
+/**
+ * Progress of an async request, shown while the service worker polls for the result
+ */
+export interface OverlayProgress {
+  /** Async request shown; progress updates are routed by it (Feature 019) */
+  requestId: string;
+
+  /** Server-side request status */
+  status: 'pending' | 'processing';
+
+  /** Server-reported progress from 0.0 to 1.0 (indeterminate bar when absent) */
+  progress?: number;
+
+  /** Human-readable status message from the server */
+  message?: string;
+
+  /** Server's estimate from the initial async response, in seconds */
+  estimatedDuration?: number;
+
+  /** When the request was accepted (timestamp, for the remaining-time estimate) */
+  startedAt: number;
+}
+
+// ============================================================================
+// Async Failures (Feature: 017-async-failure-retry)
+// ============================================================================
+
+/**
+ * Error reported by the server (or a polling timeout) for an async request
+ */
+export interface OverlayError {
+  /** Machine-readable error code, e.g. POLLING_TIMEOUT */
+  code: string;
+
+  /** Human-readable error message */
+  message: string;
+}
+
+// ============================================================================
+// Result Badges (Feature: 020-result-badges)
+// ============================================================================
+
+/**
+ * State of a tweet's latest capture, shown by its inline badge
+ */
+export type TweetResultStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * Latest capture result of a tweet, kept by tweet ID so its badge and overlay
+ * survive X re-rendering (or recycling) the tweet's article element
+ */
+export interface TweetResult {
+  /** Status ID of the captured tweet */
+  tweetId: string;
+
+  status: TweetResultStatus;
+
+  /** Short server-provided label shown on the badge, e.g. a score */
+  label?: string;
+
+  /** Content items received so far */
+  contentItems: ResponseContentItem[];
+
+  /** Debug blocks (Feature 005) */
+  debugItems?: DebugContentItem[];
+
+  /** Shown when there are no content items (empty state or pending status) */
+  message?: string;
+
+  /** Per-endpoint results of a fan-out capture (Feature 014) */
+  tabs?: OverlayTab[];
+
+  /** Progress of the async request while it is pending (Feature 016) */
+  progress?: OverlayProgress;
+
+  /** Stream delivering the result, so a reopened overlay keeps receiving items (Feature 015) */
+  streamId?: string;
+
+  /** Failure of the capture (Feature 017) */
+  error?: OverlayError;
+
+  /** Original capture and endpoint profile, for Retry on a failed result */
+  tweetData?: TweetData;
+  profileId?: string;
+
+  /** When the result last changed (timestamp) */
+  updatedAt: number;
+}
+
+// ============================================================================
+// Copy Actions (Feature: 027-copy-actions)
+// ============================================================================
+
+/**
+ * Header copy actions of a result overlay
+ * - markdown: the whole result as Markdown
+ * - tweet-json: the captured TweetData as pretty-printed JSON
+ */
+export type OverlayCopyAction = 'markdown' | 'tweet-json';
+
+// ============================================================================
+// Markdown Content (Feature: 028-markdown-content)
+// ============================================================================
+
+/**
+ * Check if an item is rendered as Markdown
+ * Either type='markdown', or type='text' with metadata.format='markdown'
+ */
+export function isMarkdownContentItem(item: ResponseContentItem): boolean {
+  return typeof item.content === 'string'
+    && (item.type === 'markdown' || (item.type === 'text' && item.metadata?.format === 'markdown'));
+}
+
+// ============================================================================
+// Result Widgets (Feature: 030-result-widgets)
+// ============================================================================
+
+/**
+ * Structured content types drawn as widgets; their content is an object
+ */
+export type WidgetContentType = 'score' | 'verdict' | 'table' | 'list' | 'bar-chart';
+
+export const WIDGET_CONTENT_TYPES: WidgetContentType[] = ['score', 'verdict', 'table', 'list', 'bar-chart'];
+
+/**
+ * type='score': a value within a range, drawn as a gauge
+ */
+export interface ScoreContent {
+  value: number;
+
+  /** Range of the gauge (default 0-100) */
+  min?: number;
+  max?: number;
+
+  /** What is scored, e.g. "Credibility" */
+  label?: string;
+
+  /** Shown after the value, e.g. "%" */
+  unit?: string;
+}
+
+/**
+ * Color of a verdict badge
+ */
+export type VerdictLevel = 'positive' | 'negative' | 'mixed' | 'neutral' | 'unknown';
+
+export const VERDICT_LEVELS: VerdictLevel[] = ['positive', 'negative', 'mixed', 'neutral', 'unknown'];
+
+/**
+ * type='verdict': a colored badge with the reasoning behind it
+ */
+export interface VerdictContent {
+  /** Badge text, e.g. "Mostly false" */
+  verdict: string;
+
+  /** Badge color (default unknown) */
+  level?: VerdictLevel;
+
+  reasoning?: string;
+
+  /** Confidence from 0.0 to 1.0 */
+  confidence?: number;
+}
+
+/**
+ * type='table': rows of cells below a header row
+ */
+export interface TableContent {
+  columns: string[];
+  rows: Array<Array<string | number | boolean | null>>;
+}
+
+/**
+ * type='list': bulleted or numbered list of plain text entries
+ */
+export interface ListContent {
+  items: string[];
+  ordered?: boolean;
+}
+
+/**
+ * type='bar-chart': horizontal bars, one per labeled value
+ */
+export interface BarChartContent {
+  bars: Array<{ label: string; value: number }>;
+
+  /** Value of a full-width bar (default: the largest value) */
+  max?: number;
+
+  /** Shown after each value, e.g. "%" */
+  unit?: string;
+}
+
+/**
+ * Check if a content type is a widget type
+ */
+export function isWidgetContentType(type: string): type is WidgetContentType {
+  return (WIDGET_CONTENT_TYPES as string[]).includes(type);
+}
+
+// ============================================================================
+// Result Sections (Feature: 031-result-sections)
+// ============================================================================
+
+/**
+ * Get the section an item is grouped into (metadata.group)
+ *
+ * @returns Trimmed group name, or undefined for ungrouped items
+ */
+export function getItemGroup(item: ResponseContentItem): string | undefined {
+  const group = item.metadata?.group;
+  return typeof group === 'string' && group.trim() ? group.trim() : undefined;
+}
+
+// ============================================================================
+// Result Stack (Feature: 032-side-panel)
+// ============================================================================
+
+/**
+ * Recent result in the stack of a docked overlay or the side panel
+ */
+export interface OverlayStackEntry {
+  /** Associated tweet ID of the result's overlay */
+  id: string;
+
+  /** Short name, e.g. the author handle */
+  label: string;
+
+  /** Longer description shown as tooltip, e.g. the start of the tweet text */
+  description?: string;
+}
@@ -105,6 +105,16 @@ export interface TweetData {
   // Parent/quoted tweet (recursive)
   parent: TweetData | null;
 
+  // Full self-reply thread in reading order, including this tweet (thread captures only)
+  thread?: TweetData[];
+
+  // True for "Yoink selection" captures: text holds only the highlighted passage (Feature 022)
+  selectionOnly?: boolean;
+
+  // Bulk capture of several selected tweets (batch captures only, Feature 023)
+  // Top-level fields describe the first tweet; sent to the server as a TweetBatchRequest
+  batch?: TweetBatch;
+
   // Extraction quality metadata
   metadata: ExtractionMetadata;
 }
@@ -204,3 +214,69 @@ export function isExtractionSuccess(
 ): result is ExtractionResult & { data: TweetData } {
   return result.success && result.data !== null;
 }
+
+/**
+ * Get the tweet's status ID from its URL (Feature 019)
+ * Falls back to author handle and timestamp when the URL has no status ID
+ * Batch captures are identified by their batch ID (Feature 023)
+ */
+export function getTweetId(tweetData: TweetData): string {
+  if (tweetData.batch) {
+    return tweetData.batch.batchId;
+  }
+
+  const match = tweetData.url.match(/\/status(?:es)?\/(\d+)/);
+  if (match) {
+    return match[1];
+  }
+  return `${tweetData.author.handle || 'unknown'}_${tweetData.timestamp || Date.now()}`;
+}
+
+// ============================================================================
+// Batch Capture (Feature: 023-batch-capture)
+// ============================================================================
+
+/**
+ * Tweets selected together in selection mode
+ */
+export interface TweetBatch {
+  batchId: string;      // Unique ID (e.g., "batch_1730394123_abc123x")
+  tweets: TweetData[];  // Selected tweets in selection order
+}
+
+/**
+ * Request body POSTed for a batch capture (see api-contract.yaml)
+ */
+export interface TweetBatchRequest extends TweetBatch {
+  capturedAt: string;   // ISO 8601 timestamp of the batch
+}
+
+/**
+ * Combine selected tweets into one capture
+ * The capture flows through history, the offline queue and polling like a single tweet
+ * @param tweets - Selected tweets in selection order (at least one)
+ * @returns TweetData of the first tweet carrying the whole batch
+ */
+export function createBatchCapture(tweets: TweetData[]): TweetData {
+  const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  return {
+    ...tweets[0],
+    metadata: { ...tweets[0].metadata, capturedAt: new Date().toISOString() },
+    batch: { batchId, tweets },
+  };
+}
+
+/**
+ * Get the JSON body POSTed for a capture: the TweetData itself, or a TweetBatchRequest for batches
+ */
+export function getCaptureRequestBody(tweetData: TweetData): TweetData | TweetBatchRequest {
+  if (!tweetData.batch) {
+    return tweetData;
+  }
+
+  return {
+    batchId: tweetData.batch.batchId,
+    capturedAt: tweetData.metadata.capturedAt,
+    tweets: tweetData.batch.tweets,
+  };
+}
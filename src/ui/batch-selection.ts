@@ -0,0 +1,219 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Multi-select batch capture
+ * Feature: 023-batch-capture
+ *
+ * Shift+click on a Yoink button enters selection mode: every Yoink button
+ * becomes a checkbox and a floating action bar sends the selected tweets
+ * together as one batch request. Tweets are extracted when they are selected,
+ * since X removes tweets scrolled out of view from the DOM before the batch
+ * is sent. Selection mode ends when the batch is sent or cancelled (Escape).
+ */
+
+import type { TweetData } from '../types/tweet-data';
+import { isExtractionSuccess } from '../types/tweet-data';
+import { extractTweetData } from '../extractors/tweet-extractor';
+import { setButtonSelectable, showButtonError, getYoinkButtonHost, findYoinkButtons } from './yoink-button';
+import { hasOverlayKeyFocus } from './overlay-manager';
+import { mountOverlayElement } from './overlay-renderer';
+
+/**
+ * Maximum number of tweets in one batch
+ */
+export const MAX_BATCH_SIZE = 50;
+
+/**
+ * Data attribute holding the tweet ID of a selectable Yoink button
+ */
+const SELECTION_ATTRIBUTE = 'data-yoink-tweet';
+
+/**
+ * Selected tweets keyed by tweet ID, in selection order
+ */
+const selectedTweets = new Map<string, TweetData>();
+
+/**
+ * Selection mode state
+ */
+let selecting = false;
+let actionBar: HTMLElement | null = null;
+let sendHandler: ((tweets: TweetData[]) => void) | null = null;
+
+/**
+ * Sets up batch sending
+ * @param onSend - Sends the selected tweets (in selection order)
+ */
+export function initializeBatchSelection(onSend: (tweets: TweetData[]) => void): void {
+  sendHandler = onSend;
+
+  document.addEventListener('keydown', (event) => {
+    // The open overlay closes on Escape first
+    if (event.key === 'Escape' && selecting && !hasOverlayKeyFocus()) {
+      stopBatchSelection();
+    }
+  });
+
+  logger.log('[TweetYoink] Batch selection initialized');
+}
+
+/**
+ * Checks whether selection mode is on
+ */
+export function isBatchSelecting(): boolean {
+  return selecting;
+}
+
+/**
+ * Registers an injected Yoink button, showing it as a checkbox while selection mode is on
+ * @param button - Single-tweet Yoink button
+ * @param tweetId - Status ID of its tweet
+ */
+export function syncSelectionButton(button: HTMLButtonElement, tweetId: string): void {
+  getYoinkButtonHost(button).setAttribute(SELECTION_ATTRIBUTE, tweetId);
+  if (selecting) {
+    setButtonSelectable(button, true, selectedTweets.has(tweetId));
+  }
+}
+
+/**
+ * Selects or deselects a tweet, entering selection mode on the first selection
+ * @param tweetArticle - The tweet article element
+ * @param button - The tweet's Yoink button
+ */
+export function toggleTweetSelection(tweetArticle: Element, button: HTMLButtonElement): void {
+  const tweetId = getYoinkButtonHost(button).getAttribute(SELECTION_ATTRIBUTE);
+  if (!tweetId) {
+    logger.warn('[TweetYoink] Tweet without status ID cannot be selected');
+    showButtonError(button);
+    return;
+  }
+
+  if (!selecting) {
+    startBatchSelection();
+  }
+
+  if (selectedTweets.has(tweetId)) {
+    selectedTweets.delete(tweetId);
+  } else if (selectedTweets.size >= MAX_BATCH_SIZE) {
+    logger.warn(`[TweetYoink] Batch limit of ${MAX_BATCH_SIZE} tweets reached`);
+    showButtonError(button);
+    return;
+  } else {
+    const result = extractTweetData(tweetArticle);
+    if (!isExtractionSuccess(result)) {
+      logger.error('[TweetYoink] Extraction failed for batch selection:', result.error);
+      showButtonError(button);
+      return;
+    }
+    selectedTweets.set(tweetId, result.data);
+  }
+
+  refreshSelectionButtons(tweetId);
+  if (actionBar) {
+    renderActionBar(actionBar);
+  }
+}
+
+/**
+ * Leaves selection mode, dropping the selection
+ */
+export function stopBatchSelection(): void {
+  if (!selecting) {
+    return;
+  }
+
+  selecting = false;
+  selectedTweets.clear();
+  actionBar?.remove();
+  actionBar = null;
+  refreshSelectionButtons();
+  logger.log('[TweetYoink] Selection mode ended');
+}
+
+/**
+ * Enters selection mode: buttons become checkboxes and the action bar appears
+ */
+function startBatchSelection(): void {
+  selecting = true;
+  actionBar = createActionBar();
+  // Shares the overlay's shadow root and stylesheet (Feature 034)
+  mountOverlayElement(actionBar);
+  refreshSelectionButtons();
+  logger.log('[TweetYoink] Selection mode started');
+}
+
+/**
+ * Sends the selection and leaves selection mode
+ */
+function sendSelection(): void {
+  const tweets = Array.from(selectedTweets.values());
+  if (tweets.length === 0) {
+    return;
+  }
+
+  stopBatchSelection();
+  sendHandler?.(tweets);
+}
+
+/**
+ * Updates the checkbox state of rendered Yoink buttons
+ * @param tweetId - Only update the buttons of this tweet (all buttons when omitted)
+ */
+function refreshSelectionButtons(tweetId?: string): void {
+  const selector = tweetId
+    ? `[${SELECTION_ATTRIBUTE}="${CSS.escape(tweetId)}"]`
+    : `[${SELECTION_ATTRIBUTE}]`;
+
+  // The attribute is on the buttons' hosts (Feature 034)
+  findYoinkButtons(document, selector).forEach((button) => {
+    const id = getYoinkButtonHost(button).getAttribute(SELECTION_ATTRIBUTE) as string;
+    setButtonSelectable(button, selecting, selectedTweets.has(id));
+  });
+}
+
+/**
+ * Creates the floating action bar
+ * Structure: toolbar > count, Send batch, Cancel
+ */
+function createActionBar(): HTMLElement {
+  const bar = document.createElement('div');
+  bar.className = 'tweetyoink-overlay-batch-bar';
+  bar.setAttribute('role', 'toolbar');
+  bar.setAttribute('aria-label', 'TweetYoink batch capture');
+
+  const count = document.createElement('span');
+  count.className = 'tweetyoink-overlay-batch-count';
+  count.setAttribute('aria-live', 'polite');
+
+  const sendButton = document.createElement('button');
+  sendButton.type = 'button';
+  sendButton.className = 'tweetyoink-overlay-batch-send';
+  sendButton.textContent = 'Send batch';
+  sendButton.addEventListener('click', sendSelection);
+
+  const cancelButton = document.createElement('button');
+  cancelButton.type = 'button';
+  cancelButton.className = 'tweetyoink-overlay-batch-cancel';
+  cancelButton.textContent = 'Cancel';
+  cancelButton.addEventListener('click', stopBatchSelection);
+
+  bar.append(count, sendButton, cancelButton);
+  renderActionBar(bar);
+  return bar;
+}
+
+/**
+ * Renders the selection count and enables sending once a tweet is selected
+ */
+function renderActionBar(bar: HTMLElement): void {
+  const count = bar.querySelector('.tweetyoink-overlay-batch-count');
+  const sendButton = bar.querySelector<HTMLButtonElement>('.tweetyoink-overlay-batch-send');
+
+  if (count) {
+    count.textContent = selectedTweets.size === 1 ? '1 tweet selected' : `${selectedTweets.size} tweets selected`;
+  }
+  if (sendButton) {
+    sendButton.disabled = selectedTweets.size === 0;
+  }
+}
@@ -11,10 +11,33 @@ import { logger } from '../utils/logger';
  * 3. Traverse up to find action bar container
  * 4. Inject Yoink button as first child (leftmost position)
  * 5. Mark processed tweets with data attribute for efficient skipping
+ * 6. On status pages, add a "Yoink thread" button to the focal tweet (Feature 010)
+ * 7. Add the tweet's result badge after the Yoink buttons (Feature 020)
+ * 8. Shift+click or selection mode turns the Yoink button into a batch checkbox (Feature 023)
+ * 9. Hand every processed tweet to the auto-capture rules (Feature 024)
  */
 
-import { createYoinkButton } from './yoink-button';
+import { createYoinkButton, getYoinkButtonHost } from './yoink-button';
+import { createResultBadge } from './result-badge';
+import { isBatchSelecting, syncSelectionButton, toggleTweetSelection } from './batch-selection';
 import { MUTATION_OBSERVER_THROTTLE_MS } from './constants';
+import { extractTweetUrl } from '../extractors/url-extractor';
+import { extractTweetIdFromStatusPath } from '../utils/url-builder';
+
+/**
+ * Click handler signature shared by the Yoink and Yoink thread buttons
+ */
+export type YoinkClickHandler = (tweetElement: Element, button: HTMLButtonElement) => void;
+
+/**
+ * Click handler signature of the result badge (Feature 020)
+ */
+export type ResultBadgeClickHandler = (tweetId: string) => void;
+
+/**
+ * Handler called for every tweet that got its Yoink button (Feature 024)
+ */
+export type TweetRenderHandler = (tweetElement: Element, tweetId: string | null) => void;
 
 /**
  * Data attribute used to mark tweets that have been processed
@@ -28,15 +51,40 @@ const PROCESSED_MARKER = 'data-tweetyoink-processed';
 let throttleTimeout: number | null = null;
 let pendingMutations: MutationRecord[] = [];
 
+/**
+ * Optional handler for the "Yoink thread" button (Feature 010)
+ */
+let onYoinkThreadClick: YoinkClickHandler | null = null;
+
+/**
+ * Optional handler for result badges (Feature 020)
+ */
+let onResultBadgeClick: ResultBadgeClickHandler | null = null;
+
+/**
+ * Optional handler for processed tweets (Feature 024)
+ */
+let onTweetRendered: TweetRenderHandler | null = null;
+
 /**
  * Initializes the button injector with MutationObserver and interval-based retry
  * @param onYoinkClick - Callback function when Yoink button is clicked
+ * @param onThreadClick - Optional callback when Yoink thread button is clicked (Feature 010)
+ * @param onBadgeClick - Optional callback when a result badge is clicked; no badges when omitted (Feature 020)
+ * @param onTweetRender - Optional callback for every tweet that got its buttons (Feature 024)
  */
 export function initializeButtonInjector(
-  onYoinkClick: (tweetElement: Element, button: HTMLButtonElement) => void
+  onYoinkClick: YoinkClickHandler,
+  onThreadClick?: YoinkClickHandler,
+  onBadgeClick?: ResultBadgeClickHandler,
+  onTweetRender?: TweetRenderHandler
 ): void {
   logger.log('[TweetYoink] Initializing button injector');
 
+  onYoinkThreadClick = onThreadClick ?? null;
+  onResultBadgeClick = onBadgeClick ?? null;
+  onTweetRendered = onTweetRender ?? null;
+
   // Initial processing with delay to allow Twitter to render
   setTimeout(() => {
     processExistingTweets(onYoinkClick);
@@ -75,13 +123,25 @@ export function initializeButtonInjector(
   logger.log('[TweetYoink] MutationObserver initialized');
 }
 
+/**
+ * Runs the tweet render handler again for every tweet that already has its buttons
+ * Tweets processed before the auto-capture rules loaded are checked once they have (Feature 024)
+ */
+export function revisitProcessedTweets(): void {
+  if (!onTweetRendered) {
+    return;
+  }
+
+  document.querySelectorAll(`article[role="article"][${PROCESSED_MARKER}]`).forEach((tweetArticle) => {
+    onTweetRendered?.(tweetArticle, getArticleTweetId(tweetArticle));
+  });
+}
+
 /**
  * Processes existing tweets on page load
  * Uses data attribute to efficiently skip already-processed tweets
  */
-function processExistingTweets(
-  onYoinkClick: (tweetElement: Element, button: HTMLButtonElement) => void
-): void {
+function processExistingTweets(onYoinkClick: YoinkClickHandler): void {
   // Query only unprocessed tweets using NOT selector for efficiency
   const unprocessedTweets = document.querySelectorAll(`article[role="article"]:not([${PROCESSED_MARKER}])`);
 
@@ -97,9 +157,7 @@ function processExistingTweets(
 /**
  * Processes accumulated mutations in throttled batch
  */
-function processPendingMutations(
-  onYoinkClick: (tweetElement: Element, button: HTMLButtonElement) => void
-): void {
+function processPendingMutations(onYoinkClick: YoinkClickHandler): void {
   const newTweets = new Set<Element>();
 
   for (const mutation of pendingMutations) {
@@ -134,7 +192,7 @@ function processPendingMutations(
  */
 export function injectYoinkButton(
   tweetArticle: Element,
-  onYoinkClick: (tweetElement: Element, button: HTMLButtonElement) => void
+  onYoinkClick: YoinkClickHandler
 ): void {
   // Skip if already processed (check data attribute)
   if (tweetArticle.hasAttribute(PROCESSED_MARKER)) {
@@ -163,24 +221,95 @@ export function injectYoinkButton(
   }
 
   // Create Yoink button
+  const tweetId = getArticleTweetId(tweetArticle);
   const yoinkButton = createYoinkButton();
+  if (tweetId) {
+    syncSelectionButton(yoinkButton, tweetId);
+  }
 
   // Attach click handler
   yoinkButton.addEventListener('click', (event) => {
     event.stopPropagation(); // Prevent tweet navigation
     event.preventDefault();
+
+    // Shift+click starts multi-select; while selecting the button toggles the tweet (Feature 023)
+    if (event.shiftKey || isBatchSelecting()) {
+      toggleTweetSelection(tweetArticle, yoinkButton);
+      return;
+    }
+
     onYoinkClick(tweetArticle, yoinkButton);
   });
 
-  // Inject as first child (leftmost position)
+  // Inject as first child (leftmost position); the button sits in its host's shadow root (Feature 034)
+  const yoinkButtonHost = getYoinkButtonHost(yoinkButton);
   if (actionBar.firstChild) {
-    actionBar.insertBefore(yoinkButton, actionBar.firstChild);
+    actionBar.insertBefore(yoinkButtonHost, actionBar.firstChild);
   } else {
-    actionBar.appendChild(yoinkButton);
+    actionBar.appendChild(yoinkButtonHost);
+  }
+
+  // Thread button sits right after the Yoink button on the focal tweet (Feature 010)
+  let lastButtonHost = yoinkButtonHost;
+  const threadHandler = onYoinkThreadClick;
+  if (threadHandler && isFocalStatusTweet(tweetArticle)) {
+    const threadButton = createYoinkButton('thread');
+    threadButton.addEventListener('click', (event) => {
+      event.stopPropagation(); // Prevent tweet navigation
+      event.preventDefault();
+      threadHandler(tweetArticle, threadButton);
+    });
+    lastButtonHost = getYoinkButtonHost(threadButton);
+    actionBar.insertBefore(lastButtonHost, yoinkButtonHost.nextSibling);
+    logger.log('[TweetYoink] Thread button injected on focal tweet');
+  }
+
+  // Result badge follows the Yoink buttons; a re-rendered tweet gets its stored result back (Feature 020)
+  const badgeHandler = onResultBadgeClick;
+  if (badgeHandler && tweetId) {
+    const badge = createResultBadge(tweetId);
+    badge.addEventListener('click', (event) => {
+      event.stopPropagation(); // Prevent tweet navigation
+      event.preventDefault();
+      badgeHandler(tweetId);
+    });
+    actionBar.insertBefore(badge, lastButtonHost.nextSibling);
   }
 
   logger.log('[TweetYoink] Button injected successfully');
   // Marker stays on element to prevent future processing
+
+  // Tweet is fully rendered once its action bar is (Feature 024)
+  onTweetRendered?.(tweetArticle, tweetId);
+}
+
+/**
+ * Checks whether the article is the tweet opened on the current status page
+ * Feature: 010-thread-capture
+ * @param tweetArticle - The tweet article element
+ * @returns True if the page is /{handle}/status/{id} and the article is that tweet
+ */
+function isFocalStatusTweet(tweetArticle: Element): boolean {
+  const pageTweetId = extractTweetIdFromStatusPath(window.location.pathname);
+  if (!pageTweetId) {
+    return false;
+  }
+
+  return getArticleTweetId(tweetArticle) === pageTweetId;
+}
+
+/**
+ * Gets the status ID of a tweet article from its permalink
+ * @param tweetArticle - The tweet article element
+ * @returns Tweet status ID, or null if the permalink has not rendered
+ */
+export function getArticleTweetId(tweetArticle: Element): string | null {
+  const articleUrl = extractTweetUrl(tweetArticle);
+  if (!articleUrl) {
+    return null;
+  }
+
+  return extractTweetIdFromStatusPath(new URL(articleUrl).pathname);
 }
 
 /**
@@ -1,6 +1,6 @@
 /**
  * UI constants for TweetYoink extension
- * Feature: 002-post-view-yoink
+ * Feature: 002-post-view-yoink, 033-x-theme
  */
 
 /**
@@ -18,11 +18,63 @@ export const ERROR_DISPLAY_DURATION_MS = 2000;
 export const MUTATION_OBSERVER_THROTTLE_MS = 200;
 
 /**
- * X/Twitter color scheme constants (from research.md)
+ * X display themes: Default, Dim and Lights Out (Feature 033)
  */
-export const COLORS = {
-  DEFAULT_GRAY: 'rgb(113, 118, 123)',
-  HOVER_BLUE: 'rgb(29, 155, 240)',
-  HOVER_BG: 'rgba(29, 155, 240, 0.1)',
-  ERROR_RED: 'rgb(249, 24, 128)',
+export type XTheme = 'light' | 'dim' | 'lights-out';
+
+export type ThemeColor = 'DEFAULT_GRAY' | 'HOVER_BLUE' | 'HOVER_BG' | 'ERROR_RED' | 'QUEUED_AMBER' | 'SUCCESS_GREEN';
+
+/**
+ * X/Twitter color scheme constants (from research.md), per X theme
+ * Only the gray of idle icons differs; the accent colors are shared.
+ */
+export const THEME_COLORS: Record<XTheme, Record<ThemeColor, string>> = {
+  light: {
+    DEFAULT_GRAY: 'rgb(83, 100, 113)',
+    HOVER_BLUE: 'rgb(29, 155, 240)',
+    HOVER_BG: 'rgba(29, 155, 240, 0.1)',
+    ERROR_RED: 'rgb(249, 24, 128)',
+    QUEUED_AMBER: 'rgb(255, 173, 31)',
+    SUCCESS_GREEN: 'rgb(0, 186, 124)',
+  },
+  dim: {
+    DEFAULT_GRAY: 'rgb(139, 152, 165)',
+    HOVER_BLUE: 'rgb(29, 155, 240)',
+    HOVER_BG: 'rgba(29, 155, 240, 0.1)',
+    ERROR_RED: 'rgb(249, 24, 128)',
+    QUEUED_AMBER: 'rgb(255, 173, 31)',
+    SUCCESS_GREEN: 'rgb(0, 186, 124)',
+  },
+  'lights-out': {
+    DEFAULT_GRAY: 'rgb(113, 118, 123)',
+    HOVER_BLUE: 'rgb(29, 155, 240)',
+    HOVER_BG: 'rgba(29, 155, 240, 0.1)',
+    ERROR_RED: 'rgb(249, 24, 128)',
+    QUEUED_AMBER: 'rgb(255, 173, 31)',
+    SUCCESS_GREEN: 'rgb(0, 186, 124)',
+  },
 };
+
+/**
+ * Custom property holding each theme color, set on the page by theme.ts
+ */
+export const THEME_COLOR_PROPERTIES: Record<ThemeColor, string> = {
+  DEFAULT_GRAY: '--tweetyoink-default-gray',
+  HOVER_BLUE: '--tweetyoink-hover-blue',
+  HOVER_BG: '--tweetyoink-hover-bg',
+  ERROR_RED: '--tweetyoink-error-red',
+  QUEUED_AMBER: '--tweetyoink-queued-amber',
+  SUCCESS_GREEN: '--tweetyoink-success-green',
+};
+
+/**
+ * Colors for inline styles (Yoink button, result badges)
+ * Each reads its custom property, so styled elements follow X theme switches
+ * without being restyled; the Default theme's color is the fallback.
+ */
+export const COLORS = Object.fromEntries(
+  Object.entries(THEME_COLOR_PROPERTIES).map(([name, property]) => [
+    name,
+    `var(${property}, ${THEME_COLORS.light[name as ThemeColor]})`,
+  ])
+) as Record<ThemeColor, string>;
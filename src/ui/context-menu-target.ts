@@ -0,0 +1,65 @@
+/**
+ * Resolves the tweet a context menu entry applies to
+ * Feature: 022-context-menu
+ *
+ * chrome.contextMenus clicks only report the page, link and selection, so the
+ * element under the pointer is recorded on every contextmenu event.
+ */
+
+import { getArticleTweetId } from './button-injector';
+import { extractTweetIdFromStatusPath } from '../utils/url-builder';
+
+const TWEET_SELECTOR = 'article[role="article"]';
+
+/**
+ * Element the context menu was last opened on
+ */
+let lastContextTarget: Element | null = null;
+
+/**
+ * Starts recording the element under the pointer when the context menu opens
+ */
+export function initializeContextMenuTracking(): void {
+  document.addEventListener('contextmenu', (event) => {
+    lastContextTarget = event.target instanceof Element ? event.target : null;
+  }, true);
+}
+
+/**
+ * Finds the tweet the context menu was opened in
+ * @returns Tweet article element or null if the click was outside any tweet
+ */
+export function findContextMenuTweet(): Element | null {
+  return lastContextTarget?.closest(TWEET_SELECTOR) ?? null;
+}
+
+/**
+ * Finds the tweet containing the current selection
+ * @returns Tweet article element or null if the selection is outside any tweet
+ */
+export function findSelectionTweet(): Element | null {
+  const anchor = window.getSelection()?.anchorNode;
+  const anchorElement = anchor instanceof Element ? anchor : anchor?.parentElement;
+  return anchorElement?.closest(TWEET_SELECTOR) ?? findContextMenuTweet();
+}
+
+/**
+ * Finds the rendered tweet a status link points to
+ * @param linkUrl - https://x.com/{handle}/status/{id} link
+ * @returns Tweet article element or null if that tweet is not in the DOM
+ */
+export function findLinkedTweet(linkUrl: string): Element | null {
+  let tweetId: string | null = null;
+  try {
+    tweetId = extractTweetIdFromStatusPath(new URL(linkUrl).pathname);
+  } catch {
+    return null;
+  }
+
+  if (!tweetId) {
+    return null;
+  }
+
+  return Array.from(document.querySelectorAll(TWEET_SELECTOR))
+    .find(article => getArticleTweetId(article) === tweetId) ?? null;
+}
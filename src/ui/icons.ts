@@ -22,13 +22,47 @@ export const yoinkIcon = `
 </svg>
 `.trim();
 
+/**
+ * Yoink thread button icon SVG (Feature 010)
+ * Capture frame with stacked lines representing consecutive tweets
+ */
+export const yoinkThreadIcon = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <path d="M8 3H5a2 2 0 0 0-2 2v3"/>
+  <path d="M21 8V5a2 2 0 0 0-2-2h-3"/>
+  <path d="M16 21h3a2 2 0 0 0 2-2v-3"/>
+  <path d="M3 16v3a2 2 0 0 0 2 2h3"/>
+  <path d="M8 9h8"/>
+  <path d="M8 12h8"/>
+  <path d="M8 15h5"/>
+</svg>
+`.trim();
+
+/**
+ * Selection mode checkbox icons (Feature 023)
+ * Capture frame drawn as an empty box, and with a check mark once selected
+ */
+export const yoinkSelectIcon = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <rect x="4" y="4" width="16" height="16" rx="3"/>
+</svg>
+`.trim();
+
+export const yoinkSelectedIcon = `
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <rect x="4" y="4" width="16" height="16" rx="3" fill="currentColor" fill-opacity="0.15"/>
+  <path d="M8 12l3 3 5-6"/>
+</svg>
+`.trim();
+
 /**
  * Creates the Yoink icon element as HTMLElement for injection
+ * @param svgMarkup - Icon SVG markup (defaults to the single-tweet Yoink icon)
  * @returns SVG element with proper dimensions and styling
  */
-export function createYoinkIconElement(): SVGSVGElement {
+export function createYoinkIconElement(svgMarkup: string = yoinkIcon): SVGSVGElement {
   const parser = new DOMParser();
-  const doc = parser.parseFromString(yoinkIcon, 'image/svg+xml');
+  const doc = parser.parseFromString(svgMarkup, 'image/svg+xml');
   const svgElement = doc.documentElement as unknown as SVGSVGElement;
 
   // Set dimensions to match X/Twitter action button icons
@@ -0,0 +1,89 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Keyboard shortcuts for capturing without the mouse
+ * Feature: 021-keyboard-shortcuts
+ *
+ * Two sources trigger the same commands:
+ * - chrome.commands (manifest "commands", configurable at chrome://extensions/shortcuts),
+ *   forwarded by the service worker as SHORTCUT_COMMAND messages
+ * - Single-key in-page shortcuts, in the style of X's own j/k navigation:
+ *   y yoinks the focused tweet, Shift+Y its thread (focal tweet of a status page)
+ *
+ * Overlay keys (tabs, items, copy) are handled by the overlay manager while it is open.
+ */
+
+import { hasOverlayKeyFocus } from './overlay-manager';
+
+/**
+ * Commands declared in manifest.json "commands"
+ */
+export type ShortcutCommand = 'yoink-focused-tweet' | 'yoink-focused-thread' | 'copy-result';
+
+/**
+ * In-page keys and the command they run
+ */
+const IN_PAGE_SHORTCUTS: Record<string, ShortcutCommand> = {
+  y: 'yoink-focused-tweet',
+  Y: 'yoink-focused-thread',
+};
+
+const TWEET_SELECTOR = 'article[role="article"]';
+
+/**
+ * Starts listening for in-page shortcut keys
+ * @param onCommand - Runs a shortcut command
+ */
+export function initializeKeyboardShortcuts(onCommand: (command: ShortcutCommand) => void): void {
+  document.addEventListener('keydown', (event) => {
+    const command = IN_PAGE_SHORTCUTS[event.key];
+    if (!command || event.ctrlKey || event.metaKey || event.altKey || event.repeat) {
+      return;
+    }
+
+    // Typing in the composer, search or DMs; the open overlay has its own keys (a docked one only while focused)
+    if (isEditableTarget(event.target) || hasOverlayKeyFocus()) {
+      return;
+    }
+
+    event.preventDefault();
+    logger.log('[TweetYoink] Shortcut key:', event.key, command);
+    onCommand(command);
+  });
+
+  logger.log('[TweetYoink] Keyboard shortcuts initialized');
+}
+
+/**
+ * Finds the tweet the user is on
+ * X's j/k navigation focuses the tweet article; without a focused tweet
+ * the topmost tweet reaching the upper half of the viewport is used
+ * @returns Tweet article element or null
+ */
+export function findFocusedTweet(): Element | null {
+  const focused = document.activeElement?.closest(TWEET_SELECTOR);
+  if (focused) {
+    return focused;
+  }
+
+  const articles = Array.from(document.querySelectorAll(TWEET_SELECTOR));
+  return articles.find((article) => {
+    const rect = article.getBoundingClientRect();
+    return rect.bottom > 0 && rect.top < window.innerHeight / 2;
+  }) ?? null;
+}
+
+/**
+ * Checks whether a key event target accepts text input
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  return target.isContentEditable
+    || target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || target.getAttribute('role') === 'textbox';
+}
@@ -0,0 +1,369 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Markdown Renderer
+ * Feature: 028-markdown-content
+ *
+ * Renders the Markdown subset servers use for analysis text: headings,
+ * emphasis, inline code, fenced code blocks, blockquotes, lists, rules and
+ * links. Markdown is turned into DOM nodes directly and every piece of server
+ * text is set via textContent, so raw HTML in the source is shown as text,
+ * never parsed. Links are limited to http, https and mailto URLs, and link
+ * text is never linkified again, so links can't nest.
+ *
+ * Unlike CommonMark, single line breaks inside a paragraph are kept, matching
+ * how plain text items are displayed.
+ */
+
+/**
+ * Blockquotes and lists nested deeper than this are shown as plain paragraphs
+ */
+const MAX_NESTING_DEPTH = 8;
+
+/**
+ * URL schemes links may use; anything else is rendered as plain text
+ */
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+/**
+ * Render Markdown as DOM nodes
+ *
+ * @param markdown - Markdown source from the server
+ * @returns Fragment with the rendered blocks
+ */
+export function renderMarkdown(markdown: string): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  renderBlocks(lines, 0).forEach(block => fragment.appendChild(block));
+  return fragment;
+}
+
+/**
+ * Render block-level elements (paragraphs, headings, lists, ...)
+ */
+function renderBlocks(lines: string[], depth: number): HTMLElement[] {
+  const blocks: HTMLElement[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    // Fenced code block, up to the closing fence (or the end of the text)
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push(renderCodeBlock(codeLines.join('\n')));
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push(renderHeading(heading[1].length, heading[2] ?? ''));
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push(document.createElement('hr'));
+      index++;
+      continue;
+    }
+
+    if (depth < MAX_NESTING_DEPTH && BLOCKQUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && BLOCKQUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push(lines[index].replace(BLOCKQUOTE_PATTERN, ''));
+        index++;
+      }
+
+      const blockquote = document.createElement('blockquote');
+      renderBlocks(quoteLines, depth + 1).forEach(block => blockquote.appendChild(block));
+      blocks.push(blockquote);
+      continue;
+    }
+
+    if (depth < MAX_NESTING_DEPTH && LIST_ITEM_PATTERN.test(line)) {
+      const list = renderList(lines, index, depth);
+      blocks.push(list.element);
+      index = list.nextIndex;
+      continue;
+    }
+
+    // Paragraph: every line up to a blank line or the start of another block
+    const paragraphLines = [line.trim()];
+    index++;
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines[index], depth)) {
+      paragraphLines.push(lines[index].trim());
+      index++;
+    }
+    blocks.push(renderParagraph(paragraphLines));
+  }
+
+  return blocks;
+}
+
+/**
+ * Check whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string, depth: number): boolean {
+  return FENCE_PATTERN.test(line)
+    || HEADING_PATTERN.test(line)
+    || RULE_PATTERN.test(line)
+    || (depth < MAX_NESTING_DEPTH && (BLOCKQUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line)));
+}
+
+/**
+ * Render consecutive list items of the same kind as ul or ol
+ * Lines indented below an item (including nested lists) belong to that item.
+ *
+ * @returns The list and the index of the first line after it
+ */
+function renderList(lines: string[], startIndex: number, depth: number): { element: HTMLElement; nextIndex: number } {
+  const first = LIST_ITEM_PATTERN.exec(lines[startIndex])!;
+  const ordered = /\d/.test(first[2]);
+  const list = document.createElement(ordered ? 'ol' : 'ul');
+
+  if (ordered) {
+    const start = parseInt(first[2], 10);
+    if (start !== 1) {
+      (list as HTMLOListElement).start = start;
+    }
+  }
+
+  let index = startIndex;
+  while (index < lines.length) {
+    const item = LIST_ITEM_PATTERN.exec(lines[index]);
+    if (!item || /\d/.test(item[2]) !== ordered) {
+      break;
+    }
+
+    // Item text plus its indented continuation lines, de-indented
+    const contentIndent = item[1].length + item[2].length + 1;
+    const itemLines = [item[3]];
+    index++;
+
+    while (index < lines.length) {
+      const next = lines[index];
+      if (next.trim() === '') {
+        // A blank line continues the item only if indented content follows
+        const following = lines[index + 1];
+        if (following === undefined || !/^\s{2,}\S/.test(following)) {
+          break;
+        }
+        itemLines.push('');
+      } else if (/^\s{2,}\S/.test(next)) {
+        itemLines.push(next.slice(Math.min(contentIndent, next.search(/\S/))));
+      } else if (!startsBlock(next, depth)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(next.trim());
+      } else {
+        break;
+      }
+      index++;
+    }
+
+    // Skip blank lines between items of the same list
+    let lookahead = index;
+    while (lookahead < lines.length && lines[lookahead].trim() === '') {
+      lookahead++;
+    }
+    const nextItem = LIST_ITEM_PATTERN.exec(lines[lookahead] ?? '');
+    if (lookahead > index && nextItem && /\d/.test(nextItem[2]) === ordered) {
+      index = lookahead;
+    }
+
+    const listItem = document.createElement('li');
+    renderBlocks(itemLines, depth + 1).forEach(block => listItem.appendChild(block));
+    list.appendChild(listItem);
+  }
+
+  return { element: list, nextIndex: index };
+}
+
+/**
+ * Render a heading; levels start at h3 below the overlay's h2 title
+ */
+function renderHeading(level: number, text: string): HTMLElement {
+  const heading = document.createElement(`h${Math.min(level + 2, 6)}`);
+  appendInline(heading, text);
+  return heading;
+}
+
+/**
+ * Render a paragraph, keeping its line breaks
+ */
+function renderParagraph(lines: string[]): HTMLElement {
+  const paragraph = document.createElement('p');
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      paragraph.appendChild(document.createElement('br'));
+    }
+    appendInline(paragraph, line);
+  });
+  return paragraph;
+}
+
+/**
+ * Render a fenced code block
+ */
+function renderCodeBlock(code: string): HTMLElement {
+  const pre = document.createElement('pre');
+  const codeElement = document.createElement('code');
+  codeElement.textContent = code; // XSS-safe via textContent
+  pre.appendChild(codeElement);
+  return pre;
+}
+
+/**
+ * Inline patterns, tried at each special character
+ * Each is sticky (y) so it only matches at the current position.
+ * Link patterns are skipped inside link text (inLink), which would nest anchors.
+ */
+const INLINE_PATTERNS: Array<{ pattern: RegExp; link?: boolean; render: (match: RegExpExecArray, inLink: boolean) => Node }> = [
+  // Backslash escape of a punctuation character
+  { pattern: /\\([!-/:-@[-`{-~])/y, render: match => document.createTextNode(match[1]) },
+  // `code`
+  { pattern: /(`+)([\s\S]+?)\1(?!`)/y, render: match => createInlineElement('code', match[2].trim(), false) },
+  // [label](url "optional title")
+  {
+    pattern: /\[([^\]]+)\]\(\s*<?([^\s<>()]+)>?(?:\s+"[^"]*")?\s*\)/y,
+    link: true,
+    render: match => createLink(match[2], match[1]),
+  },
+  // <https://autolink>
+  { pattern: /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y, link: true, render: match => createLink(match[1], match[1], false) },
+  // **strong** or __strong__
+  {
+    pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__(?![A-Za-z0-9])/y,
+    render: (match, inLink) => createInlineElement('strong', match[1] ?? match[2], true, inLink),
+  },
+  // *emphasis* or _emphasis_
+  {
+    pattern: /\*(?=\S)([^*]*?\S)\*|_(?=\S)([^_]*?\S)_(?![A-Za-z0-9])/y,
+    render: (match, inLink) => createInlineElement('em', match[1] ?? match[2], true, inLink),
+  },
+];
+
+/**
+ * Characters that may start an inline pattern
+ */
+const INLINE_START = /[\\`[<*_]/;
+
+/**
+ * Append text with inline formatting (emphasis, code, links) to an element
+ *
+ * @param inLink - Text of a link: no links inside it
+ */
+function appendInline(parent: HTMLElement, text: string, inLink = false): void {
+  let plain = '';
+  let index = 0;
+
+  const flushPlain = () => {
+    if (plain) {
+      parent.appendChild(document.createTextNode(plain)); // XSS-safe via text node
+      plain = '';
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    // Intraword underscores (snake_case) are not emphasis
+    const intraword = char === '_' && index > 0 && /[A-Za-z0-9]/.test(text[index - 1]);
+
+    const match = INLINE_START.test(char) && !intraword ? matchInline(text, index, inLink) : null;
+    if (match) {
+      flushPlain();
+      parent.appendChild(match.node);
+      index += match.length;
+    } else {
+      plain += char;
+      index++;
+    }
+  }
+
+  flushPlain();
+}
+
+/**
+ * Try every inline pattern at a position
+ */
+function matchInline(text: string, index: number, inLink: boolean): { node: Node; length: number } | null {
+  for (const { pattern, link, render } of INLINE_PATTERNS) {
+    if (link && inLink) {
+      continue;
+    }
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (match) {
+      return { node: render(match, inLink), length: match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Create an inline element, formatting its text unless it is code
+ */
+function createInlineElement(tagName: 'strong' | 'em' | 'code', text: string, formatted = true, inLink = false): HTMLElement {
+  const element = document.createElement(tagName);
+  if (formatted) {
+    appendInline(element, text, inLink);
+  } else {
+    element.textContent = text; // XSS-safe via textContent
+  }
+  return element;
+}
+
+/**
+ * Create a link that opens in a new tab
+ * Links with other schemes (javascript:, data:, relative URLs) are shown as their label only.
+ *
+ * @param href - Link target from the Markdown source
+ * @param label - Link text
+ * @param formatted - Format emphasis and code in the label
+ */
+function createLink(href: string, label: string, formatted = true): Node {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    logger.warn('[MarkdownRenderer] Invalid link URL, rendered as text');
+    return document.createTextNode(label);
+  }
+
+  if (!SAFE_LINK_PROTOCOLS.includes(url.protocol)) {
+    logger.warn('[MarkdownRenderer] Unsafe link scheme rejected:', url.protocol);
+    return document.createTextNode(label);
+  }
+
+  const link = document.createElement('a');
+  link.href = url.href;
+  link.target = '_blank';
+  link.rel = 'noopener noreferrer';
+  if (formatted) {
+    appendInline(link, label, true);
+  } else {
+    link.textContent = label;
+  }
+  return link;
+}
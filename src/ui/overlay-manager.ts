@@ -5,11 +5,53 @@ import { logger } from '../utils/logger';
  * Feature: 004-response-overlay
  *
  * Singleton manager for overlay lifecycle (show, hide, cleanup)
+ *
+ * One result is shown at a time; each result's state (progress, streamed
+ * items, fan-out tabs) is kept with the tweet's stored result, so any of them
+ * can be reopened. In docked mode the overlay keeps a stack of recent results
+ * to switch between, and results arriving later (async completions and
+ * failures) join the stack instead of replacing the one being read; in side
+ * panel mode results are handed to Chrome's side panel instead of being shown
+ * in the page (Feature 032).
  */
 
-import type { ResponseContentItem, DebugContentItem, OverlayState } from '../types/overlay';
+import type {
+  ResponseContentItem,
+  DebugContentItem,
+  OverlayState,
+  OverlayTab,
+  OverlayProgress,
+  OverlayError,
+  OverlayCopyAction,
+  OverlayConfig,
+  OverlayStackEntry,
+} from '../types/overlay';
 import { DEFAULT_OVERLAY_CONFIG } from '../types/overlay';
-import { renderOverlay, renderEmptyStateOverlay } from './overlay-renderer';
+import type { DisplayMode } from '../types/config';
+import { MAX_STACKED_RESULTS } from '../types/config';
+import {
+  renderOverlay,
+  renderEmptyStateOverlay,
+  renderTabbedOverlay,
+  renderTabs,
+  appendContentItems,
+  renderStreamStatus,
+  renderProgressOverlay,
+  renderProgress,
+  renderErrorOverlay,
+  renderOverlayNotice,
+  renderCachedBanner,
+  renderExportMenu,
+  setExportMenuOpen,
+  renderCopyActions,
+  revealSection,
+  renderResultStack,
+  getOverlayRoot,
+} from './overlay-renderer';
+import type { TweetData } from '../types/tweet-data';
+import { getTweetId } from '../types/tweet-data';
+import type { ExportFormat, ExportSection } from '../types/export';
+import { exportCaptures, formatMarkdownResult } from '../services/export-service';
 
 /**
  * Singleton overlay manager instance
@@ -24,6 +66,130 @@ let overlayElements: {
   container: HTMLElement;
 } | null = null;
 
+/**
+ * Retry action of the current error overlay (Feature 017)
+ */
+let retryHandler: (() => void) | null = null;
+
+/**
+ * Cancel action of the current progress overlay (Feature 018)
+ */
+let cancelHandler: (() => Promise<boolean>) | null = null;
+
+/**
+ * Re-analyze action of a cached result (Feature 025)
+ */
+let reanalyzeHandler: (() => void) | null = null;
+
+/**
+ * Looks up the capture shown by a result overlay, for export (Feature 026)
+ * No Export or Copy tweet JSON button while unset (Feature 027)
+ */
+let exportSource: ((associatedTweetId: string) => TweetData | undefined) | null = null;
+
+/**
+ * Where results are shown (Feature 032)
+ */
+let displayMode: DisplayMode = 'modal';
+
+/**
+ * Associated tweet IDs of the docked overlay's recent results, newest first (Feature 032)
+ */
+let resultStack: string[] = [];
+
+/**
+ * Reopens a result picked from the stack; returns false if it is gone (Feature 032)
+ */
+let stackSelectHandler: ((associatedTweetId: string) => boolean) | null = null;
+
+/**
+ * Hands a result to Chrome's side panel, shown there or only listed; returns false if it can't,
+ * and the page shows it (Feature 032)
+ */
+let sidePanelHandler: ((associatedTweetId: string, show: boolean) => boolean) | null = null;
+
+/**
+ * Enable the Export button on result overlays (Feature 026)
+ *
+ * @param source - Returns the captured tweet of an overlay's associated ID
+ */
+export function setOverlayExportSource(source: (associatedTweetId: string) => TweetData | undefined): void {
+  exportSource = source;
+}
+
+/**
+ * Set where results are shown (Feature 032)
+ * The open overlay is closed so the next result uses the new mode
+ *
+ * @param mode - Modal, docked or side panel
+ */
+export function setOverlayDisplayMode(mode: DisplayMode): void {
+  if (mode === displayMode) {
+    return;
+  }
+
+  logger.log('[OverlayManager] Display mode:', mode);
+  displayMode = mode;
+  closeOverlay();
+}
+
+/**
+ * Enable switching between recent results in the docked overlay (Feature 032)
+ *
+ * @param handler - Shows the result of an associated tweet ID; returns false if it is gone
+ */
+export function setOverlayStackHandler(handler: (associatedTweetId: string) => boolean): void {
+  stackSelectHandler = handler;
+}
+
+/**
+ * Replace the docked overlay's recent results, e.g. with the side panel's list (Feature 032)
+ *
+ * @param associatedTweetIds - Recent results, newest first
+ */
+export function setOverlayResultStack(associatedTweetIds: string[]): void {
+  resultStack = associatedTweetIds.slice(0, MAX_STACKED_RESULTS);
+  renderStack();
+}
+
+/**
+ * Enable side panel mode (Feature 032)
+ *
+ * @param handler - Sends the result of an associated tweet ID to the side panel, to show it or only to
+ *   list it; returns false if unknown
+ */
+export function setOverlaySidePanelHandler(handler: (associatedTweetId: string, show: boolean) => boolean): void {
+  sidePanelHandler = handler;
+}
+
+/**
+ * Keep a result that arrived later (async completion or failure) next to the one being read (Feature 032)
+ * In side panel mode it is listed in the panel without taking over; in docked mode it joins the stack
+ * while another result is open. A modal overlay, or no open overlay, shows it as usual.
+ *
+ * @param associatedTweetId - Tweet ID of the result
+ * @returns False if the result is to be shown now
+ */
+export function stackLateResult(associatedTweetId: string): boolean {
+  if (displayMode === 'side-panel') {
+    return sidePanelHandler?.(associatedTweetId, false) ?? false;
+  }
+
+  if (
+    displayMode !== 'docked' ||
+    !overlayState?.isVisible ||
+    overlayState.associatedTweetId === associatedTweetId ||
+    !exportSource?.(associatedTweetId)
+  ) {
+    return false;
+  }
+
+  logger.log('[OverlayManager] Late result added to the stack:', associatedTweetId);
+  resultStack = [associatedTweetId, ...resultStack.filter(id => id !== associatedTweetId)].slice(0, MAX_STACKED_RESULTS);
+  renderStack();
+  return true;
+}
+
 /**
  * Show overlay with content items
  *
@@ -37,6 +203,9 @@ export function showOverlay(
   debugItems?: DebugContentItem[]
 ): void {
   logger.log('[OverlayManager] Showing overlay with', contentItems.length, 'items');
+  if (forwardToSidePanel(associatedTweetId)) {
+    return;
+  }
   if (debugItems && debugItems.length > 0) {
     logger.log('[OverlayManager] Including', debugItems.length, 'debug blocks');
   }
@@ -56,11 +225,14 @@ export function showOverlay(
   };
 
   // Render overlay to DOM (pass debug items to renderer)
-  const elements = renderOverlay(contentItems, DEFAULT_OVERLAY_CONFIG, debugItems);
+  const elements = renderOverlay(contentItems, getOverlayConfig(), debugItems);
   overlayElements = elements;
 
   // Attach event listeners for dismissal
   attachEventListeners();
+  attachCopyActions();
+  attachExportMenu();
+  attachResultStack();
 
   logger.log('[OverlayManager] Overlay displayed successfully');
 }
@@ -73,6 +245,9 @@ export function showOverlay(
  */
 export function showEmptyStateOverlay(message: string, associatedTweetId: string): void {
   logger.log('[OverlayManager] Showing empty state overlay with message:', message);
+  if (forwardToSidePanel(associatedTweetId)) {
+    return;
+  }
 
   // Close existing overlay if present (singleton pattern)
   if (overlayState?.isVisible) {
@@ -89,15 +264,274 @@ export function showEmptyStateOverlay(message: string, associatedTweetId: string
   };
 
   // Render empty state overlay to DOM
-  const elements = renderEmptyStateOverlay(message, DEFAULT_OVERLAY_CONFIG);
+  const elements = renderEmptyStateOverlay(message, getOverlayConfig());
   overlayElements = elements;
 
   // Attach event listeners for dismissal
   attachEventListeners();
+  attachCopyActions();
+  attachExportMenu();
+  attachResultStack();
 
   logger.log('[OverlayManager] Empty state overlay displayed successfully');
 }
 
+/**
+ * Show overlay with one tab per endpoint (Feature 014)
+ *
+ * @param tabs - Endpoint tabs (pending tabs are filled in later via updateOverlayTab)
+ * @param associatedTweetId - Tweet ID that triggered this overlay
+ */
+export function showTabbedOverlay(tabs: OverlayTab[], associatedTweetId: string): void {
+  logger.log('[OverlayManager] Showing tabbed overlay with', tabs.length, 'tabs');
+  if (forwardToSidePanel(associatedTweetId)) {
+    return;
+  }
+
+  // Close existing overlay if present (singleton pattern)
+  if (overlayState?.isVisible) {
+    logger.log('[OverlayManager] Closing existing overlay before showing new one');
+    closeOverlay();
+  }
+
+  // Open the first endpoint that already has a result
+  const activeTabId = (tabs.find(tab => tab.status === 'completed') ?? tabs[0]).id;
+
+  overlayState = {
+    isVisible: true,
+    contentItems: [],
+    associatedTweetId,
+    createdAt: Date.now(),
+    tabs,
+    activeTabId,
+  };
+
+  overlayElements = renderTabbedOverlay(tabs, activeTabId, getOverlayConfig());
+
+  attachEventListeners();
+  attachCopyActions();
+  attachExportMenu();
+  attachResultStack();
+  overlayElements.container.addEventListener('click', handleTabClick);
+
+  logger.log('[OverlayManager] Tabbed overlay displayed successfully');
+}
+
+/**
+ * Update one endpoint tab, e.g. when its async result arrives (Feature 014)
+ *
+ * @param associatedTweetId - Tweet ID the tabbed overlay was opened for
+ * @param tabId - Endpoint tab to update
+ * @param update - New tab status and content
+ * @returns False if that overlay is no longer open
+ */
+export function updateOverlayTab(
+  associatedTweetId: string,
+  tabId: string,
+  update: Partial<Omit<OverlayTab, 'id'>>
+): boolean {
+  const tab = overlayState?.tabs?.find(t => t.id === tabId);
+
+  if (!overlayState?.isVisible || overlayState.associatedTweetId !== associatedTweetId || !tab || !overlayElements) {
+    return false;
+  }
+
+  Object.assign(tab, update);
+  renderTabs(overlayElements.container, overlayState.tabs!, overlayState.activeTabId!);
+
+  logger.log('[OverlayManager] Updated overlay tab:', tabId, tab.status);
+  return true;
+}
+
+/**
+ * Show overlay for a streaming response; more items are appended as they arrive (Feature 015)
+ *
+ * @param contentItems - Items received so far
+ * @param associatedTweetId - Stream ID used to route later items to this overlay
+ * @param debugItems - Optional debug blocks (Feature 005)
+ */
+export function showStreamingOverlay(
+  contentItems: ResponseContentItem[],
+  associatedTweetId: string,
+  debugItems?: DebugContentItem[]
+): void {
+  showOverlay(contentItems, associatedTweetId, debugItems);
+
+  if (overlayState && overlayElements) {
+    overlayState.streaming = true;
+    renderStreamStatus(overlayElements.container, 'Receiving results...');
+  }
+}
+
+/**
+ * Append streamed items to the open overlay (Feature 015)
+ *
+ * @returns False if the overlay for this stream is no longer open
+ */
+export function appendOverlayItems(
+  associatedTweetId: string,
+  contentItems: ResponseContentItem[],
+  debugItems?: DebugContentItem[]
+): boolean {
+  if (!overlayState?.isVisible || overlayState.associatedTweetId !== associatedTweetId || !overlayElements) {
+    return false;
+  }
+
+  overlayState.contentItems.push(...contentItems);
+  appendContentItems(overlayElements.container, contentItems, debugItems);
+  return true;
+}
+
+/**
+ * Mark a streaming overlay as finished (Feature 015)
+ *
+ * @param associatedTweetId - Stream ID of the overlay
+ * @param errorMessage - Shown at the end of the overlay when the stream failed
+ * @returns False if the overlay for this stream is no longer open
+ */
+export function finishStreamingOverlay(associatedTweetId: string, errorMessage?: string): boolean {
+  if (!overlayState?.isVisible || overlayState.associatedTweetId !== associatedTweetId || !overlayElements) {
+    return false;
+  }
+
+  overlayState.streaming = false;
+
+  if (errorMessage) {
+    renderStreamStatus(overlayElements.container, errorMessage, true);
+  } else if (overlayState.contentItems.length === 0) {
+    renderStreamStatus(overlayElements.container, 'No results available');
+  } else {
+    renderStreamStatus(overlayElements.container, null);
+  }
+
+  return true;
+}
+
+/**
+ * Show overlay with the progress of an async request (Feature 016)
+ * Replaced by the result overlay when the request completes
+ *
+ * @param progress - Initial request progress
+ * @param associatedTweetId - Status ID of the captured tweet (Feature 019)
+ * @param onCancel - Cancels the request, resolving false if it could not be; no Cancel button when omitted (Feature 018)
+ */
+export function showProgressOverlay(
+  progress: OverlayProgress,
+  associatedTweetId: string,
+  onCancel?: () => Promise<boolean>
+): void {
+  logger.log('[OverlayManager] Showing progress overlay for', progress.requestId);
+  if (forwardToSidePanel(associatedTweetId)) {
+    return;
+  }
+
+  // Close existing overlay if present (singleton pattern)
+  if (overlayState?.isVisible) {
+    logger.log('[OverlayManager] Closing existing overlay before showing new one');
+    closeOverlay();
+  }
+
+  overlayState = {
+    isVisible: true,
+    contentItems: [],
+    associatedTweetId,
+    createdAt: Date.now(),
+    progress,
+  };
+
+  overlayElements = renderProgressOverlay(progress, getOverlayConfig(), Boolean(onCancel));
+  cancelHandler = onCancel ?? null;
+
+  attachEventListeners();
+  attachResultStack();
+  overlayElements.container.addEventListener('click', handleCancelClick);
+
+  logger.log('[OverlayManager] Progress overlay displayed successfully');
+}
+
+/**
+ * Update the open progress overlay with the latest poll result (Feature 016)
+ *
+ * @param requestId - Async request of the overlay
+ * @param update - Changed progress fields
+ * @returns False if the progress overlay for this request is no longer open
+ */
+export function updateProgressOverlay(
+  requestId: string,
+  update: Partial<Omit<OverlayProgress, 'requestId' | 'startedAt'>>
+): boolean {
+  if (!isProgressOverlayVisible(requestId) || !overlayState?.progress || !overlayElements) {
+    return false;
+  }
+
+  Object.assign(overlayState.progress, update);
+  renderProgress(overlayElements.container, overlayState.progress);
+  return true;
+}
+
+/**
+ * Check whether the progress overlay for a request is open (Feature 016)
+ */
+export function isProgressOverlayVisible(requestId: string): boolean {
+  return Boolean(overlayState?.isVisible && overlayState.progress?.requestId === requestId);
+}
+
+/**
+ * Show overlay for a failed or timed-out async request (Feature 017)
+ *
+ * @param error - Error code and message from the server or the poller
+ * @param associatedTweetId - Request ID that failed
+ * @param onRetry - Re-submits the original capture; no Retry button when omitted
+ */
+export function showErrorOverlay(error: OverlayError, associatedTweetId: string, onRetry?: () => void): void {
+  logger.log('[OverlayManager] Showing error overlay:', error.code);
+  if (forwardToSidePanel(associatedTweetId)) {
+    return;
+  }
+
+  // Close existing overlay if present (singleton pattern)
+  if (overlayState?.isVisible) {
+    logger.log('[OverlayManager] Closing existing overlay before showing new one');
+    closeOverlay();
+  }
+
+  overlayState = {
+    isVisible: true,
+    contentItems: [],
+    associatedTweetId,
+    createdAt: Date.now(),
+    error,
+  };
+
+  overlayElements = renderErrorOverlay(error, getOverlayConfig(), Boolean(onRetry));
+  retryHandler = onRetry ?? null;
+
+  attachEventListeners();
+  attachResultStack();
+  overlayElements.container.addEventListener('click', handleRetryClick);
+
+  logger.log('[OverlayManager] Error overlay displayed successfully');
+}
+
+/**
+ * Mark the open result overlay as a cached result with a Re-analyze button (Feature 025)
+ *
+ * @param associatedTweetId - Tweet ID the overlay was opened for
+ * @param cachedAt - When the result was received from the server
+ * @param onReanalyze - Sends the capture again, bypassing the cache
+ * @returns False if the overlay for this tweet is no longer open
+ */
+export function markOverlayCached(associatedTweetId: string, cachedAt: number, onReanalyze: () => void): boolean {
+  if (!overlayState?.isVisible || overlayState.associatedTweetId !== associatedTweetId || !overlayElements) {
+    return false;
+  }
+
+  renderCachedBanner(overlayElements.container, cachedAt);
+  reanalyzeHandler = onReanalyze;
+  overlayElements.container.addEventListener('click', handleReanalyzeClick);
+  return true;
+}
+
 /**
  * Close overlay and trigger cleanup
  */
@@ -155,6 +589,9 @@ function attachEventListeners(): void {
     // ESC key dismissal (capture phase)
     document.addEventListener('keydown', handleEscapeKey, true);
 
+    // Tab, item and copy keys (Feature 021)
+    document.addEventListener('keydown', handleShortcutKey, true);
+
     // Click outside dismissal (on backdrop)
     overlayElements.backdrop.addEventListener('click', handleBackdropClick, true);
 
@@ -169,6 +606,9 @@ function attachEventListeners(): void {
     // Navigation cleanup listener
     window.addEventListener('popstate', handleNavigation, true);
 
+    // Table of contents of grouped results (Feature 031)
+    overlayElements.container.addEventListener('click', handleSectionLinkClick);
+
     logger.log('[OverlayManager] Event listeners attached');
   } catch (error) {
     logger.error('[OverlayManager] Failed to attach event listeners:', error);
@@ -183,6 +623,9 @@ function removeEventListeners(): void {
   // Remove ESC key listener
   document.removeEventListener('keydown', handleEscapeKey, true);
 
+  // Remove shortcut key listener (Feature 021)
+  document.removeEventListener('keydown', handleShortcutKey, true);
+
   // Remove backdrop click listener
   if (overlayElements?.backdrop) {
     overlayElements.backdrop.removeEventListener('click', handleBackdropClick, true);
@@ -199,6 +642,33 @@ function removeEventListeners(): void {
   // Remove navigation listener
   window.removeEventListener('popstate', handleNavigation, true);
 
+  // Remove tab selection listener (Feature 014)
+  overlayElements?.container.removeEventListener('click', handleTabClick);
+
+  // Remove retry listener (Feature 017)
+  overlayElements?.container.removeEventListener('click', handleRetryClick);
+  retryHandler = null;
+
+  // Remove cancel listener (Feature 018)
+  overlayElements?.container.removeEventListener('click', handleCancelClick);
+  cancelHandler = null;
+
+  // Remove re-analyze listener (Feature 025)
+  overlayElements?.container.removeEventListener('click', handleReanalyzeClick);
+  reanalyzeHandler = null;
+
+  // Remove export menu listener (Feature 026)
+  overlayElements?.container.removeEventListener('click', handleExportClick);
+
+  // Remove copy button listener (Feature 027)
+  overlayElements?.container.removeEventListener('click', handleCopyClick);
+
+  // Remove table of contents listener (Feature 031)
+  overlayElements?.container.removeEventListener('click', handleSectionLinkClick);
+
+  // Remove result stack listener (Feature 032)
+  overlayElements?.container.removeEventListener('click', handleStackClick);
+
   logger.log('[OverlayManager] Event listeners removed');
 }
 
@@ -206,7 +676,7 @@ function removeEventListeners(): void {
  * Handle ESC key press
  */
 function handleEscapeKey(event: KeyboardEvent): void {
-  if (event.key === 'Escape' || event.key === 'Esc') {
+  if ((event.key === 'Escape' || event.key === 'Esc') && hasOverlayKeyFocus()) {
     logger.log('[OverlayManager] ESC key pressed - closing overlay');
     event.stopPropagation();
     event.preventDefault();
@@ -214,6 +684,43 @@ function handleEscapeKey(event: KeyboardEvent): void {
   }
 }
 
+/**
+ * Handle overlay shortcut keys (Feature 021)
+ * ←/→ switch endpoint tabs, j/k move between items, c copies the result.
+ * j/k/c are swallowed while the overlay is open so X doesn't act on them behind it.
+ */
+function handleShortcutKey(event: KeyboardEvent): void {
+  if (event.ctrlKey || event.metaKey || event.altKey || !hasOverlayKeyFocus()) {
+    return;
+  }
+
+  let handled = true;
+  switch (event.key) {
+    case 'ArrowLeft':
+      handled = selectAdjacentOverlayTab(-1);
+      break;
+    case 'ArrowRight':
+      handled = selectAdjacentOverlayTab(1);
+      break;
+    case 'j':
+      focusAdjacentOverlayItem(1);
+      break;
+    case 'k':
+      focusAdjacentOverlayItem(-1);
+      break;
+    case 'c':
+      copyOverlayContent();
+      break;
+    default:
+      handled = false;
+  }
+
+  if (handled) {
+    event.stopPropagation();
+    event.preventDefault();
+  }
+}
+
 /**
  * Handle click on backdrop (outside overlay container)
  */
@@ -237,10 +744,406 @@ function handleCloseButtonClick(event: MouseEvent): void {
   closeOverlay();
 }
 
+/**
+ * Handle click on an endpoint tab (Feature 014)
+ */
+function handleTabClick(event: MouseEvent): void {
+  const tabButton = (event.target as Element).closest<HTMLElement>('[data-tab-id]');
+  if (!tabButton || !overlayState?.tabs || !overlayElements) {
+    return;
+  }
+
+  overlayState.activeTabId = tabButton.dataset.tabId;
+  renderTabs(overlayElements.container, overlayState.tabs, overlayState.activeTabId!);
+}
+
+/**
+ * Handle click on a table of contents entry (Feature 031)
+ */
+function handleSectionLinkClick(event: MouseEvent): void {
+  const link = (event.target as Element).closest<HTMLElement>('[data-section-index]');
+  if (!link || !overlayElements) {
+    return;
+  }
+
+  revealSection(overlayElements.container, Number(link.dataset.sectionIndex));
+}
+
+/**
+ * Handle click on the Retry button of an error overlay (Feature 017)
+ * The retry's result replaces this overlay
+ */
+function handleRetryClick(event: MouseEvent): void {
+  const retryButton = (event.target as Element).closest<HTMLButtonElement>('.tweetyoink-overlay-retry');
+  if (!retryButton || !retryHandler) {
+    return;
+  }
+
+  logger.log('[OverlayManager] Retry button clicked');
+  retryButton.disabled = true;
+  retryButton.textContent = 'Retrying...';
+  retryHandler();
+}
+
+/**
+ * Handle click on the Cancel button of a progress overlay (Feature 018)
+ * The overlay closes once the service worker confirms the cancellation
+ */
+function handleCancelClick(event: MouseEvent): void {
+  const cancelButton = (event.target as Element).closest<HTMLButtonElement>('.tweetyoink-overlay-cancel');
+  if (!cancelButton || !cancelHandler) {
+    return;
+  }
+
+  logger.log('[OverlayManager] Cancel button clicked');
+  cancelButton.disabled = true;
+  cancelButton.textContent = 'Cancelling...';
+
+  // A successful cancel replaces this overlay; otherwise the button comes back
+  const container = overlayElements?.container;
+  cancelHandler()
+    .catch((error) => {
+      logger.error('[OverlayManager] Cancel failed:', error);
+      return false;
+    })
+    .then((cancelled) => {
+      if (cancelled || !cancelButton.isConnected) {
+        return;
+      }
+
+      cancelButton.disabled = false;
+      cancelButton.textContent = 'Cancel';
+      if (container) {
+        renderOverlayNotice(container, 'Could not cancel - the request may have already finished', true);
+      }
+    });
+}
+
+/**
+ * Handle click on the Re-analyze button of a cached result (Feature 025)
+ * The fresh result replaces this overlay
+ */
+function handleReanalyzeClick(event: MouseEvent): void {
+  const reanalyzeButton = (event.target as Element).closest<HTMLButtonElement>('.tweetyoink-overlay-reanalyze');
+  if (!reanalyzeButton || !reanalyzeHandler) {
+    return;
+  }
+
+  logger.log('[OverlayManager] Re-analyze button clicked');
+  reanalyzeButton.disabled = true;
+  reanalyzeButton.textContent = 'Re-analyzing...';
+  reanalyzeHandler();
+}
+
+/**
+ * Add the Export button to a result overlay (Feature 026)
+ */
+function attachExportMenu(): void {
+  if (!exportSource || !overlayElements) {
+    return;
+  }
+
+  renderExportMenu(overlayElements.container);
+  overlayElements.container.addEventListener('click', handleExportClick);
+}
+
+/**
+ * Handle clicks on the Export button and its format menu (Feature 026)
+ * Any other click in the overlay closes the menu
+ */
+function handleExportClick(event: MouseEvent): void {
+  if (!overlayElements) {
+    return;
+  }
+
+  const target = event.target as Element;
+  const { container } = overlayElements;
+
+  if (target.closest('.tweetyoink-overlay-export-toggle')) {
+    const menu = container.querySelector<HTMLElement>('.tweetyoink-overlay-export-menu');
+    setExportMenuOpen(container, Boolean(menu?.hidden));
+    return;
+  }
+
+  setExportMenuOpen(container, false);
+
+  const formatItem = target.closest<HTMLElement>('[data-export-format]');
+  if (formatItem) {
+    exportOverlayResult(formatItem.dataset.exportFormat as ExportFormat);
+  }
+}
+
+/**
+ * Download the open overlay's capture and result (Feature 026)
+ * Fan-out overlays export every endpoint's result as its own section
+ *
+ * @param format - File format
+ * @returns False if the overlay's capture is unknown
+ */
+export function exportOverlayResult(format: ExportFormat): boolean {
+  if (!overlayState?.isVisible || !overlayElements) {
+    return false;
+  }
+
+  const tweetData = exportSource?.(overlayState.associatedTweetId);
+  if (!tweetData) {
+    renderOverlayNotice(overlayElements.container, 'Nothing to export', true);
+    return false;
+  }
+
+  exportCaptures([{ tweetData, sections: getOverlaySections(overlayState) }], format, `tweetyoink-${getTweetId(tweetData)}`);
+  renderOverlayNotice(overlayElements.container, 'Export downloaded');
+  return true;
+}
+
+/**
+ * Result items of an overlay; fan-out overlays have one section per endpoint tab
+ */
+function getOverlaySections(state: OverlayState): ExportSection[] {
+  return state.tabs
+    ? state.tabs.map(tab => ({ label: tab.label, contentItems: tab.contentItems }))
+    : [{ contentItems: state.contentItems }];
+}
+
+/**
+ * Add the Copy Markdown and Copy tweet JSON buttons to a result overlay (Feature 027)
+ */
+function attachCopyActions(): void {
+  if (!overlayElements) {
+    return;
+  }
+
+  renderCopyActions(overlayElements.container, exportSource !== null);
+  overlayElements.container.addEventListener('click', handleCopyClick);
+}
+
+/**
+ * Handle clicks on item copy buttons and header copy actions (Feature 027)
+ */
+function handleCopyClick(event: MouseEvent): void {
+  const target = event.target as Element;
+
+  const itemButton = target.closest<HTMLElement>('.tweetyoink-overlay-item-copy');
+  if (itemButton) {
+    writeToClipboard(itemButton.dataset.copyText ?? '');
+    return;
+  }
+
+  const actionButton = target.closest<HTMLElement>('[data-copy-action]');
+  if (actionButton) {
+    copyOverlayResult(actionButton.dataset.copyAction as OverlayCopyAction);
+  }
+}
+
+/**
+ * Copy the open overlay's whole result as Markdown, or its capture as JSON (Feature 027)
+ *
+ * @param action - What to copy
+ * @returns False if there was nothing to copy or the clipboard write failed
+ */
+export async function copyOverlayResult(action: OverlayCopyAction): Promise<boolean> {
+  if (!overlayState?.isVisible || !overlayElements) {
+    return false;
+  }
+
+  if (action === 'tweet-json') {
+    const tweetData = exportSource?.(overlayState.associatedTweetId);
+    return writeToClipboard(tweetData ? JSON.stringify(tweetData, null, 2) : '');
+  }
+
+  const sections = getOverlaySections(overlayState);
+  const hasContent = sections.some(section => section.contentItems.length > 0);
+  return writeToClipboard(hasContent ? formatMarkdownResult(sections) : '');
+}
+
+/**
+ * Select the previous or next endpoint tab of the open fan-out overlay (Feature 021)
+ *
+ * @param offset - -1 for the previous tab, 1 for the next (wraps around)
+ * @returns False if no tabbed overlay is open
+ */
+export function selectAdjacentOverlayTab(offset: number): boolean {
+  const tabs = overlayState?.tabs;
+  if (!overlayState?.isVisible || !tabs?.length || !overlayElements) {
+    return false;
+  }
+
+  const index = tabs.findIndex(tab => tab.id === overlayState!.activeTabId);
+  overlayState.activeTabId = tabs[(index + offset + tabs.length) % tabs.length].id;
+  renderTabs(overlayElements.container, tabs, overlayState.activeTabId);
+  return true;
+}
+
+/**
+ * Move focus to the previous or next content item of the open overlay (Feature 021)
+ *
+ * @param offset - -1 for the previous item, 1 for the next
+ * @returns False if the overlay has no items
+ */
+export function focusAdjacentOverlayItem(offset: number): boolean {
+  if (!overlayState?.isVisible || !overlayElements) {
+    return false;
+  }
+
+  // Items in collapsed sections can't take focus (Feature 031)
+  const items = Array.from(overlayElements.container.querySelectorAll<HTMLElement>('.tweetyoink-overlay-item'))
+    .filter(item => !item.closest('.tweetyoink-overlay-section:not([open])'));
+  if (items.length === 0) {
+    return false;
+  }
+
+  const current = items.findIndex(item => item === getOverlayRoot().activeElement);
+  const next = current === -1
+    ? (offset > 0 ? 0 : items.length - 1)
+    : Math.min(Math.max(current + offset, 0), items.length - 1);
+
+  items[next].tabIndex = -1;
+  items[next].focus({ preventScroll: true });
+  items[next].scrollIntoView({ block: 'nearest' });
+  return true;
+}
+
+/**
+ * Copy the open overlay's result as plain text (Feature 021)
+ * Copies the focused item, or everything shown in the content area
+ *
+ * @returns False if there was nothing to copy or the clipboard write failed
+ */
+export async function copyOverlayContent(): Promise<boolean> {
+  if (!overlayState?.isVisible || !overlayElements) {
+    return false;
+  }
+
+  const { container } = overlayElements;
+  const focusedItem = getOverlayRoot().activeElement?.closest<HTMLElement>('.tweetyoink-overlay-item');
+  const source = focusedItem && container.contains(focusedItem)
+    ? focusedItem
+    : container.querySelector<HTMLElement>('.tweetyoink-overlay-content');
+
+  return writeToClipboard(source?.innerText.trim() ?? '');
+}
+
+/**
+ * Write text to the clipboard and report the outcome in the overlay header
+ *
+ * @param text - Text to copy; empty text shows "Nothing to copy"
+ * @returns False if there was nothing to copy or the clipboard write failed
+ */
+async function writeToClipboard(text: string): Promise<boolean> {
+  if (!overlayElements) {
+    return false;
+  }
+
+  const { container } = overlayElements;
+  if (!text) {
+    renderOverlayNotice(container, 'Nothing to copy', true);
+    return false;
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    renderOverlayNotice(container, 'Copied to clipboard');
+    return true;
+  } catch (error) {
+    logger.warn('[OverlayManager] Failed to copy result:', error);
+    renderOverlayNotice(container, 'Copy failed', true);
+    return false;
+  }
+}
+
+/**
+ * Overlay configuration of the current display mode (Feature 032)
+ */
+function getOverlayConfig(): OverlayConfig {
+  return displayMode === 'docked' ? { ...DEFAULT_OVERLAY_CONFIG, docked: true } : DEFAULT_OVERLAY_CONFIG;
+}
+
+/**
+ * Hand a result to the side panel in side panel mode (Feature 032)
+ * An overlay still open in the page (e.g. an error shown there) is closed, as a new result would replace it
+ *
+ * @returns False if the result is to be shown in the page
+ */
+function forwardToSidePanel(associatedTweetId: string): boolean {
+  if (displayMode !== 'side-panel' || !sidePanelHandler?.(associatedTweetId, true)) {
+    return false;
+  }
+
+  logger.log('[OverlayManager] Result sent to the side panel:', associatedTweetId);
+  closeOverlay();
+  return true;
+}
+
+/**
+ * Add the shown result to the docked overlay's stack and show the stack (Feature 032)
+ * Only results whose capture is known are stacked, so every entry can be reopened and named
+ */
+function attachResultStack(): void {
+  if (displayMode !== 'docked' || !overlayState || !overlayElements) {
+    return;
+  }
+
+  const { associatedTweetId } = overlayState;
+  if (!resultStack.includes(associatedTweetId) && exportSource?.(associatedTweetId)) {
+    resultStack = [associatedTweetId, ...resultStack].slice(0, MAX_STACKED_RESULTS);
+  }
+
+  renderStack();
+  overlayElements.container.addEventListener('click', handleStackClick);
+}
+
+/**
+ * Re-render the recent results strip of the open docked overlay (Feature 032)
+ */
+function renderStack(): void {
+  if (displayMode !== 'docked' || !overlayState?.isVisible || !overlayElements) {
+    return;
+  }
+
+  renderResultStack(overlayElements.container, resultStack.map(getStackEntry), overlayState.associatedTweetId);
+}
+
+/**
+ * Name a stacked result after its capture's author (Feature 032)
+ */
+function getStackEntry(associatedTweetId: string): OverlayStackEntry {
+  const tweetData = exportSource?.(associatedTweetId);
+  const handle = tweetData?.author.handle;
+
+  return {
+    id: associatedTweetId,
+    label: handle ? `@${handle}` : 'Result',
+    description: tweetData?.text ? tweetData.text.slice(0, 140) : undefined,
+  };
+}
+
+/**
+ * Handle click on a recent result of the docked overlay (Feature 032)
+ * The picked result replaces the shown one; results that are gone leave the stack
+ */
+function handleStackClick(event: MouseEvent): void {
+  const stackItem = (event.target as Element).closest<HTMLElement>('[data-stack-id]');
+  const associatedTweetId = stackItem?.dataset.stackId;
+  if (!associatedTweetId || associatedTweetId === overlayState?.associatedTweetId || !stackSelectHandler) {
+    return;
+  }
+
+  logger.log('[OverlayManager] Switching to stacked result:', associatedTweetId);
+  if (!stackSelectHandler(associatedTweetId)) {
+    resultStack = resultStack.filter(id => id !== associatedTweetId);
+    renderStack();
+  }
+}
+
 /**
  * Handle page navigation (cleanup overlay)
  */
 function handleNavigation(): void {
+  // The docked overlay stays open while browsing X (Feature 032)
+  if (displayMode === 'docked') {
+    return;
+  }
+
   logger.log('[OverlayManager] Page navigation detected - closing overlay');
   closeOverlay();
 }
@@ -252,6 +1155,18 @@ export function isOverlayVisible(): boolean {
   return overlayState?.isVisible ?? false;
 }
 
+/**
+ * Check if the open overlay takes the page's keys (Escape, j/k, c, ...)
+ * A modal overlay always does; a docked overlay only while focus is inside it (Feature 032)
+ */
+export function hasOverlayKeyFocus(): boolean {
+  if (!overlayState?.isVisible || !overlayElements) {
+    return false;
+  }
+
+  return displayMode !== 'docked' || overlayElements.container.contains(getOverlayRoot().activeElement);
+}
+
 /**
  * Get current overlay state (for debugging)
  */
@@ -10,13 +10,27 @@ import { logger } from '../utils/logger';
 import type {
   ResponseContentItem,
   OverlayConfig,
+  OverlayTab,
+  OverlayProgress,
+  OverlayError,
+  OverlayCopyAction,
   DebugContentItem,
   DebugData,
+  OverlayStackEntry,
 } from '../types/overlay';
 import {
   hasRenderableTitle,
   isDebugJsonContentItem,
+  isMarkdownContentItem,
+  isWidgetContentType,
+  getItemGroup,
 } from '../types/overlay';
+import type { ExportFormat } from '../types/export';
+import { EXPORT_FORMATS } from '../types/export';
+import { renderMarkdown } from './markdown-renderer';
+import { renderWidget } from './widget-renderer';
+import { addThemedElement } from './theme';
+import overlayStyles from './overlay.css?inline';
 
 /**
  * Escape HTML characters to prevent XSS injection
@@ -57,11 +71,8 @@ export function renderOverlay(
   // Create content area
   const contentArea = createContentArea();
 
-  // Render content items
-  contentItems.forEach((item) => {
-    const itemElement = renderContentItem(item);
-    contentArea.appendChild(itemElement);
-  });
+  // Render content items (grouped items in collapsible sections, Feature 031)
+  insertContentItems(contentArea, contentItems, null);
 
   // Render debug blocks if present (Feature 005)
   if (debugItems && debugItems.length > 0) {
@@ -77,8 +88,8 @@ export function renderOverlay(
   // Append container to backdrop
   backdrop.appendChild(container);
 
-  // Append backdrop to document body
-  document.body.appendChild(backdrop);
+  // Mount backdrop in the overlay's shadow root (Feature 034)
+  mountOverlayElement(backdrop);
 
   logger.log('[OverlayRenderer] Overlay rendered to DOM');
 
@@ -120,20 +131,473 @@ export function renderEmptyStateOverlay(
   // Append container to backdrop
   backdrop.appendChild(container);
 
-  // Append backdrop to document body
-  document.body.appendChild(backdrop);
+  // Mount backdrop in the overlay's shadow root (Feature 034)
+  mountOverlayElement(backdrop);
 
   logger.log('[OverlayRenderer] Empty state overlay rendered to DOM');
 
   return { backdrop, container };
 }
 
+/**
+ * Render overlay with one tab per endpoint (Feature 014)
+ *
+ * @param tabs - Endpoint tabs to display
+ * @param activeTabId - Tab shown initially
+ * @param config - Overlay configuration
+ * @returns DOM element references for backdrop and container
+ */
+export function renderTabbedOverlay(
+  tabs: OverlayTab[],
+  activeTabId: string,
+  config: OverlayConfig
+): { backdrop: HTMLElement; container: HTMLElement } {
+  logger.log('[OverlayRenderer] Rendering tabbed overlay with', tabs.length, 'tabs');
+
+  const backdrop = createBackdrop(config);
+  const container = createContainer(config);
+
+  container.appendChild(createHeader());
+
+  const tabBar = document.createElement('div');
+  tabBar.className = 'tweetyoink-overlay-tabs';
+  tabBar.setAttribute('role', 'tablist');
+  container.appendChild(tabBar);
+
+  const contentArea = createContentArea();
+  contentArea.setAttribute('role', 'tabpanel');
+  container.appendChild(contentArea);
+
+  renderTabs(container, tabs, activeTabId);
+
+  backdrop.appendChild(container);
+  mountOverlayElement(backdrop);
+
+  logger.log('[OverlayRenderer] Tabbed overlay rendered to DOM');
+
+  return { backdrop, container };
+}
+
+/**
+ * Re-render tab bar and the active tab's content (Feature 014)
+ * Called on tab selection and when an endpoint's result arrives
+ *
+ * @param container - Overlay container from renderTabbedOverlay
+ * @param tabs - Current endpoint tabs
+ * @param activeTabId - Tab to show
+ */
+export function renderTabs(container: HTMLElement, tabs: OverlayTab[], activeTabId: string): void {
+  const tabBar = container.querySelector('.tweetyoink-overlay-tabs');
+  const contentArea = container.querySelector<HTMLElement>('.tweetyoink-overlay-content');
+  if (!tabBar || !contentArea) {
+    logger.warn('[OverlayRenderer] Tabbed overlay elements not found');
+    return;
+  }
+
+  tabBar.innerHTML = '';
+  tabs.forEach((tab) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `tweetyoink-overlay-tab tweetyoink-overlay-tab-${tab.status}`;
+    button.setAttribute('role', 'tab');
+    button.setAttribute('aria-selected', String(tab.id === activeTabId));
+    button.dataset.tabId = tab.id;
+
+    const indicator = document.createElement('span');
+    indicator.className = 'tweetyoink-overlay-tab-indicator';
+    indicator.setAttribute('aria-hidden', 'true');
+    button.appendChild(indicator);
+    button.appendChild(document.createTextNode(tab.label)); // XSS-safe via text node
+
+    tabBar.appendChild(button);
+  });
+
+  contentArea.innerHTML = '';
+  const activeTab = tabs.find(tab => tab.id === activeTabId) ?? tabs[0];
+  if (!activeTab) {
+    return;
+  }
+
+  insertContentItems(contentArea, activeTab.contentItems, null);
+
+  activeTab.debugItems?.forEach((debugItem) => {
+    contentArea.appendChild(renderDebugBlock(debugItem));
+  });
+
+  if (activeTab.contentItems.length === 0 && !activeTab.debugItems?.length) {
+    const messageElement = createEmptyStateMessage(activeTab.message || 'No content to display');
+    if (activeTab.status === 'failed') {
+      messageElement.classList.add('tweetyoink-overlay-tab-error');
+    }
+    contentArea.appendChild(messageElement);
+  }
+}
+
+/**
+ * Append content items to an open overlay (Feature 015)
+ * Items are inserted above the stream status line, if present
+ *
+ * @param container - Overlay container
+ * @param contentItems - Content items to append
+ * @param debugItems - Optional debug blocks (Feature 005)
+ */
+export function appendContentItems(
+  container: HTMLElement,
+  contentItems: ResponseContentItem[],
+  debugItems?: DebugContentItem[]
+): void {
+  const contentArea = container.querySelector('.tweetyoink-overlay-content');
+  if (!contentArea) {
+    logger.warn('[OverlayRenderer] Content area not found');
+    return;
+  }
+
+  const statusLine = contentArea.querySelector('.tweetyoink-overlay-stream-status');
+  insertContentItems(contentArea, contentItems, statusLine);
+  debugItems?.forEach((debugItem) => {
+    contentArea.insertBefore(renderDebugBlock(debugItem), statusLine);
+  });
+}
+
+/**
+ * Show, update or remove the status line at the end of a streaming overlay (Feature 015)
+ *
+ * @param container - Overlay container
+ * @param message - Status text, or null to remove the line
+ * @param isError - Style the line as an error
+ */
+export function renderStreamStatus(container: HTMLElement, message: string | null, isError = false): void {
+  const contentArea = container.querySelector('.tweetyoink-overlay-content');
+  if (!contentArea) {
+    return;
+  }
+
+  let statusLine = contentArea.querySelector<HTMLElement>('.tweetyoink-overlay-stream-status');
+
+  if (message === null) {
+    statusLine?.remove();
+    return;
+  }
+
+  if (!statusLine) {
+    statusLine = document.createElement('div');
+    statusLine.setAttribute('role', 'status');
+    contentArea.appendChild(statusLine);
+  }
+
+  statusLine.className = isError
+    ? 'tweetyoink-overlay-stream-status tweetyoink-overlay-stream-error'
+    : 'tweetyoink-overlay-stream-status';
+  statusLine.textContent = message; // XSS-safe via textContent
+}
+
+/**
+ * Render overlay showing the progress of an async request (Feature 016)
+ *
+ * @param progress - Current request progress
+ * @param config - Overlay configuration
+ * @param canCancel - Show a Cancel button (Feature 018)
+ * @returns DOM element references for backdrop and container
+ */
+export function renderProgressOverlay(
+  progress: OverlayProgress,
+  config: OverlayConfig,
+  canCancel = false
+): { backdrop: HTMLElement; container: HTMLElement } {
+  logger.log('[OverlayRenderer] Rendering progress overlay');
+
+  const backdrop = createBackdrop(config);
+  const container = createContainer(config);
+
+  container.appendChild(createHeader());
+  container.appendChild(createContentArea());
+  renderProgress(container, progress);
+
+  if (canCancel) {
+    const cancelButton = document.createElement('button');
+    cancelButton.type = 'button';
+    cancelButton.className = 'tweetyoink-overlay-cancel';
+    cancelButton.textContent = 'Cancel';
+    container.querySelector('.tweetyoink-overlay-progress')?.appendChild(cancelButton);
+  }
+
+  backdrop.appendChild(container);
+  mountOverlayElement(backdrop);
+
+  logger.log('[OverlayRenderer] Progress overlay rendered to DOM');
+
+  return { backdrop, container };
+}
+
+/**
+ * Render or update the progress message, bar and time estimate (Feature 016)
+ *
+ * @param container - Overlay container from renderProgressOverlay
+ * @param progress - Current request progress
+ */
+export function renderProgress(container: HTMLElement, progress: OverlayProgress): void {
+  const contentArea = container.querySelector('.tweetyoink-overlay-content');
+  if (!contentArea) {
+    logger.warn('[OverlayRenderer] Content area not found');
+    return;
+  }
+
+  let section = contentArea.querySelector<HTMLElement>('.tweetyoink-overlay-progress');
+  if (!section) {
+    section = document.createElement('div');
+    section.className = 'tweetyoink-overlay-progress';
+    section.setAttribute('role', 'status');
+    section.innerHTML = `
+      <div class="tweetyoink-overlay-progress-message"></div>
+      <div class="tweetyoink-overlay-progress-track" role="progressbar" aria-valuemin="0" aria-valuemax="100">
+        <div class="tweetyoink-overlay-progress-bar"></div>
+      </div>
+      <div class="tweetyoink-overlay-progress-detail"></div>
+    `;
+    contentArea.appendChild(section);
+  }
+
+  const defaultMessage = progress.status === 'processing' ? 'Processing...' : 'Waiting for the server to start processing...';
+  section.querySelector('.tweetyoink-overlay-progress-message')!.textContent = progress.message || defaultMessage; // XSS-safe via textContent
+
+  // Server progress is 0.0-1.0; without it the bar is indeterminate
+  const track = section.querySelector<HTMLElement>('.tweetyoink-overlay-progress-track')!;
+  const bar = section.querySelector<HTMLElement>('.tweetyoink-overlay-progress-bar')!;
+  const percent = typeof progress.progress === 'number'
+    ? Math.round(Math.min(Math.max(progress.progress, 0), 1) * 100)
+    : null;
+
+  if (percent === null) {
+    track.classList.add('tweetyoink-overlay-progress-indeterminate');
+    track.removeAttribute('aria-valuenow');
+    bar.style.width = '';
+  } else {
+    track.classList.remove('tweetyoink-overlay-progress-indeterminate');
+    track.setAttribute('aria-valuenow', percent.toString());
+    bar.style.width = `${percent}%`;
+  }
+
+  const details: string[] = [];
+  if (percent !== null) {
+    details.push(`${percent}%`);
+  }
+  if (progress.estimatedDuration) {
+    const remainingSeconds = Math.round(progress.estimatedDuration - (Date.now() - progress.startedAt) / 1000);
+    details.push(remainingSeconds > 0 ? `about ${remainingSeconds}s remaining` : 'taking longer than expected');
+  }
+  section.querySelector('.tweetyoink-overlay-progress-detail')!.textContent = details.join(' · ');
+}
+
+/**
+ * Render overlay for a failed or timed-out async request (Feature 017)
+ *
+ * @param error - Error code and message to display
+ * @param config - Overlay configuration
+ * @param canRetry - Show a Retry button
+ * @returns DOM element references for backdrop and container
+ */
+export function renderErrorOverlay(
+  error: OverlayError,
+  config: OverlayConfig,
+  canRetry: boolean
+): { backdrop: HTMLElement; container: HTMLElement } {
+  logger.log('[OverlayRenderer] Rendering error overlay:', error.code);
+
+  const backdrop = createBackdrop(config);
+  const container = createContainer(config);
+  container.appendChild(createHeader());
+
+  const contentArea = createContentArea();
+
+  const errorElement = document.createElement('div');
+  errorElement.className = 'tweetyoink-overlay-error';
+  errorElement.setAttribute('role', 'alert');
+
+  // All server text is set via textContent (XSS-safe)
+  const title = document.createElement('div');
+  title.className = 'tweetyoink-overlay-error-title';
+  title.textContent = error.code === 'POLLING_TIMEOUT' ? 'Analysis timed out' : 'Analysis failed';
+  errorElement.appendChild(title);
+
+  const message = document.createElement('div');
+  message.className = 'tweetyoink-overlay-error-message';
+  message.textContent = error.message;
+  errorElement.appendChild(message);
+
+  const code = document.createElement('code');
+  code.className = 'tweetyoink-overlay-error-code';
+  code.textContent = error.code;
+  errorElement.appendChild(code);
+
+  if (canRetry) {
+    const retryButton = document.createElement('button');
+    retryButton.type = 'button';
+    retryButton.className = 'tweetyoink-overlay-retry';
+    retryButton.textContent = 'Retry';
+    errorElement.appendChild(retryButton);
+  }
+
+  contentArea.appendChild(errorElement);
+  container.appendChild(contentArea);
+
+  backdrop.appendChild(container);
+  mountOverlayElement(backdrop);
+
+  logger.log('[OverlayRenderer] Error overlay rendered to DOM');
+
+  return { backdrop, container };
+}
+
+/**
+ * How long a header notice (e.g. "Copied to clipboard") stays visible (Feature 021)
+ */
+const NOTICE_DURATION_MS = 2000;
+
+/**
+ * Show a short notice in the overlay header, e.g. after a keyboard copy (Feature 021)
+ *
+ * @param container - Overlay container element
+ * @param message - Notice text
+ * @param isError - Style the notice as an error
+ */
+export function renderOverlayNotice(container: HTMLElement, message: string, isError = false): void {
+  const header = container.querySelector('.tweetyoink-overlay-header');
+  if (!header) {
+    return;
+  }
+
+  header.querySelector('.tweetyoink-overlay-notice')?.remove();
+
+  const notice = document.createElement('span');
+  notice.className = isError ? 'tweetyoink-overlay-notice tweetyoink-overlay-notice-error' : 'tweetyoink-overlay-notice';
+  notice.setAttribute('role', 'status');
+  notice.textContent = message;
+  header.insertBefore(notice, header.querySelector('.tweetyoink-overlay-close'));
+
+  setTimeout(() => notice.remove(), NOTICE_DURATION_MS);
+}
+
+/**
+ * Show that the overlay's result came from the result cache (Feature 025)
+ * The banner sits between header and content, so it stays when fan-out tabs are switched.
+ *
+ * @param container - Overlay container element
+ * @param cachedAt - When the result was received from the server
+ */
+export function renderCachedBanner(container: HTMLElement, cachedAt: number): void {
+  const header = container.querySelector('.tweetyoink-overlay-header');
+  if (!header) {
+    return;
+  }
+
+  container.querySelector('.tweetyoink-overlay-cached')?.remove();
+
+  const banner = document.createElement('div');
+  banner.className = 'tweetyoink-overlay-cached';
+  banner.setAttribute('role', 'status');
+
+  const label = document.createElement('span');
+  label.textContent = `Cached result from ${formatCacheAge(cachedAt)}`;
+  label.title = new Date(cachedAt).toLocaleString();
+  banner.appendChild(label);
+
+  const reanalyzeButton = document.createElement('button');
+  reanalyzeButton.type = 'button';
+  reanalyzeButton.className = 'tweetyoink-overlay-reanalyze';
+  reanalyzeButton.textContent = 'Re-analyze';
+  banner.appendChild(reanalyzeButton);
+
+  header.after(banner);
+}
+
+/**
+ * Describe how long ago a result was cached, e.g. "5 min ago"
+ */
+function formatCacheAge(cachedAt: number): string {
+  const minutes = Math.floor((Date.now() - cachedAt) / 60_000);
+
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+}
+
+/**
+ * Add the Export button and its format menu to the overlay header (Feature 026)
+ * Structure: wrapper > toggle button, menu > one item per format (data-export-format)
+ *
+ * @param container - Overlay container element
+ */
+export function renderExportMenu(container: HTMLElement): void {
+  const header = container.querySelector('.tweetyoink-overlay-header');
+  if (!header || header.querySelector('.tweetyoink-overlay-export')) {
+    return;
+  }
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'tweetyoink-overlay-export';
+
+  const toggle = document.createElement('button');
+  toggle.type = 'button';
+  toggle.className = 'tweetyoink-overlay-export-toggle';
+  toggle.textContent = 'Export';
+  toggle.setAttribute('aria-haspopup', 'menu');
+  toggle.setAttribute('aria-expanded', 'false');
+  wrapper.appendChild(toggle);
+
+  const menu = document.createElement('div');
+  menu.className = 'tweetyoink-overlay-export-menu';
+  menu.setAttribute('role', 'menu');
+  menu.hidden = true;
+
+  (Object.keys(EXPORT_FORMATS) as ExportFormat[]).forEach((format) => {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = 'tweetyoink-overlay-export-item';
+    item.setAttribute('role', 'menuitem');
+    item.dataset.exportFormat = format;
+    item.textContent = EXPORT_FORMATS[format].label;
+    menu.appendChild(item);
+  });
+
+  wrapper.appendChild(menu);
+  header.insertBefore(wrapper, header.querySelector('.tweetyoink-overlay-close'));
+}
+
+/**
+ * Open or close the export format menu (Feature 026)
+ *
+ * @param container - Overlay container element
+ * @param open - Whether the menu is shown
+ */
+export function setExportMenuOpen(container: HTMLElement, open: boolean): void {
+  const menu = container.querySelector<HTMLElement>('.tweetyoink-overlay-export-menu');
+  if (!menu) {
+    return;
+  }
+
+  menu.hidden = !open;
+  container.querySelector('.tweetyoink-overlay-export-toggle')?.setAttribute('aria-expanded', String(open));
+}
+
 /**
  * Create backdrop element (semi-transparent overlay background)
  */
 function createBackdrop(config: OverlayConfig): HTMLElement {
   const backdrop = document.createElement('div');
-  backdrop.className = 'tweetyoink-overlay-backdrop';
+  backdrop.className = config.docked
+    ? 'tweetyoink-overlay-backdrop tweetyoink-overlay-docked'
+    : 'tweetyoink-overlay-backdrop';
 
   // Apply backdrop opacity from config (CSS default is 0.5)
   if (config.backdropOpacity !== 0.5) {
@@ -312,6 +776,38 @@ function renderContentItem(item: ResponseContentItem): HTMLElement {
     };
 
     itemElement.appendChild(img);
+  } else if (item.type === 'link') {
+    // Feature 029: Link card, http/https URLs only
+    const linkCard = typeof item.content === 'string' ? renderLinkCard(item.content, item.metadata) : null;
+    if (!linkCard) {
+      logger.warn('[OverlayRenderer] Link content must be an http(s) URL');
+      const errorText = document.createElement('div');
+      errorText.textContent = 'Invalid link (only http and https URLs are shown)';
+      errorText.className = 'tweetyoink-overlay-error';
+      itemElement.appendChild(errorText);
+      return itemElement;
+    }
+
+    itemElement.appendChild(linkCard);
+  } else if (isWidgetContentType(item.type)) {
+    // Feature 030: Score, verdict, table, list and bar chart widgets
+    const widget = renderWidget(item);
+    if (!widget) {
+      logger.warn('[OverlayRenderer] Widget content does not match its type:', item.type);
+      const errorText = document.createElement('div');
+      errorText.textContent = `Invalid ${item.type} content`;
+      errorText.className = 'tweetyoink-overlay-error';
+      itemElement.appendChild(errorText);
+      return itemElement;
+    }
+
+    itemElement.appendChild(widget);
+  } else if (isMarkdownContentItem(item)) {
+    // Feature 028: Markdown built as DOM nodes, server text only via textContent
+    const markdownDiv = document.createElement('div');
+    markdownDiv.className = 'tweetyoink-overlay-markdown';
+    markdownDiv.appendChild(renderMarkdown(item.content as string));
+    itemElement.appendChild(markdownDiv);
   } else {
     // Text content - must be string
     if (typeof item.content !== 'string') {
@@ -350,37 +846,95 @@ function renderContentItem(item: ResponseContentItem): HTMLElement {
     itemElement.appendChild(metadataDisplay);
   }
 
+  // Copy button (Feature 027)
+  itemElement.appendChild(renderItemCopyButton(item));
+
   return itemElement;
 }
 
+// ============================================================================
+// Shadow Root (Feature: 034-shadow-root)
+// ============================================================================
+
 /**
- * Load overlay CSS if not already loaded
- *
- * NOTE: This is a stub function for future CSS injection capability.
- * Currently, overlay styles are injected via manifest.json content_scripts configuration,
- * which is the recommended approach for Chrome extensions.
- *
- * This function serves as:
- * 1. A detection mechanism to verify CSS is loaded
- * 2. A hook point for future runtime CSS injection if needed
- * 3. Documentation of the CSS loading strategy
+ * Closed shadow root holding the overlay and floating UI
+ * X's page styles don't reach into it and the overlay's styles don't leak out;
+ * page scripts can't reach its content either.
+ */
+let overlayRoot: ShadowRoot | null = null;
+
+/**
+ * Element inside the shadow root that overlays are mounted in
+ * It carries the theme attribute (Feature 033), which styles in the shadow root
+ * can't see on the page's root element.
+ */
+let overlayLayer: HTMLElement | null = null;
+
+/**
+ * Get the overlay's shadow root, creating it on first use
+ * Used to query overlay elements and the focused element inside it
+ */
+export function getOverlayRoot(): ShadowRoot {
+  if (!overlayRoot) {
+    const host = document.createElement('div');
+    host.id = 'tweetyoink-root';
+    overlayRoot = host.attachShadow({ mode: 'closed' });
+    loadOverlayStyles(overlayRoot);
+
+    overlayLayer = document.createElement('div');
+    overlayLayer.className = 'tweetyoink-overlay-layer';
+    addThemedElement(overlayLayer);
+    overlayRoot.appendChild(overlayLayer);
+  }
+
+  // Re-attach the host if the page replaced the body's content
+  if (!overlayRoot.host.isConnected) {
+    document.body.appendChild(overlayRoot.host);
+  }
+
+  return overlayRoot;
+}
+
+/**
+ * Mount an element (overlay backdrop, action bar) in the overlay's shadow root
+ */
+export function mountOverlayElement(element: HTMLElement): void {
+  getOverlayRoot();
+  overlayLayer!.appendChild(element);
+}
+
+/**
+ * Load the overlay stylesheet into a shadow root
+ * The stylesheet is bundled as text with the script, so no web-accessible
+ * resource has to be fetched and it is in place before anything renders.
  *
- * Future enhancement: If runtime injection is needed (e.g., for dynamic themes),
- * this function can fetch and inject CSS using chrome.runtime.getURL() and document.createElement('style')
+ * @param root - Shadow root to style
  */
-export function loadOverlayStyles(): void {
-  // Check if styles are already loaded (via link tag or inline style tag)
-  if (document.querySelector('link[href*="overlay.css"]') || document.querySelector('style[data-overlay-styles]')) {
+export function loadOverlayStyles(root: ShadowRoot): void {
+  if (root.querySelector('style[data-overlay-styles]')) {
     logger.log('[OverlayRenderer] Overlay styles already loaded');
     return;
   }
 
-  // In a Chrome extension, CSS files are typically injected via manifest.json content_scripts
-  // This is the current implementation approach (see manifest.json)
-  logger.log('[OverlayRenderer] Overlay styles should be loaded via manifest.json');
+  const style = document.createElement('style');
+  style.setAttribute('data-overlay-styles', '');
+  style.textContent = overlayStyles;
+  root.prepend(style);
 
-  // For now, we rely on CSS being injected by the extension build process
-  // If styles are missing at runtime, the overlay will still render but may lack styling
+  logger.log('[OverlayRenderer] Overlay styles loaded');
+}
+
+/**
+ * Add page-specific styles after the overlay stylesheet
+ * Page stylesheets can't reach into the shadow root, so extension pages
+ * adjusting the overlay's layout (side panel) add their rules here.
+ *
+ * @param styles - CSS text
+ */
+export function addOverlayStyles(styles: string): void {
+  const style = document.createElement('style');
+  style.textContent = styles;
+  getOverlayRoot().insertBefore(style, overlayLayer);
 }
 
 // ============================================================================
@@ -542,7 +1096,9 @@ function renderDebugBlock(item: DebugContentItem): HTMLElement {
 
   // If parsing failed, show error state
   if (!debugData) {
-    return renderDebugError(item.content);
+    const errorBlock = renderDebugError(item.content);
+    errorBlock.appendChild(createCopyButton(item.content, 'Copy JSON'));
+    return errorBlock;
   }
 
   // Create container
@@ -598,5 +1154,347 @@ function renderDebugBlock(item: DebugContentItem): HTMLElement {
     container.appendChild(emptyMsg);
   }
 
+  // Copy button with the whole debug data (Feature 027)
+  container.appendChild(createCopyButton(JSON.stringify(debugData, null, 2), 'Copy JSON'));
+
   return container;
 }
+
+// ============================================================================
+// Copy Actions (Feature: 027-copy-actions)
+// ============================================================================
+
+/**
+ * Render the copy button of a content item
+ * Text is copied as plain text, images as their URL and JSON content pretty-printed
+ *
+ * @param item - Content item the button belongs to
+ * @returns DOM element for the button (button.tweetyoink-overlay-item-copy)
+ */
+function renderItemCopyButton(item: ResponseContentItem): HTMLElement {
+  if (typeof item.content !== 'string') {
+    return createCopyButton(JSON.stringify(item.content, null, 2), 'Copy JSON');
+  }
+
+  const labels: Record<string, string> = { image: 'Copy image URL', link: 'Copy link' };
+  return createCopyButton(item.content, labels[item.type] ?? 'Copy text');
+}
+
+/**
+ * Create a copy button holding the text it copies (data-copy-text)
+ * The icon comes from CSS, so the button adds no text to the item's innerText
+ * (keyboard copy, Feature 021).
+ *
+ * @param text - Text put on the clipboard
+ * @param label - Accessible name and tooltip
+ */
+function createCopyButton(text: string, label: string): HTMLElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'tweetyoink-overlay-item-copy';
+  button.title = label;
+  button.setAttribute('aria-label', label);
+  button.dataset.copyText = text;
+  return button;
+}
+
+/**
+ * Add the Copy Markdown and Copy tweet JSON buttons to the overlay header
+ * Structure: wrapper > one button per action (data-copy-action)
+ *
+ * @param container - Overlay container element
+ * @param includeTweetData - Show Copy tweet JSON (the overlay's capture is known)
+ */
+export function renderCopyActions(container: HTMLElement, includeTweetData: boolean): void {
+  const header = container.querySelector('.tweetyoink-overlay-header');
+  if (!header || header.querySelector('.tweetyoink-overlay-copy-actions')) {
+    return;
+  }
+
+  const actions: Array<{ action: OverlayCopyAction; label: string }> = [
+    { action: 'markdown', label: 'Copy Markdown' },
+  ];
+  if (includeTweetData) {
+    actions.push({ action: 'tweet-json', label: 'Copy tweet JSON' });
+  }
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'tweetyoink-overlay-copy-actions';
+
+  actions.forEach(({ action, label }) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'tweetyoink-overlay-copy-action';
+    button.dataset.copyAction = action;
+    button.textContent = label;
+    wrapper.appendChild(button);
+  });
+
+  header.insertBefore(wrapper, header.querySelector('.tweetyoink-overlay-close'));
+}
+
+// ============================================================================
+// Link Cards (Feature: 029-link-cards)
+// ============================================================================
+
+/**
+ * Parse a server-provided URL, accepting only http and https
+ *
+ * @param value - URL from the response
+ * @returns Parsed URL, or null if it is invalid or uses another scheme
+ */
+function parseHttpUrl(value: unknown): URL | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a link item as a clickable card opening in a new tab
+ * Structure: a.tweetyoink-overlay-link-card > optional thumbnail, body > title, description, domain
+ *
+ * Card fields come from metadata (title, description, domain, imageUrl);
+ * the title falls back to the URL and the domain to the URL's host.
+ *
+ * @param href - Link URL (item.content)
+ * @param metadata - Item metadata
+ * @returns Card element, or null if the URL isn't http or https
+ */
+function renderLinkCard(href: string, metadata: ResponseContentItem['metadata']): HTMLElement | null {
+  const url = parseHttpUrl(href);
+  if (!url) {
+    return null;
+  }
+
+  const card = document.createElement('a');
+  card.className = 'tweetyoink-overlay-link-card';
+  card.href = url.href;
+  card.target = '_blank';
+  card.rel = 'noopener noreferrer';
+
+  // Optional preview image, same scheme restriction as the link
+  const imageUrl = parseHttpUrl(metadata?.imageUrl);
+  if (imageUrl) {
+    const img = document.createElement('img');
+    img.className = 'tweetyoink-overlay-link-image';
+    img.src = imageUrl.href;
+    img.alt = '';
+    img.loading = 'lazy';
+    img.onerror = () => img.remove();
+    card.appendChild(img);
+  }
+
+  const body = document.createElement('div');
+  body.className = 'tweetyoink-overlay-link-body';
+
+  // All server text is set via textContent (XSS-safe)
+  const title = document.createElement('div');
+  title.className = 'tweetyoink-overlay-link-title';
+  title.textContent = typeof metadata?.title === 'string' && metadata.title.trim() ? metadata.title.trim() : url.href;
+  body.appendChild(title);
+
+  if (typeof metadata?.description === 'string' && metadata.description.trim()) {
+    const description = document.createElement('div');
+    description.className = 'tweetyoink-overlay-link-description';
+    description.textContent = metadata.description.trim();
+    body.appendChild(description);
+  }
+
+  const domain = document.createElement('div');
+  domain.className = 'tweetyoink-overlay-link-domain';
+  // Always the link's real host; the server's domain only as an extra label when the host belongs to it
+  const host = url.hostname.replace(/^www\./, '');
+  const serverDomain = typeof metadata?.domain === 'string' ? metadata.domain.trim().toLowerCase().replace(/^www\./, '') : '';
+  domain.textContent = serverDomain && host.endsWith(`.${serverDomain}`)
+    ? `${host} · ${serverDomain}`
+    : host;
+  body.appendChild(domain);
+
+  card.appendChild(body);
+  return card;
+}
+
+// ============================================================================
+// Result Sections (Feature: 031-result-sections)
+// ============================================================================
+
+/**
+ * Render content items into the content area
+ * Items with metadata.group go into a collapsible section per group (in order of
+ * first appearance); ungrouped items stay above the sections. With two or more
+ * sections, a table of contents is shown at the top.
+ *
+ * @param contentArea - Overlay content area
+ * @param contentItems - Items to render
+ * @param before - Insert new sections before this node (e.g. the stream status line); null appends
+ */
+function insertContentItems(contentArea: Element, contentItems: ResponseContentItem[], before: Node | null): void {
+  let sectionsAdded = false;
+
+  contentItems.forEach((item) => {
+    const itemElement = renderContentItem(item);
+    const group = getItemGroup(item);
+
+    if (!group) {
+      contentArea.insertBefore(itemElement, contentArea.querySelector('.tweetyoink-overlay-section') ?? before);
+      return;
+    }
+
+    let section = findSection(contentArea, group);
+    if (!section) {
+      // The first section starts open, later ones collapsed
+      section = createSection(group, !contentArea.querySelector('.tweetyoink-overlay-section'));
+      contentArea.insertBefore(section, before);
+      sectionsAdded = true;
+    }
+
+    if (item.metadata?.expanded === true) {
+      section.open = true;
+    }
+
+    section.querySelector('.tweetyoink-overlay-section-body')!.appendChild(itemElement);
+    const count = section.querySelectorAll('.tweetyoink-overlay-section-body > .tweetyoink-overlay-item').length;
+    section.querySelector('.tweetyoink-overlay-section-count')!.textContent = String(count);
+  });
+
+  if (sectionsAdded) {
+    renderSectionToc(contentArea);
+  }
+}
+
+/**
+ * Find the section of a group
+ */
+function findSection(contentArea: Element, group: string): HTMLDetailsElement | null {
+  const sections = contentArea.querySelectorAll<HTMLDetailsElement>('.tweetyoink-overlay-section');
+  return Array.from(sections).find(section => section.dataset.group === group) ?? null;
+}
+
+/**
+ * Create a collapsible section
+ * Structure: details.tweetyoink-overlay-section > summary > name, count; body
+ *
+ * @param group - Group name
+ * @param open - Whether the section starts open
+ */
+function createSection(group: string, open: boolean): HTMLDetailsElement {
+  const section = document.createElement('details');
+  section.className = 'tweetyoink-overlay-section';
+  section.dataset.group = group;
+  section.open = open;
+
+  const summary = document.createElement('summary');
+  summary.className = 'tweetyoink-overlay-section-summary';
+
+  const name = document.createElement('span');
+  name.className = 'tweetyoink-overlay-section-name';
+  name.textContent = group; // XSS-safe via textContent
+  summary.appendChild(name);
+
+  const count = document.createElement('span');
+  count.className = 'tweetyoink-overlay-section-count';
+  summary.appendChild(count);
+
+  section.appendChild(summary);
+
+  const body = document.createElement('div');
+  body.className = 'tweetyoink-overlay-section-body';
+  section.appendChild(body);
+
+  return section;
+}
+
+/**
+ * Render (or re-render) the table of contents at the top of the content area
+ * Structure: nav.tweetyoink-overlay-toc > one button per section (data-section-index)
+ */
+function renderSectionToc(contentArea: Element): void {
+  contentArea.querySelector('.tweetyoink-overlay-toc')?.remove();
+
+  const sections = contentArea.querySelectorAll<HTMLDetailsElement>('.tweetyoink-overlay-section');
+  if (sections.length < 2) {
+    return;
+  }
+
+  const toc = document.createElement('nav');
+  toc.className = 'tweetyoink-overlay-toc';
+  toc.setAttribute('aria-label', 'Sections');
+
+  sections.forEach((section, index) => {
+    const link = document.createElement('button');
+    link.type = 'button';
+    link.className = 'tweetyoink-overlay-toc-link';
+    link.dataset.sectionIndex = String(index);
+    link.textContent = section.dataset.group ?? '';
+    toc.appendChild(link);
+  });
+
+  contentArea.insertBefore(toc, contentArea.firstChild);
+}
+
+/**
+ * Open a section and scroll it into view (table of contents click)
+ *
+ * @param container - Overlay container element
+ * @param index - Section index from data-section-index
+ */
+export function revealSection(container: HTMLElement, index: number): void {
+  const section = container.querySelectorAll<HTMLDetailsElement>('.tweetyoink-overlay-section')[index];
+  if (!section) {
+    return;
+  }
+
+  section.open = true;
+  section.scrollIntoView({ block: 'start' });
+  section.querySelector<HTMLElement>('.tweetyoink-overlay-section-summary')?.focus({ preventScroll: true });
+}
+
+// ============================================================================
+// Result Stack (Feature: 032-side-panel)
+// ============================================================================
+
+/**
+ * Show the recent results strip below the overlay header (docked overlay and side panel)
+ * Structure: nav > one button per result (data-stack-id), newest first
+ * Replaces an earlier strip; nothing is shown for a single result.
+ *
+ * @param container - Overlay container element
+ * @param entries - Recent results, newest first
+ * @param activeId - Associated tweet ID of the result shown
+ */
+export function renderResultStack(container: HTMLElement, entries: OverlayStackEntry[], activeId: string): void {
+  container.querySelector('.tweetyoink-overlay-stack')?.remove();
+
+  const header = container.querySelector('.tweetyoink-overlay-header');
+  if (!header || entries.length < 2) {
+    return;
+  }
+
+  const nav = document.createElement('nav');
+  nav.className = 'tweetyoink-overlay-stack';
+  nav.setAttribute('aria-label', 'Recent results');
+
+  entries.forEach((entry) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'tweetyoink-overlay-stack-item';
+    button.dataset.stackId = entry.id;
+    button.textContent = entry.label;
+    if (entry.description) {
+      button.title = entry.description;
+    }
+    if (entry.id === activeId) {
+      button.setAttribute('aria-current', 'true');
+    }
+    nav.appendChild(button);
+  });
+
+  header.after(nav);
+}
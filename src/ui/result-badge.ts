@@ -0,0 +1,154 @@
+/**
+ * Inline result badge shown next to the Yoink button of a captured tweet
+ * Feature: 020-result-badges, 034-shadow-root
+ *
+ * The badge mirrors the tweet's entry in the result store (pending, done or
+ * failed, or the server's label such as a score) and reopens the result when
+ * clicked. Badges are found by tweet ID, so every rendering of the same tweet
+ * (timeline and status page, or a re-created article) stays in sync.
+ */
+
+import type { TweetResult } from '../types/overlay';
+import { getTweetResult } from '../services/result-store';
+import { COLORS } from './constants';
+
+/**
+ * Data attribute holding the tweet ID of a badge (on its host element)
+ */
+const BADGE_ATTRIBUTE = 'data-yoink-badge';
+
+/**
+ * Badge stylesheet, inside each badge's shadow root (Feature 034)
+ * The status color is set on the button and read via currentColor.
+ */
+const BADGE_STYLES = `
+  :host {
+    display: none;
+    align-items: center;
+    align-self: center;
+    margin: 0 4px;
+  }
+
+  button {
+    display: inline-flex;
+    align-items: center;
+    height: 20px;
+    max-width: 120px;
+    padding: 0 8px;
+    border: 1px solid currentColor;
+    border-radius: 9999px;
+    background: transparent;
+    font-family: inherit;
+    font-size: 12px;
+    font-weight: 700;
+    line-height: 18px;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    cursor: pointer;
+    outline: none;
+    transition: background-color 0.2s;
+  }
+
+  button:hover {
+    background-color: ${COLORS.HOVER_BG};
+  }
+
+  button:focus {
+    outline: 2px solid ${COLORS.HOVER_BLUE};
+    outline-offset: 2px;
+  }
+`;
+
+/**
+ * Badge button inside the closed shadow root of each badge host
+ */
+const badgeButtons = new WeakMap<HTMLElement, HTMLButtonElement>();
+
+/**
+ * Creates a result badge for a tweet, showing its current result (hidden until it has one)
+ * The badge is rendered in a closed shadow root, so X's styles and scripts don't reach it;
+ * clicks on it reach listeners on the returned host.
+ * @param tweetId - Status ID of the tweet
+ * @returns Host element of a small pill matching X/Twitter's action bar
+ */
+export function createResultBadge(tweetId: string): HTMLElement {
+  const host = document.createElement('span');
+  host.setAttribute(BADGE_ATTRIBUTE, tweetId);
+
+  const shadowRoot = host.attachShadow({ mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = BADGE_STYLES;
+
+  const badge = document.createElement('button');
+  badge.setAttribute('type', 'button');
+
+  shadowRoot.append(style, badge);
+  badgeButtons.set(host, badge);
+
+  renderResultBadge(host, getTweetResult(tweetId));
+  return host;
+}
+
+/**
+ * Updates every badge of the tweet whose result changed
+ * @param result - Changed tweet result
+ */
+export function updateResultBadges(result: TweetResult): void {
+  document
+    .querySelectorAll<HTMLElement>(`[${BADGE_ATTRIBUTE}="${CSS.escape(result.tweetId)}"]`)
+    .forEach(host => renderResultBadge(host, result));
+}
+
+/**
+ * Shows a result on a badge
+ * @param host - Result badge host element
+ * @param result - Tweet result, or undefined to hide the badge
+ */
+function renderResultBadge(host: HTMLElement, result: TweetResult | undefined): void {
+  const badge = badgeButtons.get(host);
+  if (!badge) {
+    return;
+  }
+
+  if (!result) {
+    host.style.display = 'none';
+    return;
+  }
+
+  const { text, description, color } = getBadgeAppearance(result);
+
+  badge.textContent = text;
+  badge.style.color = color;
+  host.style.display = 'inline-flex';
+  badge.setAttribute('aria-label', `TweetYoink result: ${description}. Open result`);
+  badge.setAttribute('title', `${description} - click to open`);
+  host.setAttribute('data-status', result.status);
+}
+
+/**
+ * Badge text, description (tooltip) and color for a result
+ */
+function getBadgeAppearance(result: TweetResult): { text: string; description: string; color: string } {
+  if (result.status === 'pending') {
+    const progress = result.progress?.progress;
+    const text = typeof progress === 'number' ? `${Math.round(progress * 100)}%` : 'Pending';
+    return { text, description: 'Analysis in progress', color: COLORS.HOVER_BLUE };
+  }
+
+  if (result.status === 'failed') {
+    const cancelled = result.error?.code === 'CANCELLED';
+    return {
+      text: cancelled ? 'Cancelled' : 'Failed',
+      description: cancelled ? 'Analysis cancelled' : `Analysis failed${result.error ? `: ${result.error.message}` : ''}`,
+      color: cancelled ? COLORS.DEFAULT_GRAY : COLORS.ERROR_RED,
+    };
+  }
+
+  return {
+    text: result.label ?? 'Done',
+    description: result.label ? `Result ready (${result.label})` : 'Result ready',
+    color: COLORS.SUCCESS_GREEN,
+  };
+}
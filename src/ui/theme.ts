@@ -0,0 +1,129 @@
+import { logger } from '../utils/logger';
+
+/**
+ * X Theme Matching
+ * Feature: 033-x-theme
+ *
+ * X has three display themes: Default (white), Dim (dark blue) and Lights
+ * Out (black). The choice isn't exposed to pages, so the active theme is read
+ * from the page background X paints, falling back to the page's color scheme
+ * while X is still loading. The theme is set as data-tweetyoink-theme on the
+ * root element and on the overlay's layer in its shadow root, which
+ * overlay.css keys its palettes on, and the theme colors of inline styles
+ * (COLORS) are published as custom properties. X switches
+ * themes without a reload, so its page styles are watched.
+ */
+
+import type { ThemeColor, XTheme } from './constants';
+import { THEME_COLORS, THEME_COLOR_PROPERTIES } from './constants';
+
+/**
+ * Theme attribute on the root element
+ */
+const THEME_ATTRIBUTE = 'data-tweetyoink-theme';
+
+/**
+ * Page backgrounds of X's themes, as computed style values
+ */
+const THEME_BACKGROUNDS: Record<string, XTheme> = {
+  'rgb(255, 255, 255)': 'light',
+  'rgb(21, 32, 43)': 'dim',
+  'rgb(0, 0, 0)': 'lights-out',
+};
+
+let currentTheme: XTheme | null = null;
+
+// Elements carrying the theme attribute: the root element, and the overlay layer inside its shadow root (Feature 034)
+const themedElements = new Set<Element>([document.documentElement]);
+
+// Custom properties of the theme colors; a style element survives X rewriting the root's inline style
+let colorStyle: HTMLStyleElement | null = null;
+
+/**
+ * Match X's theme and follow theme switches (content script)
+ */
+export function initializeThemeMatching(): void {
+  applyTheme(detectXTheme());
+
+  // X paints the theme background on body and sets color-scheme on the root element
+  const observer = new MutationObserver(() => applyTheme(detectXTheme()));
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['style', 'class'] });
+  observer.observe(document.body, { attributes: true, attributeFilter: ['style', 'class'] });
+
+  // Before X has painted a background, the theme follows the system color scheme
+  window.matchMedia('(prefers-color-scheme: dark)').addEventListener('change', () => applyTheme(detectXTheme()));
+}
+
+/**
+ * Follow the system color scheme on extension pages (history, side panel), which have no X theme
+ * Dark systems get the Dim palette.
+ */
+export function initializeSystemTheme(): void {
+  const darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+
+  applyTheme(darkQuery.matches ? 'dim' : 'light');
+  darkQuery.addEventListener('change', event => applyTheme(event.matches ? 'dim' : 'light'));
+}
+
+/**
+ * Keep an element's theme attribute in sync with the active theme
+ * Styles inside a shadow root can't see the attribute of the page's root element.
+ */
+export function addThemedElement(element: Element): void {
+  themedElements.add(element);
+  if (currentTheme) {
+    element.setAttribute(THEME_ATTRIBUTE, currentTheme);
+  }
+}
+
+/**
+ * Detect X's active theme
+ * Unknown backgrounds are matched by brightness; without one, the color scheme decides.
+ */
+function detectXTheme(): XTheme {
+  const background = getComputedStyle(document.body).backgroundColor;
+  const knownTheme = THEME_BACKGROUNDS[background];
+  if (knownTheme) {
+    return knownTheme;
+  }
+
+  const [red, green, blue, alpha = 1] = (background.match(/[\d.]+/g) ?? []).map(Number);
+  if (blue !== undefined && alpha > 0) {
+    const brightness = (red * 299 + green * 587 + blue * 114) / 1000;
+    return brightness > 128 ? 'light' : brightness < 8 ? 'lights-out' : 'dim';
+  }
+
+  const colorScheme = getComputedStyle(document.documentElement).colorScheme;
+  if (colorScheme.includes('dark')) {
+    return 'dim';
+  }
+  if (colorScheme.includes('light')) {
+    return 'light';
+  }
+  return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dim' : 'light';
+}
+
+/**
+ * Apply a theme to the overlay styles and the inline theme colors
+ */
+function applyTheme(theme: XTheme): void {
+  if (theme === currentTheme) {
+    return;
+  }
+
+  currentTheme = theme;
+  themedElements.forEach(element => element.setAttribute(THEME_ATTRIBUTE, theme));
+
+  if (!colorStyle) {
+    colorStyle = document.createElement('style');
+    colorStyle.id = 'tweetyoink-theme-colors';
+    document.head.appendChild(colorStyle);
+  }
+
+  const properties = Object.entries(THEME_COLORS[theme])
+    .map(([name, value]) => `${THEME_COLOR_PROPERTIES[name as ThemeColor]}: ${value};`)
+    .join(' ');
+  colorStyle.textContent = `:root { ${properties} }`;
+
+  logger.log('[Theme] Theme applied:', theme);
+}
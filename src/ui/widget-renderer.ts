@@ -0,0 +1,318 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Widget Renderer
+ * Feature: 030-result-widgets
+ *
+ * Draws structured result items (score gauges, verdict badges, tables, lists
+ * and bar charts) with DOM and inline SVG; no remote assets. Content shapes
+ * are checked before drawing, since they come straight from the server, and
+ * all server text is set via textContent.
+ */
+
+import type {
+  ResponseContentItem,
+  ScoreContent,
+  VerdictContent,
+  VerdictLevel,
+  TableContent,
+  ListContent,
+  BarChartContent,
+} from '../types/overlay';
+import { VERDICT_LEVELS } from '../types/overlay';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Render a widget item
+ *
+ * @param item - Content item with a widget type and object content
+ * @returns Widget element, or null if the content doesn't match the type's shape
+ */
+export function renderWidget(item: ResponseContentItem): HTMLElement | null {
+  const content = item.content as Record<string, unknown>;
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    return null;
+  }
+
+  switch (item.type) {
+    case 'score':
+      return isScoreContent(content) ? renderScore(content) : null;
+    case 'verdict':
+      return isVerdictContent(content) ? renderVerdict(content) : null;
+    case 'table':
+      return isTableContent(content) ? renderTable(content) : null;
+    case 'list':
+      return isListContent(content) ? renderList(content) : null;
+    case 'bar-chart':
+      return isBarChartContent(content) ? renderBarChart(content) : null;
+    default:
+      logger.warn('[WidgetRenderer] Unknown widget type:', item.type);
+      return null;
+  }
+}
+
+// ============================================================================
+// Content Validation
+// ============================================================================
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isScoreContent(content: Record<string, unknown>): content is Record<string, unknown> & ScoreContent {
+  return isFiniteNumber(content.value)
+    && isOptional(content.min, isFiniteNumber)
+    && isOptional(content.max, isFiniteNumber)
+    && isOptional(content.label, isString)
+    && isOptional(content.unit, isString);
+}
+
+function isVerdictContent(content: Record<string, unknown>): content is Record<string, unknown> & VerdictContent {
+  return isString(content.verdict)
+    && isOptional(content.level, isString)
+    && isOptional(content.reasoning, isString)
+    && isOptional(content.confidence, isFiniteNumber);
+}
+
+function isTableContent(content: Record<string, unknown>): content is Record<string, unknown> & TableContent {
+  return Array.isArray(content.columns)
+    && content.columns.every(isString)
+    && Array.isArray(content.rows)
+    && content.rows.every(row => Array.isArray(row) && row.every(cell => cell === null || ['string', 'number', 'boolean'].includes(typeof cell)));
+}
+
+function isListContent(content: Record<string, unknown>): content is Record<string, unknown> & ListContent {
+  return Array.isArray(content.items)
+    && content.items.every(isString)
+    && isOptional(content.ordered, value => typeof value === 'boolean');
+}
+
+function isBarChartContent(content: Record<string, unknown>): content is Record<string, unknown> & BarChartContent {
+  return Array.isArray(content.bars)
+    && content.bars.every(bar => typeof bar === 'object' && bar !== null && isString(bar.label) && isFiniteNumber(bar.value))
+    && isOptional(content.max, isFiniteNumber)
+    && isOptional(content.unit, isString);
+}
+
+// ============================================================================
+// Widgets
+// ============================================================================
+
+/**
+ * Score gauge: half-circle arc filled to the value, with the value and label below
+ * Structure: div.tweetyoink-widget-score[role=meter] > svg, value, label
+ */
+function renderScore(score: ScoreContent): HTMLElement {
+  const min = score.min ?? 0;
+  const max = score.max ?? 100;
+  const ratio = max > min ? Math.min(Math.max((score.value - min) / (max - min), 0), 1) : 0;
+  const valueText = `${formatNumber(score.value)}${score.unit ?? ''}`;
+
+  const widget = document.createElement('div');
+  widget.className = 'tweetyoink-widget-score';
+  widget.setAttribute('role', 'meter');
+  widget.setAttribute('aria-valuemin', String(min));
+  widget.setAttribute('aria-valuemax', String(max));
+  widget.setAttribute('aria-valuenow', String(score.value));
+  widget.setAttribute('aria-valuetext', valueText);
+  if (score.label) {
+    widget.setAttribute('aria-label', score.label);
+  }
+
+  // Both arcs have pathLength 100, so the dash length is the fill percentage
+  const svg = createSvgElement('svg', { viewBox: '0 0 100 56', 'aria-hidden': 'true' });
+  const arc = 'M 10 50 A 40 40 0 0 1 90 50';
+  svg.appendChild(createSvgElement('path', { d: arc, pathLength: '100', class: 'tweetyoink-widget-score-track' }));
+  if (ratio > 0) {
+    svg.appendChild(createSvgElement('path', {
+      d: arc,
+      pathLength: '100',
+      'stroke-dasharray': `${(ratio * 100).toFixed(1)} 100`,
+      class: `tweetyoink-widget-score-fill tweetyoink-widget-score-${ratio < 1 / 3 ? 'low' : ratio < 2 / 3 ? 'medium' : 'high'}`,
+    }));
+  }
+  widget.appendChild(svg);
+
+  const value = document.createElement('div');
+  value.className = 'tweetyoink-widget-score-value';
+  value.textContent = valueText;
+  widget.appendChild(value);
+
+  const range = document.createElement('div');
+  range.className = 'tweetyoink-widget-score-range';
+  range.textContent = `${score.label ? `${score.label} · ` : ''}${formatNumber(min)}–${formatNumber(max)}`;
+  widget.appendChild(range);
+
+  return widget;
+}
+
+/**
+ * Verdict: colored badge, optional confidence and the reasoning
+ * Structure: div.tweetyoink-widget-verdict > header > badge, confidence; reasoning
+ */
+function renderVerdict(verdict: VerdictContent): HTMLElement {
+  // Unknown levels fall back to the neutral color instead of becoming a class name
+  const level: VerdictLevel = VERDICT_LEVELS.includes(verdict.level as VerdictLevel) ? verdict.level! : 'unknown';
+
+  const widget = document.createElement('div');
+  widget.className = 'tweetyoink-widget-verdict';
+
+  const header = document.createElement('div');
+  header.className = 'tweetyoink-widget-verdict-header';
+
+  const badge = document.createElement('span');
+  badge.className = `tweetyoink-widget-verdict-badge tweetyoink-widget-verdict-${level}`;
+  badge.textContent = verdict.verdict;
+  header.appendChild(badge);
+
+  if (verdict.confidence !== undefined) {
+    const confidence = document.createElement('span');
+    confidence.className = 'tweetyoink-widget-verdict-confidence';
+    confidence.textContent = `${Math.round(Math.min(Math.max(verdict.confidence, 0), 1) * 100)}% confidence`;
+    header.appendChild(confidence);
+  }
+
+  widget.appendChild(header);
+
+  if (verdict.reasoning) {
+    const reasoning = document.createElement('div');
+    reasoning.className = 'tweetyoink-widget-verdict-reasoning';
+    reasoning.textContent = verdict.reasoning;
+    widget.appendChild(reasoning);
+  }
+
+  return widget;
+}
+
+/**
+ * Table with a header row; scrolls sideways when wider than the overlay
+ * Structure: div.tweetyoink-widget-table > table > thead, tbody
+ */
+function renderTable(table: TableContent): HTMLElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'tweetyoink-widget-table';
+
+  const tableElement = document.createElement('table');
+
+  const headerRow = document.createElement('tr');
+  table.columns.forEach((column) => {
+    const th = document.createElement('th');
+    th.scope = 'col';
+    th.textContent = column;
+    headerRow.appendChild(th);
+  });
+  const thead = document.createElement('thead');
+  thead.appendChild(headerRow);
+  tableElement.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  table.rows.forEach((row) => {
+    const tr = document.createElement('tr');
+    // Pad short rows so every row has a cell per column
+    const cellCount = Math.max(row.length, table.columns.length);
+    for (let index = 0; index < cellCount; index++) {
+      const cell = row[index] ?? null;
+      const td = document.createElement('td');
+      td.textContent = cell === null ? '' : typeof cell === 'number' ? formatNumber(cell) : String(cell);
+      if (typeof cell === 'number') {
+        td.className = 'tweetyoink-widget-table-number';
+      }
+      tr.appendChild(td);
+    }
+    tbody.appendChild(tr);
+  });
+  tableElement.appendChild(tbody);
+
+  wrapper.appendChild(tableElement);
+  return wrapper;
+}
+
+/**
+ * Bulleted or numbered list
+ */
+function renderList(list: ListContent): HTMLElement {
+  const listElement = document.createElement(list.ordered ? 'ol' : 'ul');
+  listElement.className = 'tweetyoink-widget-list';
+
+  list.items.forEach((item) => {
+    const li = document.createElement('li');
+    li.textContent = item;
+    listElement.appendChild(li);
+  });
+
+  return listElement;
+}
+
+/**
+ * Horizontal bar chart, one row per bar
+ * Structure: div.tweetyoink-widget-bar-chart > row > label, track > fill, value
+ */
+function renderBarChart(chart: BarChartContent): HTMLElement {
+  const largest = Math.max(0, ...chart.bars.map(bar => bar.value));
+  const max = chart.max !== undefined && chart.max > 0 ? chart.max : largest;
+
+  const widget = document.createElement('div');
+  widget.className = 'tweetyoink-widget-bar-chart';
+  widget.setAttribute('role', 'list');
+
+  chart.bars.forEach((bar) => {
+    const valueText = `${formatNumber(bar.value)}${chart.unit ?? ''}`;
+
+    const row = document.createElement('div');
+    row.className = 'tweetyoink-widget-bar';
+    row.setAttribute('role', 'listitem');
+    row.setAttribute('aria-label', `${bar.label}: ${valueText}`);
+
+    const label = document.createElement('span');
+    label.className = 'tweetyoink-widget-bar-label';
+    label.textContent = bar.label;
+    row.appendChild(label);
+
+    const track = document.createElement('span');
+    track.className = 'tweetyoink-widget-bar-track';
+    track.setAttribute('aria-hidden', 'true');
+    const fill = document.createElement('span');
+    fill.className = 'tweetyoink-widget-bar-fill';
+    fill.style.width = `${max > 0 ? Math.min(Math.max(bar.value / max, 0), 1) * 100 : 0}%`;
+    track.appendChild(fill);
+    row.appendChild(track);
+
+    const value = document.createElement('span');
+    value.className = 'tweetyoink-widget-bar-value';
+    value.textContent = valueText;
+    row.appendChild(value);
+
+    widget.appendChild(row);
+  });
+
+  return widget;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a number for display, with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Create an SVG element with attributes
+ */
+function createSvgElement(tagName: string, attributes: Record<string, string>): SVGElement {
+  const element = document.createElementNS(SVG_NAMESPACE, tagName) as SVGElement;
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+  return element;
+}
@@ -1,29 +1,32 @@
 /**
  * Yoink button component creation and event handling
- * Feature: 002-post-view-yoink
+ * Feature: 002-post-view-yoink, 034-shadow-root
  * Based on: specs/002-post-view-yoink/research.md
  */
 
-import { createYoinkIconElement } from './icons';
+import { createYoinkIconElement, yoinkIcon, yoinkThreadIcon, yoinkSelectIcon, yoinkSelectedIcon } from './icons';
 import { COLORS, ERROR_DISPLAY_DURATION_MS } from './constants';
 
 /**
- * Creates a Yoink button element matching X/Twitter's action button styling
- * @returns HTMLButtonElement configured with icon, styles, and tooltip
+ * Button variant: single tweet capture or full thread capture (Feature 010)
  */
-export function createYoinkButton(): HTMLButtonElement {
-  const button = document.createElement('button');
+export type YoinkButtonVariant = 'single' | 'thread';
 
-  // Accessibility attributes
-  button.setAttribute('aria-label', 'Yoink this tweet');
-  button.setAttribute('type', 'button');
-  button.setAttribute('role', 'button');
+/**
+ * Data attribute on the button's host: 'true' for single tweet, 'thread' for thread capture
+ */
+const BUTTON_ATTRIBUTE = 'data-yoink-button';
 
-  // Add custom data attribute for tracking
-  button.setAttribute('data-yoink-button', 'true');
+/**
+ * Button stylesheet, inside each button's shadow root (Feature 034)
+ * Styling matches X/Twitter action buttons; state colors are set inline on the button.
+ */
+const BUTTON_STYLES = `
+  :host {
+    display: inline-flex;
+  }
 
-  // Styling to match X/Twitter action buttons
-  button.style.cssText = `
+  button {
     display: inline-flex;
     align-items: center;
     justify-content: center;
@@ -39,10 +42,45 @@ export function createYoinkButton(): HTMLButtonElement {
     transition: background-color 0.2s, color 0.2s;
     outline: none;
     -webkit-tap-highlight-color: transparent;
-  `;
+  }
+`;
+
+/**
+ * Host element of each button, and the button inside each host's closed shadow root
+ */
+const buttonHosts = new WeakMap<HTMLButtonElement, HTMLElement>();
+const hostButtons = new WeakMap<Element, HTMLButtonElement>();
+
+/**
+ * Creates a Yoink button element matching X/Twitter's action button styling
+ * The button is rendered in a closed shadow root (Feature 034), so X's styles
+ * and scripts don't reach it; insert getYoinkButtonHost(button) into the page.
+ * @param variant - Which capture the button triggers (defaults to single tweet)
+ * @returns HTMLButtonElement configured with icon, styles, and tooltip
+ */
+export function createYoinkButton(variant: YoinkButtonVariant = 'single'): HTMLButtonElement {
+  const host = document.createElement('span');
+  const shadowRoot = host.attachShadow({ mode: 'closed' });
+  const button = document.createElement('button');
+
+  // Accessibility attributes
+  button.setAttribute('aria-label', variant === 'thread' ? 'Yoink thread' : 'Yoink this tweet');
+  button.setAttribute('title', variant === 'thread' ? 'Yoink thread' : 'Yoink (Shift+click to select several)');
+  button.setAttribute('type', 'button');
+  button.setAttribute('role', 'button');
+
+  // Add custom data attribute for tracking (on the host, where page queries can find it)
+  host.setAttribute(BUTTON_ATTRIBUTE, variant === 'thread' ? 'thread' : 'true');
+
+  const style = document.createElement('style');
+  style.textContent = BUTTON_STYLES;
+  shadowRoot.append(style, button);
+
+  buttonHosts.set(button, host);
+  hostButtons.set(host, button);
 
   // Insert icon
-  const icon = createYoinkIconElement();
+  const icon = createYoinkIconElement(variant === 'thread' ? yoinkThreadIcon : yoinkIcon);
   button.appendChild(icon);
 
   // Hover state
@@ -54,7 +92,7 @@ export function createYoinkButton(): HTMLButtonElement {
   button.addEventListener('mouseleave', () => {
     if (!button.disabled) {
       button.style.backgroundColor = 'transparent';
-      button.style.color = COLORS.DEFAULT_GRAY;
+      button.style.color = isButtonChecked(button) ? COLORS.HOVER_BLUE : COLORS.DEFAULT_GRAY;
     }
   });
 
@@ -71,6 +109,36 @@ export function createYoinkButton(): HTMLButtonElement {
   return button;
 }
 
+/**
+ * Gets the element that places a Yoink button in the page (Feature 034)
+ * @param button - The Yoink button element
+ */
+export function getYoinkButtonHost(button: HTMLButtonElement): HTMLElement {
+  return buttonHosts.get(button) ?? button;
+}
+
+/**
+ * Finds Yoink buttons by their host elements (Feature 034)
+ * The buttons are in closed shadow roots, out of reach of querySelector.
+ * @param root - Element or document to search
+ * @param hostSelector - Selector the hosts must match (any Yoink button when omitted)
+ */
+export function findYoinkButtons(root: ParentNode, hostSelector = `[${BUTTON_ATTRIBUTE}]`): HTMLButtonElement[] {
+  return Array.from(root.querySelectorAll(hostSelector))
+    .map(host => hostButtons.get(host))
+    .filter((button): button is HTMLButtonElement => button !== undefined);
+}
+
+/**
+ * Finds a tweet's Yoink button
+ * @param tweetElement - The tweet article element
+ * @param variant - Single tweet or thread button
+ */
+export function findYoinkButton(tweetElement: Element, variant: YoinkButtonVariant = 'single'): HTMLButtonElement | null {
+  const marker = variant === 'thread' ? 'thread' : 'true';
+  return findYoinkButtons(tweetElement, `[${BUTTON_ATTRIBUTE}="${marker}"]`)[0] ?? null;
+}
+
 /**
  * Sets the button to disabled state during extraction
  * @param button - The Yoink button element
@@ -105,3 +173,47 @@ export function showButtonError(button: HTMLButtonElement): void {
     button.style.color = COLORS.DEFAULT_GRAY;
   }, ERROR_DISPLAY_DURATION_MS);
 }
+
+/**
+ * Shows queued state on button (amber color) when the capture waits in the offline queue
+ * Feature: 011-offline-queue
+ * @param button - The Yoink button element
+ */
+export function showButtonQueued(button: HTMLButtonElement): void {
+  button.style.color = COLORS.QUEUED_AMBER;
+  setTimeout(() => {
+    button.style.color = COLORS.DEFAULT_GRAY;
+  }, ERROR_DISPLAY_DURATION_MS);
+}
+
+/**
+ * Turns the Yoink button into a selection checkbox and back
+ * Feature: 023-batch-capture
+ * @param button - The Yoink button element
+ * @param selectable - Whether selection mode is on
+ * @param checked - Whether the tweet is selected
+ */
+export function setButtonSelectable(button: HTMLButtonElement, selectable: boolean, checked = false): void {
+  button.replaceChildren(createYoinkIconElement(selectable ? (checked ? yoinkSelectedIcon : yoinkSelectIcon) : yoinkIcon));
+
+  if (selectable) {
+    button.setAttribute('role', 'checkbox');
+    button.setAttribute('aria-checked', String(checked));
+    button.setAttribute('aria-label', 'Select tweet for batch');
+    button.setAttribute('title', checked ? 'Remove from batch' : 'Add to batch');
+  } else {
+    button.setAttribute('role', 'button');
+    button.removeAttribute('aria-checked');
+    button.setAttribute('aria-label', 'Yoink this tweet');
+    button.setAttribute('title', 'Yoink (Shift+click to select several)');
+  }
+
+  button.style.color = checked ? COLORS.HOVER_BLUE : COLORS.DEFAULT_GRAY;
+}
+
+/**
+ * Checks whether the button is a checked selection checkbox (Feature 023)
+ */
+function isButtonChecked(button: HTMLButtonElement): boolean {
+  return button.getAttribute('aria-checked') === 'true';
+}
@@ -0,0 +1,30 @@
+/**
+ * Storage Lock Utility
+ * Feature: 014-multi-endpoint-fan-out
+ *
+ * chrome.storage has no transactions, so concurrent get/modify/set sequences
+ * on the same key (e.g. parallel fan-out POSTs recording history) overwrite
+ * each other. A lock runs such sequences one at a time within a context.
+ */
+
+/**
+ * Function that runs a task once every previously scheduled task has settled
+ */
+export type StorageLock = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a lock for one storage key (or a group of keys updated together)
+ *
+ * Tasks must not call back into the same lock - that would wait on itself.
+ *
+ * @returns Lock function
+ */
+export function createStorageLock(): StorageLock {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -91,3 +91,15 @@ export function extractTweetIdFromUrl(tweetUrl: string): string | null {
   const match = tweetUrl.match(/^https:\/\/x\.com\/[A-Za-z0-9_]{1,15}\/status\/(\d+)$/);
   return match ? match[1] : null;
 }
+
+/**
+ * Extract tweet ID from a status page path
+ * Unlike extractTweetIdFromUrl, tolerates trailing segments (e.g. /photo/1)
+ *
+ * @param pathname - URL path (e.g. "/user/status/123/photo/1")
+ * @returns Tweet ID or null if path is not a status page
+ */
+export function extractTweetIdFromStatusPath(pathname: string): string | null {
+  const match = pathname.match(/^\/[A-Za-z0-9_]{1,15}\/status\/(\d+)/);
+  return match ? match[1] : null;
+}
@@ -6,6 +6,7 @@
  * - POST / returns { status: "pending", requestId: "..." }
  * - POST /status with body { requestId: "..." } returns "pending" for 30 seconds
  * - After 30 seconds, returns the original tweet data
+ * - POST /cancel with body { requestId: "..." } drops the request
  *
  * Usage:
  *   npm run server:async
@@ -199,7 +200,32 @@ async function handleStatusPost(req: IncomingMessage, res: ServerResponse) {
         },
       });
 
-      // Item 3: Media - add actual images
+      // Item 3: Result widgets (Feature 030)
+      const metrics = request.tweetData.metrics || {};
+      const confidence = request.tweetData.metadata?.confidence ?? 0;
+      contentItems.push({
+        type: 'verdict',
+        title: 'Capture Quality',
+        content: {
+          verdict: confidence >= 0.8 ? 'Complete' : 'Partial',
+          level: confidence >= 0.8 ? 'positive' : 'mixed',
+          reasoning: `Processed in ${Math.floor((now - request.createdAt) / 1000)}s.`,
+          confidence,
+        },
+      });
+      contentItems.push({
+        type: 'bar-chart',
+        title: 'Engagement',
+        content: {
+          bars: [
+            { label: 'Replies', value: metrics.replyCount ?? 0 },
+            { label: 'Retweets', value: metrics.retweetCount ?? 0 },
+            { label: 'Likes', value: metrics.likeCount ?? 0 },
+          ],
+        },
+      });
+
+      // Item 4: Media - add actual images
       if (request.tweetData.media && request.tweetData.media.length > 0) {
         request.tweetData.media.forEach((mediaItem: any, index: number) => {
           if (mediaItem.type === 'image' && mediaItem.url) {
@@ -250,6 +276,54 @@ async function handleStatusPost(req: IncomingMessage, res: ServerResponse) {
   }
 }
 
+/**
+ * Handle POST /cancel endpoint
+ */
+async function handleCancelPost(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await parseBody(req);
+    const requestId = body.requestId;
+
+    if (!requestId) {
+      sendJson(res, 400, {
+        status: 'error',
+        error: {
+          code: 'MISSING_REQUEST_ID',
+          message: 'requestId is required in request body',
+        },
+      });
+      return;
+    }
+
+    if (!asyncRequests.delete(requestId)) {
+      console.log(`❌ Cancel for unknown request: ${requestId}`);
+      sendJson(res, 404, {
+        status: 'error',
+        error: {
+          code: 'NOT_FOUND',
+          message: `Request ${requestId} not found`,
+        },
+      });
+      return;
+    }
+
+    console.log(`🛑 Request ${requestId} CANCELLED`);
+    sendJson(res, 200, {
+      status: 'cancelled',
+      requestId,
+    });
+  } catch (error) {
+    console.error('❌ Error processing cancel request:', error);
+    sendJson(res, 400, {
+      status: 'error',
+      error: {
+        code: 'PARSE_ERROR',
+        message: 'Failed to parse request body',
+      },
+    });
+  }
+}
+
 /**
  * Handle OPTIONS for CORS preflight
  */
@@ -282,6 +356,8 @@ const server = createServer((req, res) => {
     handleTweetsPost(req, res);
   } else if (method === 'POST' && url === '/status') {
     handleStatusPost(req, res);
+  } else if (method === 'POST' && url === '/cancel') {
+    handleCancelPost(req, res);
   } else {
     sendJson(res, 404, {
       status: 'error',
@@ -302,10 +378,12 @@ server.listen(PORT, () => {
   console.log('\nEndpoints:');
   console.log(`  POST http://localhost:${PORT}/`);
   console.log(`  POST http://localhost:${PORT}/status`);
+  console.log(`  POST http://localhost:${PORT}/cancel`);
   console.log('\nBehavior:');
   console.log('  • POST / returns immediately with requestId');
   console.log('  • POST /status with { requestId } returns "processing" for 30 seconds');
   console.log('  • After 30s, status returns original tweet data');
+  console.log('  • POST /cancel with { requestId } stops the request');
   console.log('\nConfigure TweetYoink extension:');
   console.log(`  1. Open extension options`);
   console.log(`  2. Set endpoint URL to: http://localhost:${PORT}/`);
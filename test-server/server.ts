@@ -5,13 +5,19 @@
  * Usage:
  *   npm run server          # Start server on port 3000
  *   npm run server:async    # Start server with async response simulation
+ *   npm run server:stream   # Start server with streaming (SSE) responses
+ *   tsx test-server/server.ts --stream --ndjson   # Stream NDJSON instead of SSE
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 
 const PORT = process.env.PORT || 3000;
 const ASYNC_COMPLETION_TIME_MS = 30000; // 30 seconds (matches async-server.ts)
-const MODE = process.argv.includes('--async') ? 'async' : 'sync';
+const MODE = process.argv.includes('--stream') ? 'stream' : process.argv.includes('--async') ? 'async' : 'sync';
+
+// Streaming mode settings
+const STREAM_FORMAT = process.argv.includes('--ndjson') ? 'ndjson' : 'sse';
+const STREAM_ITEM_INTERVAL_MS = 1000; // Delay between streamed items
 
 // Test modes for empty state testing
 const TEST_MODE_EMPTY = process.argv.includes('--test-empty'); // Return empty array
@@ -60,6 +66,241 @@ function sendJson(res: ServerResponse, statusCode: number, data: any) {
   res.end(JSON.stringify(data, null, 2));
 }
 
+/**
+ * Build content items showing the actual tweet data
+ */
+function buildContentItems(tweetData: any): any[] {
+  const contentItems: any[] = [];
+
+  // Test mode: return empty array
+  if (TEST_MODE_EMPTY) {
+    console.log('🧪 TEST MODE: Returning empty array');
+    return contentItems;
+  }
+
+  // Test mode: return only unsupported types (no text/image)
+  if (TEST_MODE_NO_TEXT) {
+    console.log('🧪 TEST MODE: Returning only unsupported types');
+    contentItems.push({
+      type: 'video',
+      content: 'https://example.com/video.mp4',
+      metadata: { title: 'Unsupported Video' },
+    });
+    contentItems.push({
+      type: 'audio',
+      content: 'https://example.com/audio.mp3',
+      metadata: { title: 'Unsupported Audio' },
+    });
+    return contentItems;
+  }
+
+  // Batch capture: a summary plus one item per selected tweet
+  if (Array.isArray(tweetData.tweets)) {
+    console.log(`📦 Batch ${tweetData.batchId} with ${tweetData.tweets.length} tweets`);
+    contentItems.push({
+      type: 'text',
+      content: `Received a batch of ${tweetData.tweets.length} tweets`,
+      metadata: {
+        title: 'Batch Summary',
+        label: `${tweetData.tweets.length} tweets`,
+      },
+    });
+    tweetData.tweets.forEach((tweet: any, index: number) => {
+      contentItems.push({
+        type: 'text',
+        content: `@${tweet.author?.handle || 'unknown'}: ${tweet.text || '[No text content]'}`,
+        metadata: {
+          title: `Tweet ${index + 1}`,
+          url: tweet.url,
+        },
+      });
+    });
+    return contentItems;
+  }
+
+  // Item 1: Author information
+  const authorHandle = tweetData.author?.handle || 'unknown';
+  const authorDisplay = tweetData.author?.displayName || 'Unknown User';
+  const isVerified = tweetData.author?.isVerified ? '✓ Verified' : '';
+  contentItems.push({
+    type: 'text',
+    content: `Author: @${authorHandle} (${authorDisplay}) ${isVerified}`,
+    metadata: {
+      title: 'Tweet Author',
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  // Item 2: Tweet content (full text, no truncation)
+  const tweetText = tweetData.text || '[No text content]';
+  contentItems.push({
+    type: 'text',
+    content: tweetText,
+    metadata: {
+      title: 'Tweet Content',
+      length: tweetText.length,
+    },
+  });
+
+  // Item 3: Markdown summary (Feature 028)
+  const metrics = tweetData.metrics || {};
+  contentItems.push({
+    type: 'markdown',
+    content: [
+      `**@${authorHandle}** posted ${tweetData.media?.length ? `with *${tweetData.media.length} media item(s)*` : '*text only*'}.`,
+      '',
+      '### Engagement',
+      `- Likes: \`${metrics.likeCount ?? 'n/a'}\``,
+      `- Retweets: \`${metrics.retweetCount ?? 'n/a'}\``,
+      `- Replies: \`${metrics.replyCount ?? 'n/a'}\``,
+      '',
+      `> ${tweetText.split('\n')[0]}`,
+      '',
+      `[Open tweet](${tweetData.url})`,
+    ].join('\n'),
+    title: 'Markdown Summary',
+  });
+
+  // Item 4: Link card to the captured tweet (Feature 029)
+  if (tweetData.url) {
+    contentItems.push({
+      type: 'link',
+      content: tweetData.url,
+      title: 'Source',
+      metadata: {
+        title: `Tweet by @${authorHandle}`,
+        description: tweetText,
+      },
+    });
+  }
+
+  // Items 5-9: Result widgets (Feature 030)
+  contentItems.push(...buildWidgetItems(tweetData));
+
+  // Item 10: Media - add actual images
+  if (tweetData.media && tweetData.media.length > 0) {
+    tweetData.media.forEach((mediaItem: any, index: number) => {
+      if (mediaItem.type === 'image' && mediaItem.url) {
+        contentItems.push({
+          type: 'image',
+          content: mediaItem.url,
+          metadata: {
+            title: mediaItem.altText || `Image ${index + 1}`,
+            altText: mediaItem.altText,
+            index: index,
+          },
+        });
+      }
+    });
+  }
+
+  return contentItems;
+}
+
+/**
+ * Build score, verdict, table, list and bar-chart items from the tweet's extraction data
+ * Grouped into two collapsible sections (Feature 031)
+ */
+function buildWidgetItems(tweetData: any): any[] {
+  const metrics = tweetData.metrics || {};
+  const confidence = tweetData.metadata?.confidence ?? 0;
+  const warnings: string[] = tweetData.metadata?.warnings || [];
+  const metricRows: Array<[string, number | null]> = [
+    ['Replies', metrics.replyCount ?? null],
+    ['Retweets', metrics.retweetCount ?? null],
+    ['Likes', metrics.likeCount ?? null],
+    ['Bookmarks', metrics.bookmarkCount ?? null],
+    ['Views', metrics.viewCount ?? null],
+  ];
+
+  return [
+    {
+      type: 'score',
+      title: 'Extraction Confidence',
+      metadata: { group: 'Assessment' },
+      content: { value: Math.round(confidence * 100), min: 0, max: 100, label: 'Confidence', unit: '%' },
+    },
+    {
+      type: 'verdict',
+      title: 'Capture Quality',
+      metadata: { group: 'Assessment' },
+      content: {
+        verdict: confidence >= 0.8 ? 'Complete' : confidence >= 0.5 ? 'Partial' : 'Unreliable',
+        level: confidence >= 0.8 ? 'positive' : confidence >= 0.5 ? 'mixed' : 'negative',
+        reasoning: warnings.length > 0
+          ? `The extractor reported ${warnings.length} warning(s).`
+          : 'All fields were extracted without warnings.',
+        confidence,
+      },
+    },
+    {
+      type: 'table',
+      title: 'Metrics',
+      metadata: { group: 'Details' },
+      content: { columns: ['Metric', 'Count'], rows: metricRows },
+    },
+    {
+      type: 'list',
+      title: 'Extraction Warnings',
+      metadata: { group: 'Details' },
+      content: { items: warnings.length > 0 ? warnings : ['No warnings'] },
+    },
+    {
+      type: 'bar-chart',
+      title: 'Engagement',
+      metadata: { group: 'Details' },
+      content: {
+        bars: metricRows
+          .filter(([label, value]) => label !== 'Views' && value !== null)
+          .map(([label, value]) => ({ label, value })),
+      },
+    },
+  ];
+}
+
+/**
+ * Check whether the client accepts the configured streaming format
+ * Clients that don't fall back to a regular sync JSON response
+ */
+function acceptsStream(req: IncomingMessage): boolean {
+  const accept = req.headers.accept || '';
+  return accept.includes(STREAM_FORMAT === 'ndjson' ? 'application/x-ndjson' : 'text/event-stream');
+}
+
+/**
+ * Stream content items as Server-Sent Events or NDJSON lines, then finish the stream
+ */
+function streamContentItems(res: ServerResponse, contentItems: any[]) {
+  res.writeHead(200, {
+    'Content-Type': STREAM_FORMAT === 'ndjson' ? 'application/x-ndjson' : 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  const writeChunk = (data: any, event?: string) => {
+    if (STREAM_FORMAT === 'ndjson') {
+      res.write(`${JSON.stringify(data)}\n`);
+    } else {
+      res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  console.log(`📡 Streaming ${contentItems.length} items (${STREAM_FORMAT})`);
+
+  contentItems.forEach((item, index) => {
+    setTimeout(() => {
+      writeChunk(item);
+      console.log(`   → item ${index + 1}/${contentItems.length}`);
+    }, (index + 1) * STREAM_ITEM_INTERVAL_MS);
+  });
+
+  setTimeout(() => {
+    writeChunk({ status: 'completed' }, 'done');
+    res.end();
+    console.log('✅ Stream completed');
+  }, (contentItems.length + 1) * STREAM_ITEM_INTERVAL_MS);
+}
+
 /**
  * Handle POST /tweets endpoint
  */
@@ -76,7 +317,10 @@ async function handleTweetsPost(req: IncomingMessage, res: ServerResponse) {
     console.log(JSON.stringify(tweetData, null, 2));
     console.log('========================================\n');
 
-    if (MODE === 'async') {
+    if (MODE === 'stream' && acceptsStream(req)) {
+      // Stream content items one at a time (Feature: 015-streaming-responses)
+      streamContentItems(res, buildContentItems(tweetData));
+    } else if (MODE === 'async') {
       // Simulate async processing
       const requestId = generateRequestId();
 
@@ -88,76 +332,18 @@ async function handleTweetsPost(req: IncomingMessage, res: ServerResponse) {
 
       // Simulate processing timeline
       setTimeout(() => {
+        if (!asyncRequests.has(requestId)) {
+          return; // Cancelled
+        }
         asyncRequests.set(requestId, { status: 'processing' });
         console.log(`⚙️  Request ${requestId} now PROCESSING`);
       }, 3000);
 
       setTimeout(() => {
-        // Build content items from actual tweet data
-        let contentItems = [];
-
-        // Test mode: return empty array
-        if (TEST_MODE_EMPTY) {
-          console.log('🧪 TEST MODE: Returning empty array');
-          contentItems = [];
-        }
-        // Test mode: return only unsupported types (no text/image)
-        else if (TEST_MODE_NO_TEXT) {
-          console.log('🧪 TEST MODE: Returning only unsupported types');
-          contentItems.push({
-            type: 'video',
-            content: 'https://example.com/video.mp4',
-            metadata: { title: 'Unsupported Video' },
-          });
-          contentItems.push({
-            type: 'audio',
-            content: 'https://example.com/audio.mp3',
-            metadata: { title: 'Unsupported Audio' },
-          });
-        }
-        // Normal mode: return actual content
-        else {
-          // Item 1: Author information
-          const authorHandle = tweetData.author?.handle || 'unknown';
-          const authorDisplay = tweetData.author?.displayName || 'Unknown User';
-          const isVerified = tweetData.author?.isVerified ? '✓ Verified' : '';
-          contentItems.push({
-            type: 'text',
-            content: `Author: @${authorHandle} (${authorDisplay}) ${isVerified}`,
-            metadata: {
-              title: 'Tweet Author',
-              timestamp: new Date().toISOString(),
-            },
-          });
-
-          // Item 2: Tweet content (full text, no truncation)
-          const tweetText = tweetData.text || '[No text content]';
-          contentItems.push({
-            type: 'text',
-            content: tweetText,
-            metadata: {
-              title: 'Tweet Content',
-              length: tweetText.length,
-            },
-          });
-
-          // Item 3: Media - add actual images
-          if (tweetData.media && tweetData.media.length > 0) {
-            tweetData.media.forEach((mediaItem: any, index: number) => {
-              if (mediaItem.type === 'image' && mediaItem.url) {
-                contentItems.push({
-                  type: 'image',
-                  content: mediaItem.url,
-                  metadata: {
-                    title: mediaItem.altText || `Image ${index + 1}`,
-                    altText: mediaItem.altText,
-                    index: index,
-                  },
-                });
-              }
-            });
-          }
+        if (!asyncRequests.has(requestId)) {
+          return; // Cancelled
         }
+        const contentItems = buildContentItems(tweetData);
 
         asyncRequests.set(requestId, {
           status: 'completed',
@@ -174,70 +360,7 @@ async function handleTweetsPost(req: IncomingMessage, res: ServerResponse) {
       });
     } else {
       // Synchronous response with content items array showing actual tweet data
-      let contentItems = [];
-
-      // Test mode: return empty array
-      if (TEST_MODE_EMPTY) {
-        console.log('🧪 TEST MODE: Returning empty array');
-        contentItems = [];
-      }
-      // Test mode: return only unsupported types (no text/image)
-      else if (TEST_MODE_NO_TEXT) {
-        console.log('🧪 TEST MODE: Returning only unsupported types');
-        contentItems.push({
-          type: 'video',
-          content: 'https://example.com/video.mp4',
-          metadata: { title: 'Unsupported Video' },
-        });
-        contentItems.push({
-          type: 'audio',
-          content: 'https://example.com/audio.mp3',
-          metadata: { title: 'Unsupported Audio' },
-        });
-      }
-      // Normal mode: return actual content
-      else {
-        // Item 1: Author information
-        const authorHandle = tweetData.author?.handle || 'unknown';
-        const authorDisplay = tweetData.author?.displayName || 'Unknown User';
-        const isVerified = tweetData.author?.isVerified ? '✓ Verified' : '';
-        contentItems.push({
-          type: 'text',
-          content: `Author: @${authorHandle} (${authorDisplay}) ${isVerified}`,
-          metadata: {
-            title: 'Tweet Author',
-            timestamp: new Date().toISOString(),
-          },
-        });
-
-        // Item 2: Tweet content (full text, no truncation)
-        const tweetText = tweetData.text || '[No text content]';
-        contentItems.push({
-          type: 'text',
-          content: tweetText,
-          metadata: {
-            title: 'Tweet Content',
-            length: tweetText.length,
-          },
-        });
-
-        // Item 3: Media - add actual images
-        if (tweetData.media && tweetData.media.length > 0) {
-          tweetData.media.forEach((mediaItem: any, index: number) => {
-            if (mediaItem.type === 'image' && mediaItem.url) {
-              contentItems.push({
-                type: 'image',
-                content: mediaItem.url,
-                metadata: {
-                  title: mediaItem.altText || `Image ${index + 1}`,
-                  altText: mediaItem.altText,
-                  index: index,
-                },
-              });
-            }
-          });
-        }
-      }
+      const contentItems = buildContentItems(tweetData);
 
       console.log(`✅ Sync response with ${contentItems.length} items`);
       sendJson(res, 200, {
@@ -319,6 +442,54 @@ async function handleStatusPost(req: IncomingMessage, res: ServerResponse) {
   }
 }
 
+/**
+ * Handle POST /cancel endpoint
+ */
+async function handleCancelPost(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = await parseBody(req);
+    const requestId = body.requestId;
+
+    if (!requestId) {
+      sendJson(res, 400, {
+        status: 'error',
+        error: {
+          code: 'MISSING_REQUEST_ID',
+          message: 'requestId is required in request body',
+        },
+      });
+      return;
+    }
+
+    if (!asyncRequests.delete(requestId)) {
+      console.log(`❌ Cancel for unknown request: ${requestId}`);
+      sendJson(res, 404, {
+        status: 'error',
+        error: {
+          code: 'NOT_FOUND',
+          message: `Request ${requestId} not found`,
+        },
+      });
+      return;
+    }
+
+    console.log(`🛑 Request ${requestId} CANCELLED`);
+    sendJson(res, 200, {
+      status: 'cancelled',
+      requestId,
+    });
+  } catch (error) {
+    console.error('❌ Error processing cancel request:', error);
+    sendJson(res, 400, {
+      status: 'error',
+      error: {
+        code: 'PARSE_ERROR',
+        message: 'Failed to parse request body',
+      },
+    });
+  }
+}
+
 /**
  * Handle OPTIONS for CORS preflight
  */
@@ -351,6 +522,8 @@ const server = createServer((req, res) => {
     handleTweetsPost(req, res);
   } else if (method === 'POST' && url === '/status') {
     handleStatusPost(req, res);
+  } else if (method === 'POST' && url === '/cancel') {
+    handleCancelPost(req, res);
   } else {
     sendJson(res, 404, {
       status: 'error',
@@ -367,11 +540,12 @@ server.listen(PORT, () => {
   console.log('║     TweetYoink Test Server Started        ║');
   console.log('╚════════════════════════════════════════════╝\n');
   console.log(`🚀 Server running on: http://localhost:${PORT}`);
-  console.log(`📋 Mode: ${MODE.toUpperCase()}`);
+  console.log(`📋 Mode: ${MODE.toUpperCase()}${MODE === 'stream' ? ` (${STREAM_FORMAT})` : ''}`);
   console.log('\nEndpoints:');
   console.log(`  POST http://localhost:${PORT}/`);
   if (MODE === 'async') {
     console.log(`  POST http://localhost:${PORT}/status`);
+    console.log(`  POST http://localhost:${PORT}/cancel`);
   }
   console.log('\nConfigure TweetYoink extension:');
   console.log(`  1. Open extension options`);
@@ -0,0 +1,94 @@
+/**
+ * Export Service Tests
+ *
+ * Validates the CSV formula guard and the JSON export shape.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatExport } from '../../src/services/export-service';
+import type { ExportRecord } from '../../src/types/export';
+import type { TweetData } from '../../src/types/tweet-data';
+
+function createRecord(text: string, handle = 'author'): ExportRecord {
+  const tweetData: TweetData = {
+    text,
+    url: 'https://x.com/author/status/1',
+    author: {
+      handle,
+      displayName: 'Author',
+      isVerified: false,
+      profileImageUrl: null,
+      profileUrl: 'https://x.com/author',
+    },
+    timestamp: '2025-01-01T00:00:00.000Z',
+    metrics: {
+      replyCount: -1,
+      retweetCount: 0,
+      likeCount: 0,
+      bookmarkCount: 0,
+      viewCount: null,
+    },
+    media: [],
+    linkCard: null,
+    tweetType: { isRetweet: false, isQuote: false, isReply: false },
+    parent: null,
+    metadata: {
+      confidence: 1,
+      capturedAt: '2025-01-01T00:00:00.000Z',
+      extractionTier: 'primary',
+      warnings: [],
+      duration: 0,
+    },
+  };
+
+  return { tweetData, sections: [{ contentItems: [] }], capturedAt: 0, status: 'completed' };
+}
+
+/**
+ * Data row of a CSV export of one capture with the given text
+ */
+function getCsvRow(text: string): string {
+  return formatExport([createRecord(text)], 'csv').split('\r\n')[1];
+}
+
+describe('CSV Export', () => {
+  it('should neutralize cells that spreadsheets would run as formulas', () => {
+    for (const prefix of ['=', '+', '-', '@']) {
+      expect(getCsvRow(`${prefix}HYPERLINK("https://evil.example")`)).toContain(`"'${prefix}HYPERLINK(""https://evil.example"")"`);
+    }
+  });
+
+  it('should neutralize cells starting with tab or carriage return', () => {
+    expect(getCsvRow('\t=1+1')).toContain("'\t=1+1");
+    expect(getCsvRow('\r=1+1')).toContain(`"'\r=1+1"`);
+  });
+
+  it('should leave numbers and ordinary text unchanged', () => {
+    const row = getCsvRow('plain text');
+
+    expect(row).toContain(',plain text,');
+    expect(row).toContain(',-1,');
+    expect(row).not.toContain("'");
+  });
+
+  it('should quote cells with commas, quotes and line breaks', () => {
+    expect(getCsvRow('a, "b"\nc')).toContain('"a, ""b""\nc"');
+  });
+
+  it('should write a header row and CRLF line endings', () => {
+    const csv = formatExport([createRecord('text')], 'csv');
+
+    expect(csv.startsWith('captured_at,status,url,')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
+
+describe('JSON Export', () => {
+  it('should write an array even for a single capture', () => {
+    const parsed = JSON.parse(formatExport([createRecord('one')], 'json'));
+
+    expect(Array.isArray(parsed)).toBe(true);
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].text).toBe('one');
+  });
+});
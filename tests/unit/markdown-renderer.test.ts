@@ -0,0 +1,94 @@
+// @vitest-environment happy-dom
+
+/**
+ * Markdown Renderer Tests
+ *
+ * Validates that server Markdown can't inject markup into the overlay:
+ * unsafe link schemes, raw HTML, runaway nesting and nested links.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderMarkdown } from '../../src/ui/markdown-renderer';
+
+function render(markdown: string): HTMLElement {
+  const container = document.createElement('div');
+  container.appendChild(renderMarkdown(markdown));
+  return container;
+}
+
+describe('Markdown Rendering', () => {
+  it('should render safe links opening in a new tab', () => {
+    const link = render('[docs](https://example.com/docs)').querySelector('a');
+
+    expect(link).not.toBeNull();
+    expect(link!.getAttribute('href')).toBe('https://example.com/docs');
+    expect(link!.target).toBe('_blank');
+    expect(link!.rel).toBe('noopener noreferrer');
+    expect(link!.textContent).toBe('docs');
+  });
+
+  it('should reject unsafe link schemes', () => {
+    for (const href of ['javascript:alert%281%29', 'data:text/html;base64,PHNjcmlwdD4=', 'vbscript:msgbox', '/relative/path']) {
+      const container = render(`[click](${href})`);
+
+      expect(container.querySelector('a'), `${href} should not become a link`).toBeNull();
+      expect(container.textContent).toBe('click');
+    }
+  });
+
+  it('should not turn unsafe autolinks into links', () => {
+    const container = render('<javascript:alert(1)>');
+
+    expect(container.querySelector('a')).toBeNull();
+    expect(container.textContent).toBe('<javascript:alert(1)>');
+  });
+
+  it('should show raw HTML as text', () => {
+    const source = '<img src=x onerror="alert(1)"><script>alert(1)</script>';
+    const container = render(`${source}\n\n\`\`\`\n${source}\n\`\`\``);
+
+    expect(container.querySelector('img, script')).toBeNull();
+    expect(container.querySelector('p')!.textContent).toBe(source);
+    expect(container.querySelector('pre code')!.textContent).toBe(source);
+  });
+
+  it('should show raw HTML in link labels and emphasis as text', () => {
+    const container = render('**<b onclick="x()">bold</b>** [<i>label</i>](https://example.com)');
+
+    expect(container.querySelector('b, i')).toBeNull();
+    expect(container.querySelector('strong')!.textContent).toBe('<b onclick="x()">bold</b>');
+    expect(container.querySelector('a')!.textContent).toBe('<i>label</i>');
+  });
+
+  it('should limit blockquote nesting depth', () => {
+    const container = render(`${'> '.repeat(50)}deep`);
+
+    expect(container.querySelectorAll('blockquote').length).toBe(8);
+    expect(container.textContent).toContain('deep');
+  });
+
+  it('should limit list nesting depth', () => {
+    const source = Array.from({ length: 30 }, (_, level) => `${'  '.repeat(level)}- item ${level}`).join('\n');
+    const container = render(source);
+
+    expect(container.querySelectorAll('ul').length).toBeLessThanOrEqual(8);
+    expect(container.textContent).toContain('item 29');
+  });
+
+  it('should not nest an autolink inside a link label', () => {
+    const container = render('[see <https://inner.example>](https://outer.example)');
+    const links = container.querySelectorAll('a');
+
+    expect(links.length).toBe(1);
+    expect(links[0].getAttribute('href')).toBe('https://outer.example/');
+    expect(links[0].textContent).toBe('see <https://inner.example>');
+  });
+
+  it('should not nest links inside formatted link labels', () => {
+    const container = render('[**<https://inner.example>**](https://outer.example)');
+
+    expect(container.querySelectorAll('a').length).toBe(1);
+    expect(container.querySelector('a a')).toBeNull();
+    expect(container.querySelector('a strong')!.textContent).toBe('<https://inner.example>');
+  });
+});
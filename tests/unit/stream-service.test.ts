@@ -0,0 +1,113 @@
+/**
+ * Stream Service Tests
+ *
+ * Validates parsing of Server-Sent Events and NDJSON response streams.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readResponseStream } from '../../src/services/stream-service';
+import type { StreamFormat } from '../../src/services/stream-service';
+
+/**
+ * Response whose body arrives in the given chunks; left open when close is false
+ */
+function createStreamResponse(chunks: string[], close = true): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      if (close) {
+        controller.close();
+      }
+    },
+  }));
+}
+
+async function readChunks(format: StreamFormat, chunks: string[], close = true, idleTimeoutMs?: number) {
+  const received: unknown[][] = [];
+  const outcome = await readResponseStream(createStreamResponse(chunks, close), format, items => received.push(items), idleTimeoutMs);
+  return { outcome, received };
+}
+
+describe('SSE Streams', () => {
+  it('should relay items split across chunks and finish on event: done', async () => {
+    const { outcome, received } = await readChunks('sse', [
+      ': connected\n\n',
+      'data: {"type":"text","con',
+      'tent":"first"}\n\n',
+      'data: [{"type":"text","content":"second"},{"type":"text","content":"third"}]\r\n\r\n',
+      'event: done\ndata:\n\n',
+      'data: {"type":"text","content":"after done"}\n\n',
+    ]);
+
+    expect(outcome.status).toBe('completed');
+    expect(received).toHaveLength(2);
+    expect(outcome.result).toEqual([
+      { type: 'text', content: 'first' },
+      { type: 'text', content: 'second' },
+      { type: 'text', content: 'third' },
+    ]);
+  });
+
+  it('should join multi-line data fields', async () => {
+    const { outcome } = await readChunks('sse', ['data: {"type":"text",\ndata: "content":"joined"}\n\n']);
+
+    expect(outcome.result).toEqual([{ type: 'text', content: 'joined' }]);
+  });
+
+  it('should fail on an error event', async () => {
+    const { outcome } = await readChunks('sse', [
+      'data: {"type":"text","content":"partial"}\n\n',
+      'event: error\ndata: {"code":"MODEL_ERROR","message":"Model crashed"}\n\n',
+    ]);
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.error).toEqual({ code: 'MODEL_ERROR', message: 'Model crashed' });
+    expect(outcome.result).toEqual([{ type: 'text', content: 'partial' }]);
+  });
+
+  it('should flush a final event without a trailing blank line', async () => {
+    const { outcome } = await readChunks('sse', ['data: {"type":"text","content":"last"}']);
+
+    expect(outcome.status).toBe('completed');
+    expect(outcome.result).toEqual([{ type: 'text', content: 'last' }]);
+  });
+});
+
+describe('NDJSON Streams', () => {
+  it('should skip malformed lines and append the final result', async () => {
+    const { outcome, received } = await readChunks('ndjson', [
+      '{"type":"text","content":"one"}\n{not json}\n',
+      '\n{"status":"completed","result":[{"type":"text","content":"two"}]}\n',
+    ]);
+
+    expect(outcome.status).toBe('completed');
+    expect(received).toHaveLength(2);
+    expect(outcome.result).toEqual([
+      { type: 'text', content: 'one' },
+      { type: 'text', content: 'two' },
+    ]);
+  });
+
+  it('should fail on a failed status line', async () => {
+    const { outcome } = await readChunks('ndjson', ['{"status":"failed","error":{"code":"QUOTA","message":"Out of quota"}}\n']);
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.error).toEqual({ code: 'QUOTA', message: 'Out of quota' });
+  });
+
+  it('should complete when the stream closes without a final line', async () => {
+    const { outcome } = await readChunks('ndjson', ['{"type":"text","content":"only"}']);
+
+    expect(outcome.status).toBe('completed');
+    expect(outcome.result).toEqual([{ type: 'text', content: 'only' }]);
+  });
+
+  it('should fail as interrupted when the stream goes idle', async () => {
+    const { outcome } = await readChunks('ndjson', ['{"type":"text","content":"before stall"}\n'], false, 20);
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.error?.code).toBe('STREAM_INTERRUPTED');
+    expect(outcome.result).toEqual([{ type: 'text', content: 'before stall' }]);
+  });
+});
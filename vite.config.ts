@@ -14,13 +14,19 @@ export default defineConfig(({ mode }) => ({
     sourcemap: 'inline',
     // Reduce minification in development for more readable errors
     minify: mode === 'development' ? false : 'esbuild',
-    // Keep chunk names readable in development
-    rollupOptions: mode === 'development' ? {
-      output: {
-        entryFileNames: '[name].js',
-        chunkFileNames: '[name].js',
-        assetFileNames: '[name].[ext]'
-      }
-    } : {}
+    rollupOptions: {
+      // Extension pages not referenced by manifest.json (opened via chrome.tabs.create)
+      input: {
+        history: 'src/history/history.html'
+      },
+      // Keep chunk names readable in development
+      ...(mode === 'development' ? {
+        output: {
+          entryFileNames: '[name].js',
+          chunkFileNames: '[name].js',
+          assetFileNames: '[name].[ext]'
+        }
+      } : {})
+    }
   }
 }));
@@ -4,6 +4,6 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
-    include: ['tests/smoke/**/*.test.ts']
+    include: ['tests/smoke/**/*.test.ts', 'tests/unit/**/*.test.ts']
   }
 });